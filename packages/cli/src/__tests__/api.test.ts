@@ -0,0 +1,116 @@
+import type * as api from '../api';
+import { createTestDeployment, MockApiServer, startMockApiServer } from '../tests/mockApiServer';
+
+describe('api', () => {
+  const options = { bearerToken: 'test-token', cliVersion: '1.2.3' };
+  let server: MockApiServer;
+  let fetchDeployments: typeof api.fetchDeployments;
+  let fetchDeployment: typeof api.fetchDeployment;
+  let patchSite: typeof api.patchSite;
+  let APIError: typeof api.APIError;
+
+  beforeAll(async () => {
+    server = await startMockApiServer();
+    process.env.OUTSMARTLY_API_ORIGIN = server.origin;
+    // The origin is read when the module is first imported
+    ({ fetchDeployments, fetchDeployment, patchSite, APIError } = await import('../api'));
+  });
+
+  afterAll(async () => {
+    delete process.env.OUTSMARTLY_API_ORIGIN;
+    await server.close();
+  });
+
+  beforeEach(() => {
+    server.requests.length = 0;
+    server.deployments.length = 0;
+  });
+
+  describe('fetchDeployments()', () => {
+    it('lists the deployments of a site, filtered by environment and limited', async () => {
+      server.deployments.push(
+        createTestDeployment({ id: 'dep_3' }),
+        createTestDeployment({ id: 'dep_2', environment: { name: 'staging', origin: 'https://staging.example.com' } }),
+        createTestDeployment({ id: 'dep_1' }),
+        createTestDeployment({ id: 'other', host: 'other.outsmartly.app' }),
+      );
+
+      const all = await fetchDeployments('example.outsmartly.app', {}, options);
+      expect(all.map((deployment) => deployment.id)).toEqual(['dep_3', 'dep_2', 'dep_1']);
+      expect(all[0]).not.toHaveProperty('configRaw');
+
+      const production = await fetchDeployments(
+        'example.outsmartly.app',
+        { environment: 'production', limit: 1 },
+        options,
+      );
+      expect(production.map((deployment) => deployment.id)).toEqual(['dep_3']);
+      expect(server.requests.map((request) => request.url)).toEqual([
+        '/sites/example.outsmartly.app/deployments',
+        '/sites/example.outsmartly.app/deployments?environment=production&limit=1',
+      ]);
+    });
+
+    it('sends the access token and CLI version', async () => {
+      await fetchDeployments('example.outsmartly.app', {}, options);
+      const { headers } = server.requests[0];
+      expect(headers.authorization).toBe('Bearer test-token');
+      expect(headers.accept).toBe('application/vnd.outsmartly.v1+json');
+      expect(headers['user-agent']).toMatch(/^Outsmartly-CLI\/1\.2\.3 /);
+    });
+
+    it('throws an APIError with the errors from the API', async () => {
+      const promise = fetchDeployments('example.outsmartly.app', {}, { ...options, bearerToken: 'wrong' });
+      await expect(promise).rejects.toBeInstanceOf(APIError);
+      await expect(promise).rejects.toMatchObject({ json: { errors: ['Invalid access token.'] } });
+    });
+  });
+
+  describe('fetchDeployment()', () => {
+    it('fetches a deployment with its config', async () => {
+      const deployment = createTestDeployment({ id: 'dep/1' });
+      server.deployments.push(deployment);
+
+      expect(await fetchDeployment('example.outsmartly.app', 'dep/1', options)).toEqual(deployment);
+      expect(server.requests[0].url).toBe('/sites/example.outsmartly.app/deployments/dep%2F1');
+    });
+
+    it('throws an APIError when there is no such deployment', async () => {
+      await expect(fetchDeployment('example.outsmartly.app', 'missing', options)).rejects.toMatchObject({
+        response: { status: 404 },
+        json: { errors: ['No deployment missing for example.outsmartly.app.'] },
+      });
+    });
+  });
+
+  describe('patchSite()', () => {
+    it('sends the config being restored along with the deployment it came from', async () => {
+      const deployment = createTestDeployment();
+      const site = await patchSite(
+        {
+          host: deployment.host,
+          configRaw: deployment.configRaw,
+          analysis: deployment.analysis,
+          environment: deployment.environment,
+          rollbackOf: deployment.id,
+        },
+        options,
+      );
+
+      expect(site.configRaw).toBe(deployment.configRaw);
+      expect(server.requests).toEqual([
+        expect.objectContaining({
+          method: 'PATCH',
+          url: '/sites/example.outsmartly.app',
+          body: {
+            host: 'example.outsmartly.app',
+            configRaw: deployment.configRaw,
+            analysis: deployment.analysis,
+            environment: deployment.environment,
+            rollbackOf: 'dep_1',
+          },
+        }),
+      ]);
+    });
+  });
+});
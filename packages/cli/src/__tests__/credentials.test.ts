@@ -0,0 +1,194 @@
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import { AddressInfo } from 'net';
+import { URLSearchParams } from 'url';
+import { Issuer } from 'openid-client';
+import type * as credentialsModule from '../credentials';
+
+describe('credentials', () => {
+  let home: string;
+  let credentials: typeof credentialsModule;
+  let tokenServer: http.Server;
+  // What the token endpoint receives and replies with
+  let tokenRequests: URLSearchParams[];
+  let tokenResponse: { status: number; body: object };
+
+  const HOUR = 1000 * 60 * 60;
+
+  function login(overrides: Partial<credentialsModule.LoginCredentials> = {}): credentialsModule.LoginCredentials {
+    const now = Date.now();
+    return {
+      accessToken: 'access-token',
+      refreshToken: 'refresh-token',
+      expiresAt: now + HOUR,
+      sessionExpiresAt: now + 24 * HOUR,
+      user: { sub: 'auth0|1', email: 'ada@example.com' },
+      ...overrides,
+    };
+  }
+
+  beforeAll(async () => {
+    tokenServer = http.createServer(async (req, res) => {
+      const chunks: Buffer[] = [];
+      for await (const chunk of req) {
+        chunks.push(chunk);
+      }
+      tokenRequests.push(new URLSearchParams(Buffer.concat(chunks).toString()));
+      res.statusCode = tokenResponse.status;
+      res.setHeader('content-type', 'application/json');
+      res.end(JSON.stringify(tokenResponse.body));
+    });
+    await new Promise<void>((resolve) => tokenServer.listen(0, '127.0.0.1', resolve));
+    const { port } = tokenServer.address() as AddressInfo;
+    const origin = `http://127.0.0.1:${port}`;
+    jest.spyOn(Issuer, 'discover').mockResolvedValue(new Issuer({ issuer: origin, token_endpoint: `${origin}/token` }));
+
+    home = fs.mkdtempSync(path.join(os.tmpdir(), 'outsmartly-credentials-'));
+    jest.spyOn(os, 'homedir').mockReturnValue(home);
+    // The credentials path is read from the home directory when first imported
+    credentials = await import('../credentials');
+  });
+
+  afterAll(async () => {
+    jest.restoreAllMocks();
+    fs.rmSync(home, { recursive: true, force: true });
+    await new Promise((resolve) => tokenServer.close(resolve));
+  });
+
+  beforeEach(() => {
+    fs.rmSync(path.join(home, '.config'), { recursive: true, force: true });
+    tokenRequests = [];
+    tokenResponse = { status: 200, body: {} };
+  });
+
+  it('saves credentials in the home directory, only readable by you', () => {
+    expect(credentials.CREDENTIALS_FILE_PATH).toBe(path.join(home, '.config', 'outsmartly', 'config.json'));
+    expect(credentials.readCredentials()).toEqual({});
+
+    credentials.writeCredentials({ cli: { bearerToken: 'pasted' } });
+    expect(credentials.readCredentials()).toEqual({ cli: { bearerToken: 'pasted' } });
+    expect(fs.statSync(credentials.CREDENTIALS_FILE_PATH).mode & 0o777).toBe(0o600);
+  });
+
+  it('saves a login, keeping other credentials', () => {
+    credentials.writeCredentials({ cli: { bearerToken: 'pasted' } });
+    const expiresAt = Math.floor(Date.now() / 1000) + 3600;
+
+    const saved = credentials.saveLogin(
+      { access_token: 'access', refresh_token: 'refresh', expires_at: expiresAt } as any,
+      60,
+      { sub: 'auth0|1' },
+    );
+
+    expect(saved).toEqual({
+      accessToken: 'access',
+      refreshToken: 'refresh',
+      expiresAt: expiresAt * 1000,
+      sessionExpiresAt: expect.any(Number),
+      user: { sub: 'auth0|1' },
+    });
+    expect(saved.sessionExpiresAt - Date.now()).toBeLessThanOrEqual(60 * 1000);
+    expect(credentials.readCredentials().cli).toEqual({ bearerToken: 'pasted', login: saved });
+  });
+
+  it('removes everything on logout', () => {
+    const saved = { bearerToken: 'pasted', login: login() };
+    credentials.writeCredentials({ cli: saved });
+    expect(credentials.clearCredentials()).toEqual(saved);
+    expect(credentials.readCredentials()).toEqual({});
+  });
+
+  describe('findLoginAccessToken()', () => {
+    it('uses the saved access token until it is about to expire', async () => {
+      credentials.writeCredentials({ cli: { login: login() } });
+      expect(await credentials.findLoginAccessToken()).toBe('access-token');
+      expect(tokenRequests).toEqual([]);
+    });
+
+    it('refreshes an expired access token and saves it', async () => {
+      // Expires within the margin, so it's refreshed early
+      credentials.writeCredentials({ cli: { login: login({ expiresAt: Date.now() + 1000 }) } });
+      tokenResponse = {
+        status: 200,
+        body: { access_token: 'new-access-token', token_type: 'Bearer', expires_in: 3600 },
+      };
+
+      expect(await credentials.findLoginAccessToken()).toBe('new-access-token');
+
+      expect(tokenRequests.map((params) => Object.fromEntries(params))).toEqual([
+        expect.objectContaining({ grant_type: 'refresh_token', refresh_token: 'refresh-token' }),
+      ]);
+      const saved = credentials.readCredentials().cli!.login!;
+      expect(saved.accessToken).toBe('new-access-token');
+      // It wasn't rotated, so the old one is kept
+      expect(saved.refreshToken).toBe('refresh-token');
+      expect(saved.expiresAt).toBeGreaterThan(Date.now() + HOUR - 5000);
+      expect(saved.user).toEqual(login().user);
+    });
+
+    it('saves a rotated refresh token', async () => {
+      credentials.writeCredentials({ cli: { login: login({ expiresAt: 0 }) } });
+      tokenResponse = {
+        status: 200,
+        body: { access_token: 'new-access-token', refresh_token: 'new-refresh-token', expires_in: 3600 },
+      };
+
+      await credentials.findLoginAccessToken();
+      expect(credentials.readCredentials().cli!.login!.refreshToken).toBe('new-refresh-token');
+    });
+
+    it('throws NotLoggedInError when not logged in', async () => {
+      await expect(credentials.findLoginAccessToken()).rejects.toThrow(credentials.NotLoggedInError);
+    });
+
+    it('throws NotLoggedInError without refreshing once the session has expired', async () => {
+      credentials.writeCredentials({ cli: { login: login({ expiresAt: 0, sessionExpiresAt: Date.now() - 1 }) } });
+      await expect(credentials.findLoginAccessToken()).rejects.toThrow(
+        "Your login has expired. Run 'outsmartly login' again.",
+      );
+
+      credentials.writeCredentials({ cli: { login: login({ expiresAt: 0, refreshToken: undefined }) } });
+      await expect(credentials.findLoginAccessToken()).rejects.toThrow(credentials.NotLoggedInError);
+      expect(tokenRequests).toEqual([]);
+    });
+
+    it('throws NotLoggedInError when the refresh token is rejected', async () => {
+      credentials.writeCredentials({ cli: { login: login({ expiresAt: 0 }) } });
+      tokenResponse = { status: 400, body: { error: 'invalid_grant', error_description: 'Refresh token revoked' } };
+
+      await expect(credentials.findLoginAccessToken()).rejects.toThrow(credentials.NotLoggedInError);
+      expect(credentials.readCredentials().cli!.login!.accessToken).toBe('access-token');
+    });
+  });
+
+  describe('findBearerToken()', () => {
+    let envToken: string | undefined;
+
+    beforeEach(() => {
+      envToken = process.env.OUTSMARTLY_TOKEN;
+      delete process.env.OUTSMARTLY_TOKEN;
+    });
+
+    afterEach(() => {
+      if (envToken === undefined) {
+        delete process.env.OUTSMARTLY_TOKEN;
+      } else {
+        process.env.OUTSMARTLY_TOKEN = envToken;
+      }
+    });
+
+    it('prefers --token, then OUTSMARTLY_TOKEN, then the login, then a pasted token', async () => {
+      credentials.writeCredentials({ cli: { bearerToken: 'pasted' } });
+      expect(await credentials.findBearerToken()).toBe('pasted');
+
+      credentials.writeCredentials({ cli: { bearerToken: 'pasted', login: login() } });
+      expect(await credentials.findBearerToken()).toBe('access-token');
+
+      process.env.OUTSMARTLY_TOKEN = 'from-env';
+      expect(await credentials.findBearerToken()).toBe('from-env');
+      expect(await credentials.findBearerToken('from-flag')).toBe('from-flag');
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import chalk from 'chalk';
+import { DeploymentSnapshot, diffDeployments, formatDeploymentDiff, hasChanges, snapshotConfig } from '../diff';
+
+function snapshot(config: any, vfs: { [path: string]: string } = {}): DeploymentSnapshot {
+  return { config: snapshotConfig(config), analysis: { components: {}, vfs } };
+}
+
+describe('diffDeployments()', () => {
+  const environments = [{ name: 'production', origin: 'https://example.com' }];
+
+  it('has no changes when nothing changed', () => {
+    const config = { environments, routes: [{ path: '/', intercept: () => null }] };
+    const diff = diffDeployments(snapshot(config), snapshot({ ...config }));
+    expect(hasChanges(diff)).toBe(false);
+  });
+
+  it('adds everything when nothing is live yet', () => {
+    const diff = diffDeployments(null, snapshot({ environments }, { 'index.js': '' }));
+    expect(diff.environments).toEqual([{ kind: 'added', name: 'production' }]);
+    expect(diff.vfs).toEqual([{ kind: 'added', name: 'index.js' }]);
+  });
+
+  it('compares functions by their source and middleware by position', () => {
+    const prev = snapshot({
+      middleware: [function auth() {}, function log() {}],
+      routes: [{ path: '/', intercept: () => 1 }],
+    });
+    const next = snapshot({
+      middleware: [function log() {}],
+      routes: [{ path: '/', intercept: () => 2 }],
+    });
+
+    const diff = diffDeployments(prev, next);
+    expect(diff.middleware).toEqual([
+      { kind: 'added', name: 'middleware[0] log' },
+      { kind: 'removed', name: 'middleware[0] auth' },
+      { kind: 'removed', name: 'middleware[1] log' },
+    ]);
+    expect(diff.routes).toEqual([{ kind: 'changed', name: '/', details: ['intercept'] }]);
+  });
+
+  it('diffs overrides separately from their routes', () => {
+    const getOverrideProps = () => ({ props: {} });
+    const prev = snapshot({
+      routes: [{ path: /^\/products/, overrides: [{ component: 'Hero', getOverrideProps }] }],
+    });
+    const next = snapshot({
+      routes: [
+        {
+          path: /^\/products/,
+          overrides: [
+            { component: 'Hero', segments: [{ country: 'US' }], getOverrideProps },
+            { name: 'Banner', component: 'PromoBanner', getOverrideProps },
+          ],
+        },
+      ],
+    });
+
+    const diff = diffDeployments(prev, next);
+    expect(diff.routes).toEqual([]);
+    expect(diff.overrides).toEqual([
+      { kind: 'changed', name: '/^\\/products/ › Hero', details: ['segments'] },
+      { kind: 'added', name: '/^\\/products/ › Banner' },
+    ]);
+  });
+
+  it('keeps the names of functions in snapshots', () => {
+    const auth = () => {};
+    expect(snapshotConfig({ middleware: [auth], routes: [{ path: /^\/products/ }] })).toEqual({
+      middleware: [{ name: 'auth', source: '() => { }' }],
+      routes: [{ path: '/^\\/products/' }],
+    });
+  });
+
+  it('only compares the analysis when the live config was not snapshotted', () => {
+    const live: DeploymentSnapshot = { config: null, analysis: { components: {}, vfs: { 'index.js': '' } } };
+    const diff = diffDeployments(live, snapshot({ environments }, { 'index.js': 'a\nb' }));
+    expect(diff.environments).toEqual([]);
+    expect(diff.vfs).toEqual([{ kind: 'changed', name: 'index.js', details: ['1 → 2 lines'] }]);
+  });
+
+  it('counts the lines of changed files', () => {
+    const diff = diffDeployments(snapshot({}, { 'index.js': 'a\nb' }), snapshot({}, { 'index.js': 'a\nb\nc' }));
+    expect(diff.vfs).toEqual([{ kind: 'changed', name: 'index.js', details: ['2 → 3 lines'] }]);
+  });
+});
+
+describe('formatDeploymentDiff()', () => {
+  let level: chalk.Level;
+
+  beforeEach(() => {
+    level = chalk.level;
+    chalk.level = 0;
+  });
+
+  afterEach(() => {
+    chalk.level = level;
+  });
+
+  it('lists the changes by section', () => {
+    const prev = snapshot({ plugins: [{ name: 'limespot', setup: () => 1 }] }, { 'old.js': '' });
+    const next = snapshot({ plugins: [{ name: 'limespot', setup: () => 2 }] }, { 'new.js': '' });
+
+    expect(formatDeploymentDiff(diffDeployments(prev, next))).toBe(
+      ['Plugins', '  ~ limespot (setup)', '', 'Files', '  + new.js', '  - old.js'].join('\n'),
+    );
+  });
+
+  it('says when there are no changes', () => {
+    expect(formatDeploymentDiff(diffDeployments(snapshot({}), snapshot({})))).toBe('No changes.');
+  });
+});
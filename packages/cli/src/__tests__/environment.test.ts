@@ -0,0 +1,66 @@
+import { DEFAULT_ENVIRONMENT_NAME, describeOriginProblem, findEnvironment } from '../environment';
+
+const CONFIG_PATH = 'outsmartly.config.js';
+
+const config = {
+  host: 'example.outsmartly.app',
+  environments: [
+    { name: 'staging', origin: 'https://staging.example.com' },
+    { name: 'production', origin: 'https://example.com' },
+  ],
+};
+
+describe('findEnvironment()', () => {
+  it('finds the default environment', () => {
+    expect(findEnvironment(config, DEFAULT_ENVIRONMENT_NAME, CONFIG_PATH)).toEqual({
+      name: 'production',
+      origin: 'https://example.com',
+    });
+  });
+
+  it('finds other environments by name', () => {
+    expect(findEnvironment(config, 'staging', CONFIG_PATH).origin).toBe('https://staging.example.com');
+  });
+
+  it('lists the available environments when there is none with the name', () => {
+    expect(() => findEnvironment(config, 'preview', CONFIG_PATH)).toThrow(
+      "No environment named 'preview' was found in outsmartly.config.js. Available environments: 'staging', 'production'",
+    );
+  });
+
+  it('requires at least one environment', () => {
+    const message = "Missing 'environments' field in outsmartly.config.js, at least one environment is required.";
+    expect(() => findEnvironment({ host: 'example.outsmartly.app' }, 'production', CONFIG_PATH)).toThrow(message);
+    expect(() => findEnvironment({ environments: [] }, 'production', CONFIG_PATH)).toThrow(message);
+    expect(() => findEnvironment(undefined, 'production', CONFIG_PATH)).toThrow(message);
+  });
+
+  it('requires environments to have unique names', () => {
+    expect(() =>
+      findEnvironment({ environments: [{ origin: 'https://example.com' }] }, 'production', CONFIG_PATH),
+    ).toThrow("Every environment in outsmartly.config.js must have a 'name'.");
+    expect(() =>
+      findEnvironment({ environments: [...config.environments, config.environments[0]] }, 'production', CONFIG_PATH),
+    ).toThrow("More than one environment named 'staging' was found in outsmartly.config.js");
+  });
+
+  it("checks the environment's origin", () => {
+    const environments = [{ name: 'production', origin: 'https://example.com/shop' }];
+    expect(() => findEnvironment({ environments }, 'production', CONFIG_PATH)).toThrow(
+      "Invalid environment 'production' in outsmartly.config.js: 'https://example.com/shop' must not include a path",
+    );
+  });
+});
+
+describe('describeOriginProblem()', () => {
+  it('accepts http and https origins', () => {
+    expect(describeOriginProblem('https://example.com')).toBeNull();
+    expect(describeOriginProblem('http://localhost:8000')).toBeNull();
+  });
+
+  it('describes origins that are not URLs, or have other protocols', () => {
+    expect(describeOriginProblem(undefined)).toContain("'origin' must be a URL");
+    expect(describeOriginProblem('example.com')).toContain('is not a valid URL');
+    expect(describeOriginProblem('ftp://example.com')).toContain('must start with https:// or http://');
+  });
+});
@@ -0,0 +1,166 @@
+import vm from 'vm';
+import { ConfigProblem, validateOutsmartlyConfig } from '../validate';
+
+const VALID_CONFIG = {
+  host: 'example.outsmartly.app',
+  environments: [{ name: 'production', origin: 'https://example.com' }],
+};
+
+function problemsOf(config: unknown): string[] {
+  return validateOutsmartlyConfig(config).map(({ severity, location }: ConfigProblem) => `${severity} ${location}`);
+}
+
+describe('validateOutsmartlyConfig()', () => {
+  it('has no problems with a minimal config', () => {
+    expect(validateOutsmartlyConfig(VALID_CONFIG)).toEqual([]);
+  });
+
+  it('requires a default export object', () => {
+    expect(problemsOf(undefined)).toEqual(['error default']);
+    expect(problemsOf([])).toEqual(['error default']);
+  });
+
+  it('requires a host without a protocol or path', () => {
+    expect(problemsOf({ ...VALID_CONFIG, host: undefined })).toEqual(['error host']);
+    expect(problemsOf({ ...VALID_CONFIG, host: 'https://example.outsmartly.app' })).toEqual(['error host']);
+    expect(problemsOf({ ...VALID_CONFIG, host: 'example.outsmartly.app/shop' })).toEqual(['error host']);
+  });
+
+  it('requires uniquely named environments with origins', () => {
+    expect(problemsOf({ ...VALID_CONFIG, environments: [] })).toEqual(['error environments']);
+    expect(
+      problemsOf({
+        ...VALID_CONFIG,
+        environments: [
+          { name: 'production', origin: 'https://example.com' },
+          { name: 'production', origin: 'https://example.com/path' },
+          'staging',
+        ],
+      }),
+    ).toEqual(['error environments[1].name', 'error environments[1].origin', 'error environments[2]']);
+  });
+
+  it('warns about unknown fields, which are ignored', () => {
+    const problems = validateOutsmartlyConfig({
+      ...VALID_CONFIG,
+      rutes: [],
+      routes: [{ path: '/', intercept: () => null, middlewares: [] }],
+    });
+    expect(problems).toEqual([
+      { severity: 'warning', location: 'rutes', message: "Unknown field 'rutes', it will be ignored." },
+      {
+        severity: 'warning',
+        location: 'routes[0].middlewares',
+        message: "Unknown field 'middlewares', it will be ignored.",
+      },
+    ]);
+  });
+
+  describe('routes', () => {
+    it('requires paths that can match', () => {
+      const intercept = () => null;
+      expect(
+        problemsOf({
+          ...VALID_CONFIG,
+          routes: [
+            { path: 'products', intercept },
+            { path: '/search?q=:query', intercept },
+            { path: '', intercept },
+            { path: '/products/:id', intercept },
+            { path: '/products/:id', intercept },
+          ],
+        }),
+      ).toEqual(['error routes[0].path', 'error routes[1].path', 'error routes[2].path', 'warning routes[4].path']);
+    });
+
+    it('accepts RegExp paths from the V8 context the config is evaluated in', () => {
+      const path = vm.runInNewContext('/^\\/products\\/(?<id>\\d+)$/');
+      expect(problemsOf({ ...VALID_CONFIG, routes: [{ path, intercept: () => null }] })).toEqual([]);
+    });
+
+    it('checks middleware, interceptors, overrides and segments', () => {
+      expect(
+        problemsOf({
+          ...VALID_CONFIG,
+          routes: [
+            {
+              path: '/',
+              segments: [{ country: 'US' }, 'US'],
+              middleware: [() => null, 'auth'],
+              intercept: 'nope',
+              overrides: [{ name: 1, getOverrideProps: {} }, null],
+            },
+          ],
+        }),
+      ).toEqual([
+        'error routes[0].segments[1]',
+        'error routes[0].middleware[1]',
+        'error routes[0].intercept',
+        'error routes[0].overrides[0].name',
+        'error routes[0].overrides[0].component',
+        'error routes[0].overrides[0].getOverrideProps',
+        'error routes[0].overrides[1]',
+      ]);
+    });
+
+    it('warns about overrides an interceptor prevents, and routes that do nothing', () => {
+      const override = { component: 'Hero', getOverrideProps: () => undefined };
+      expect(
+        problemsOf({
+          ...VALID_CONFIG,
+          routes: [{ path: '/', intercept: () => null, overrides: [override] }, { path: '/about' }],
+        }),
+      ).toEqual(['warning routes[0].overrides', 'warning routes[1]']);
+    });
+  });
+
+  it('checks the messageBus options', () => {
+    expect(
+      problemsOf({
+        ...VALID_CONFIG,
+        messageBus: {
+          invalidMessages: 'drop',
+          overflow: 'drop-all',
+          flushInterval: -1,
+          maxBatchSize: 1.5,
+          maxBufferLength: 0,
+          store: {},
+          messageTypes: { click: {}, view: { validate: () => ({}) } },
+        },
+      }),
+    ).toEqual([
+      'error messageBus.invalidMessages',
+      'error messageBus.overflow',
+      'error messageBus.flushInterval',
+      'error messageBus.maxBatchSize',
+      'error messageBus.maxBufferLength',
+      'error messageBus.store',
+      "error messageBus.messageTypes['click']",
+    ]);
+  });
+
+  it('checks plugins', () => {
+    expect(
+      problemsOf({
+        ...VALID_CONFIG,
+        plugins: [{ name: 'ok', setup() {} }, () => ({ name: 'forgot to call me' }), { setup: true }],
+      }),
+    ).toEqual(['error plugins[1]', 'error plugins[2].name', 'error plugins[2].setup']);
+  });
+
+  it('checks the visitorProfile options', () => {
+    expect(problemsOf({ ...VALID_CONFIG, visitorProfile: { ttl: 0, maxBytes: '16kb', store: { get() {} } } })).toEqual([
+      'error visitorProfile.ttl',
+      'error visitorProfile.maxBytes',
+      'error visitorProfile.store',
+    ]);
+  });
+
+  it('checks cookie secrets, and warns about short ones', () => {
+    expect(problemsOf({ ...VALID_CONFIG, cookies: { secrets: [] } })).toEqual(['error cookies.secrets']);
+    expect(problemsOf({ ...VALID_CONFIG, cookies: { secrets: ['x'.repeat(32), '', 'short'] } })).toEqual([
+      'error cookies.secrets[1]',
+      'warning cookies.secrets[2]',
+    ]);
+  });
+});
@@ -1,5 +1,6 @@
 import fetch, { Response, Headers, RequestInit } from 'node-fetch';
 import { AbortSignal } from 'node-fetch/externals';
+import { URLSearchParams } from 'url';
 
 const origin =
   process.env.OUTSMARTLY_API_ORIGIN ?? 'https://api.edgebailey.com';
@@ -148,10 +149,28 @@ export interface Analysis {
   vfs: { [key: string]: string };
 }
 
+/**
+ * The config as JSON, with functions and regular expressions replaced by their
+ * source. Deployed along with it, so it can be compared without being run.
+ */
+export interface ConfigSnapshot {
+  [key: string]: unknown;
+}
+
+export interface Environment {
+  name: string;
+  origin: string;
+}
+
 export interface PatchSite {
   host: string;
   configRaw?: string;
+  configSnapshot?: ConfigSnapshot;
   analysis?: Analysis;
+  // Each environment is deployed separately, so this decides which one is updated.
+  environment?: Environment;
+  // The id of a previous deployment whose config is being restored
+  rollbackOf?: string;
 }
 
 export async function patchSite(
@@ -172,3 +191,82 @@ export async function patchSite(
     },
   });
 }
+
+export interface DeploymentAuthor {
+  id: string;
+  name: string;
+  email: string;
+}
+
+export interface Deployment {
+  id: string;
+  host: string;
+  environment: Environment;
+  // Hash of configRaw, so you can tell whether two deployments are the same
+  configHash: string;
+  author: DeploymentAuthor;
+  createdAt: string;
+  // When this deployment was a rollback, the id of the deployment it restored
+  rollbackOf: string | null;
+}
+
+export interface DeploymentWithConfig extends Deployment {
+  configRaw: string;
+  // Deployments made by older versions of the CLI don't have one
+  configSnapshot?: ConfigSnapshot;
+  analysis: Analysis;
+}
+
+export interface FetchDeploymentsOptions {
+  environment?: string;
+  limit?: number;
+}
+
+/**
+ * Deployments of a site, newest first.
+ */
+export async function fetchDeployments(
+  host: string,
+  query: FetchDeploymentsOptions,
+  options: {
+    bearerToken: string;
+    cliVersion: string;
+    signal?: AbortSignal;
+  },
+): Promise<Deployment[]> {
+  const params = new URLSearchParams();
+  if (query.environment) {
+    params.set('environment', query.environment);
+  }
+  if (query.limit) {
+    params.set('limit', String(query.limit));
+  }
+  const search = params.toString() ? `?${params}` : '';
+
+  return await apiFetch(`${origin}/sites/${host}/deployments${search}`, {
+    ...options,
+    init: {
+      method: 'GET',
+    },
+  });
+}
+
+export async function fetchDeployment(
+  host: string,
+  id: string,
+  options: {
+    bearerToken: string;
+    cliVersion: string;
+    signal?: AbortSignal;
+  },
+): Promise<DeploymentWithConfig> {
+  return await apiFetch(
+    `${origin}/sites/${host}/deployments/${encodeURIComponent(id)}`,
+    {
+      ...options,
+      init: {
+        method: 'GET',
+      },
+    },
+  );
+}
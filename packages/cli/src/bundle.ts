@@ -0,0 +1,204 @@
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import * as vm from 'vm';
+import chalk from 'chalk';
+import { FSWatcher } from 'chokidar';
+import { rollup, OutputChunk, RollupError, RollupWarning, RollupCache, RollupBuild } from 'rollup';
+import rollupCommonJs from '@rollup/plugin-commonjs';
+import rollupJson from '@rollup/plugin-json';
+import rollupNodeResolve from '@rollup/plugin-node-resolve';
+import { babel as rollupBabel } from '@rollup/plugin-babel';
+import rollupInjectProcessEnv from 'rollup-plugin-inject-process-env';
+
+export const SUPPORTED_EXTENSIONS = ['.js', '.jsx', '.mjs', '.mjsx', '.cjs', '.cjsx', '.ts', '.tsx'];
+
+export async function rollupOutsmartlyConfigFile(
+  configPath: string,
+  cache?: RollupCache,
+): Promise<{ chunk: OutputChunk; bundle: RollupBuild }> {
+  const bundle = await rollup({
+    input: configPath,
+    cache,
+    onwarn(warning, _warn) {
+      switch (warning.code) {
+        // Swallow these warnings because they happen frequently in real code.
+        // e.g. it seems to happen for any code that deals with Next.js router
+        // like using <Link>
+        case 'CIRCULAR_DEPENDENCY':
+        case 'THIS_IS_UNDEFINED':
+          return;
+
+        case 'NON_EXISTENT_EXPORT':
+          handleRollupError(warning, true);
+          return;
+
+        case 'UNRESOLVED_IMPORT':
+          warning.message = `'${warning.source}' is imported by ${warning.importer}, but could not be resolved`;
+          handleRollupError(warning, true);
+          return;
+      }
+
+      warning.message = `Rollup Bundler Warning: ${warning.message}`;
+      handleRollupError(warning);
+    },
+    plugins: [
+      rollupBabel({
+        babelHelpers: 'bundled',
+        babelrc: false,
+        presets: ['@babel/preset-react', '@babel/preset-typescript'],
+        plugins: ['@babel/plugin-proposal-class-properties'],
+        extensions: SUPPORTED_EXTENSIONS,
+        include: '**',
+        compact: false,
+      }),
+      rollupNodeResolve({
+        browser: true,
+        preferBuiltins: false,
+      }),
+      rollupCommonJs({
+        dynamicRequireTargets: ['node_modules/enquire.js/**/*.js'],
+      }),
+      rollupJson(),
+      rollupInjectProcessEnv({
+        NODE_ENV: 'production',
+      }),
+    ],
+  });
+
+  const { output } = await bundle.generate({
+    format: 'cjs',
+    exports: 'named',
+    // This might be needed later, so keep it around since it took me a while to
+    // figure out how to emit __esModule
+    //esModule: false,
+    sourcemap: true,
+  });
+
+  if (output.length !== 1) {
+    throw new Error(`Rollup generate() returned ${output.length} assets, but we expected only 1.`);
+  }
+
+  const chunk = output[0];
+
+  return { chunk, bundle };
+}
+
+const absolutePath = /^(?:\/|(?:[A-Za-z]:)?[\\|/])/;
+function isAbsolute(path: string) {
+  return absolutePath.test(path);
+}
+
+function relativeId(id: string) {
+  if (typeof process === 'undefined' || !isAbsolute(id)) return id;
+  return path.relative(process.cwd(), id);
+}
+
+export function handleRollupError(err: RollupWarning, fatal?: false): void;
+export function handleRollupError(err: RollupError, fatal?: true): never;
+export function handleRollupError(err: RollupWarning | RollupError, fatal = false): never | void {
+  let description = err.message || err;
+  if (err.name) description = `${err.name}: ${description}`;
+  const message = (err.plugin ? `(plugin ${err.plugin}) ${description}` : description) || err;
+
+  console.error(chalk.bold(chalk.red(`[!] ${chalk.bold(message.toString())}`)));
+
+  if (err.url) {
+    console.error(chalk.cyan(err.url));
+  }
+
+  if (err.loc) {
+    console.error(`${relativeId((err.loc.file || err.id)!)} (${err.loc.line}:${err.loc.column})`);
+  } else if (err.id) {
+    console.error(relativeId(err.id));
+  }
+
+  if (err.frame) {
+    console.error(chalk.dim(err.frame));
+  }
+
+  console.error('');
+
+  if (fatal) {
+    process.exit(1);
+  }
+}
+
+export function findOutsmartlyConfigPath(customConfigPath?: string): string {
+  if (customConfigPath) {
+    const fullPath = path.resolve(process.cwd(), customConfigPath);
+    if (!fs.existsSync(fullPath)) {
+      throw new Error(`No config file could be found at the provided custom path: ${customConfigPath}`);
+    }
+    return fullPath;
+  }
+
+  for (const ext of SUPPORTED_EXTENSIONS) {
+    const fullPath = path.resolve(process.cwd(), `outsmartly.config${ext}`);
+    if (fs.existsSync(fullPath)) {
+      return fullPath;
+    }
+  }
+
+  throw new Error(`No Outsmartly config file could be found at ${path.resolve(process.cwd(), 'outsmartly.config.js')}`);
+}
+
+/**
+ * Evaluates the bundled config inside a fresh V8 context and returns its
+ * default export. Only `console` is available unless the caller provides
+ * additional globals, e.g. the dev server provides fetch() and friends.
+ */
+export function evaluateOutsmartlyConfig(
+  chunk: Pick<OutputChunk, 'code'>,
+  configPath: string,
+  globals: object = {},
+): any {
+  const context = { console, ...globals };
+  const options = {
+    filename: configPath,
+  };
+  const iife = vm.runInNewContext(`(function (module, exports) { ${chunk.code} });`, context, options);
+  const module: any = { exports: {} };
+  iife(module, module.exports);
+  return module.exports.default;
+}
+
+/**
+ * Watches every module that ended up in the last bundle, and stops watching
+ * any that no longer are.
+ */
+export function updateWatchedFiles(watcher: FSWatcher, watchedFiles: Set<string>, cache: RollupCache): void {
+  const prevWatchedFiles = new Set(watchedFiles);
+
+  for (const module of cache.modules) {
+    // Virtual modules created by plugins aren't real files.
+    if (module.id.startsWith('\0')) {
+      continue;
+    }
+    watchedFiles.add(module.id);
+    prevWatchedFiles.delete(module.id);
+    watcher.add(module.id);
+  }
+
+  // This runs over left-over files that were previously needing
+  // to be watched but no longer are.
+  for (const filePath of prevWatchedFiles) {
+    watchedFiles.delete(filePath);
+    watcher.unwatch(filePath);
+  }
+}
+
+/**
+ * Reads the `host` from your config, for commands that only need to know
+ * which site they're working with.
+ */
+export async function findOutsmartlyConfigHost(customConfigPath?: string): Promise<string> {
+  const configPath = findOutsmartlyConfigPath(customConfigPath);
+  const { chunk } = await rollupOutsmartlyConfigFile(configPath);
+  const config = evaluateOutsmartlyConfig(chunk, configPath);
+
+  if (typeof config?.host !== 'string' || config.host.trim() === '') {
+    throw new Error(`Missing 'host' field in ${configPath}`);
+  }
+
+  return config.host;
+}
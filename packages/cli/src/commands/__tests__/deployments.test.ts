@@ -0,0 +1,84 @@
+import * as Config from '@oclif/config';
+import path from 'path';
+import { createTestDeployment, MockApiServer, startMockApiServer } from '../../tests/mockApiServer';
+
+describe('deployments list', () => {
+  let server: MockApiServer;
+  let config: Config.IConfig;
+  let log: jest.SpyInstance;
+
+  async function run(...argv: string[]): Promise<string> {
+    // Imported here, since the API origin is read when api.ts is first imported
+    const { default: DeploymentsList } = await import('../deployments/list');
+    await DeploymentsList.run(['--host', 'example.outsmartly.app', '--token', 'test-token', ...argv], config);
+    return log.mock.calls.map((args) => args.join(' ')).join('\n');
+  }
+
+  beforeAll(async () => {
+    server = await startMockApiServer();
+    process.env.OUTSMARTLY_API_ORIGIN = server.origin;
+    config = await Config.load(path.join(__dirname, '../../..'));
+  }, 30000);
+
+  afterAll(async () => {
+    delete process.env.OUTSMARTLY_API_ORIGIN;
+    await server.close();
+  });
+
+  beforeEach(() => {
+    server.deployments.length = 0;
+    log = jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    log.mockRestore();
+  });
+
+  it('prints the deployments as JSON', async () => {
+    const deployment = createTestDeployment();
+    server.deployments.push(deployment);
+
+    const { configRaw, configSnapshot, analysis, ...expected } = deployment;
+    expect(JSON.parse(await run('--json'))).toEqual([expected]);
+  });
+
+  it('prints the deployments as a table, newest first', async () => {
+    const rollback = createTestDeployment({
+      id: 'dep_2',
+      createdAt: '2021-08-02T12:00:00.000Z',
+      author: { id: 'user_2', name: '', email: 'grace@example.com' },
+      rollbackOf: 'dep_0',
+    });
+    const deployment = createTestDeployment({
+      environment: { name: 'staging', origin: 'https://staging.example.com' },
+    });
+    server.deployments.push(rollback, deployment);
+
+    const lines = (await run()).split('\n');
+    expect(lines).toHaveLength(3);
+    expect(lines[0].split(/\s+/)).toEqual(['ID', 'ENVIRONMENT', 'DEPLOYED', 'AUTHOR', 'CONFIG']);
+    expect(lines[1]).toContain('dep_2  production');
+    expect(lines[1]).toContain(new Date(rollback.createdAt).toLocaleString());
+    expect(lines[1]).toContain('grace@example.com');
+    expect(lines[1]).toMatch(/0123456789ab \(rollback of dep_0\)$/);
+    expect(lines[2]).toContain('dep_1  staging');
+    expect(lines[2]).toContain('Ada Lovelace');
+    expect(lines[2]).toMatch(/0123456789ab$/);
+    // Columns line up
+    expect(lines[1].indexOf('grace@example.com')).toBe(lines[0].indexOf('AUTHOR'));
+  });
+
+  it('only lists deployments to the given environment', async () => {
+    server.deployments.push(
+      createTestDeployment({ id: 'dep_2', environment: { name: 'staging', origin: 'https://staging.example.com' } }),
+      createTestDeployment(),
+    );
+
+    const deployments = JSON.parse(await run('--json', '--environment', 'staging'));
+    expect(deployments.map((deployment: { id: string }) => deployment.id)).toEqual(['dep_2']);
+  });
+
+  it('says when there are no deployments', async () => {
+    expect(await run()).toBe('No deployments found.');
+  });
+});
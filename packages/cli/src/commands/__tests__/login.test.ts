@@ -0,0 +1,138 @@
+import * as Config from '@oclif/config';
+import http from 'http';
+import fetch from 'node-fetch';
+import open from 'open';
+import path from 'path';
+import { Client, Issuer } from 'openid-client';
+import { AddressInfo } from 'net';
+import { URL, URLSearchParams } from 'url';
+import Login from '../login';
+
+jest.mock('open');
+
+describe('login in the browser', () => {
+  let config: Config.IConfig;
+  let client: Client;
+  let tokenServer: http.Server;
+  let tokenRequests: URLSearchParams[];
+  const openMock = open as jest.MockedFunction<typeof open>;
+
+  beforeAll(async () => {
+    tokenServer = http.createServer(async (req, res) => {
+      const chunks: Buffer[] = [];
+      for await (const chunk of req) {
+        chunks.push(chunk);
+      }
+      tokenRequests.push(new URLSearchParams(Buffer.concat(chunks).toString()));
+      res.setHeader('content-type', 'application/json');
+      res.end(JSON.stringify({ access_token: 'access-token', token_type: 'Bearer', expires_in: 3600 }));
+    });
+    await new Promise<void>((resolve) => tokenServer.listen(0, '127.0.0.1', resolve));
+    const { port } = tokenServer.address() as AddressInfo;
+    const issuer = new Issuer({
+      issuer: `http://127.0.0.1:${port}`,
+      authorization_endpoint: `http://127.0.0.1:${port}/authorize`,
+      token_endpoint: `http://127.0.0.1:${port}/token`,
+    });
+    client = new issuer.Client({
+      client_id: 'cli',
+      redirect_uris: ['https://example.com/'],
+      response_types: ['code'],
+      token_endpoint_auth_method: 'none',
+    });
+    config = await Config.load(path.join(__dirname, '../../..'));
+  }, 30000);
+
+  afterAll(async () => {
+    await new Promise((resolve) => tokenServer.close(resolve));
+  });
+
+  beforeEach(() => {
+    tokenRequests = [];
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    openMock.mockReset();
+  });
+
+  it('redirects back to a loopback callback, with state only used to prevent CSRF', async () => {
+    // Takes the preferred port, so the login has to use another one
+    const blocker = http.createServer();
+    await new Promise<void>((resolve) => blocker.listen(3424, '127.0.0.1', resolve));
+
+    try {
+      openMock.mockImplementation(async (target) => {
+        const authorizationUrl = new URL(target as string);
+        const redirectUri = new URL(authorizationUrl.searchParams.get('redirect_uri')!);
+        expect(redirectUri.hostname).toBe('127.0.0.1');
+        expect(redirectUri.pathname).toBe('/callback');
+        expect(redirectUri.port).not.toBe('3424');
+        expect(authorizationUrl.searchParams.get('state')).toMatch(/^[\w-]+$/);
+
+        // What the browser does once you've logged in
+        const callbackUrl = new URL(redirectUri.href);
+        callbackUrl.searchParams.set('code', 'the-code');
+        callbackUrl.searchParams.set('state', authorizationUrl.searchParams.get('state')!);
+        const favicon = await fetch(new URL('/favicon.ico', redirectUri.href).href);
+        expect(favicon.status).toBe(404);
+        await fetch(callbackUrl.href);
+        return undefined as any;
+      });
+
+      const tokenSet = await new Login([], config).loginWithBrowser(client);
+
+      expect(tokenSet.access_token).toBe('access-token');
+      const authorizationUrl = new URL(openMock.mock.calls[0][0] as string);
+      expect(Object.fromEntries(tokenRequests[0])).toMatchObject({
+        grant_type: 'authorization_code',
+        code: 'the-code',
+        redirect_uri: authorizationUrl.searchParams.get('redirect_uri'),
+      });
+    } finally {
+      await new Promise((resolve) => blocker.close(resolve));
+    }
+  });
+
+  it('fails instead of waiting forever when no port is free', async () => {
+    const blocker = http.createServer();
+    await new Promise<void>((resolve) => blocker.listen(3424, '127.0.0.1', resolve));
+    const listen = http.Server.prototype.listen;
+    // Any other port is taken too
+    jest.spyOn(http.Server.prototype, 'listen').mockImplementation(function (this: http.Server, ...args: any[]) {
+      if (args[0] !== 0) {
+        return Reflect.apply(listen, this, args);
+      }
+      process.nextTick(() => this.emit('error', Object.assign(new Error('listen EACCES'), { code: 'EACCES' })));
+      return this;
+    });
+
+    try {
+      await expect(new Login([], config).loginWithBrowser(client)).rejects.toThrow('listen EACCES');
+      expect(openMock).not.toHaveBeenCalled();
+    } finally {
+      await new Promise((resolve) => blocker.close(resolve));
+    }
+  });
+
+  it('rejects a callback for a different login', async () => {
+    openMock.mockImplementation(async (target) => {
+      const redirectUri = new URL(target as string).searchParams.get('redirect_uri')!;
+      await fetch(`${redirectUri}?code=the-code&state=someone-elses`);
+      return undefined as any;
+    });
+
+    await expect(new Login([], config).loginWithBrowser(client)).rejects.toThrow(/state mismatch/);
+    expect(tokenRequests).toEqual([]);
+  });
+
+  it('gives up and suggests --no-browser when the browser never comes back', async () => {
+    const setTimeout = global.setTimeout;
+    // Times out right away, instead of after a few minutes
+    jest.spyOn(global, 'setTimeout').mockImplementation(((callback: () => void) => setTimeout(callback, 0)) as any);
+    openMock.mockResolvedValue(undefined as any);
+
+    await expect(new Login([], config).loginWithBrowser(client)).rejects.toThrow('use --no-browser instead');
+  });
+});
@@ -0,0 +1,84 @@
+import * as Config from '@oclif/config';
+import path from 'path';
+import { createTestDeployment, MockApiServer, startMockApiServer } from '../../tests/mockApiServer';
+
+describe('rollback', () => {
+  let server: MockApiServer;
+  let config: Config.IConfig;
+  let isTTY: boolean | undefined;
+
+  async function run(...argv: string[]): Promise<void> {
+    // Imported here, since the API origin is read when api.ts is first imported
+    const { default: Rollback } = await import('../rollback');
+    await Rollback.run(['--host', 'example.outsmartly.app', '--token', 'test-token', ...argv], config);
+  }
+
+  beforeAll(async () => {
+    server = await startMockApiServer();
+    process.env.OUTSMARTLY_API_ORIGIN = server.origin;
+    config = await Config.load(path.join(__dirname, '../../..'));
+  }, 30000);
+
+  afterAll(async () => {
+    delete process.env.OUTSMARTLY_API_ORIGIN;
+    await server.close();
+  });
+
+  beforeEach(() => {
+    server.requests.length = 0;
+    server.deployments.length = 0;
+    isTTY = process.stdin.isTTY;
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.spyOn(process, 'exit').mockImplementation((code) => {
+      throw new Error(`process.exit(${code})`);
+    });
+  });
+
+  afterEach(() => {
+    process.stdin.isTTY = isTTY!;
+    jest.restoreAllMocks();
+  });
+
+  it('re-deploys the config of the deployment with --yes', async () => {
+    const deployment = createTestDeployment({
+      id: 'dep_1',
+      environment: { name: 'staging', origin: 'https://staging.example.com' },
+    });
+    server.deployments.push(deployment);
+
+    await run('dep_1', '--yes');
+
+    expect(server.requests.map(({ method, url }) => `${method} ${url}`)).toEqual([
+      'GET /sites/example.outsmartly.app/deployments/dep_1',
+      'PATCH /sites/example.outsmartly.app',
+    ]);
+    expect(server.requests[1].body).toEqual({
+      host: 'example.outsmartly.app',
+      configRaw: deployment.configRaw,
+      configSnapshot: deployment.configSnapshot,
+      analysis: deployment.analysis,
+      environment: deployment.environment,
+      rollbackOf: 'dep_1',
+    });
+  });
+
+  it('requires --yes when not running interactively, instead of prompting', async () => {
+    process.stdin.isTTY = false;
+    server.deployments.push(createTestDeployment());
+
+    await expect(run('dep_1')).rejects.toThrow('process.exit(1)');
+
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('Pass --yes to confirm'));
+    expect(server.requests.map(({ method }) => method)).toEqual(['GET']);
+  });
+
+  it('fails without deploying when the deployment does not exist', async () => {
+    await expect(run('missing', '--yes')).rejects.toThrow('process.exit(1)');
+
+    expect(console.error).toHaveBeenCalledWith(
+      expect.stringContaining('No deployment missing for example.outsmartly.app.'),
+    );
+    expect(server.requests.map(({ method }) => method)).toEqual(['GET']);
+  });
+});
@@ -1,11 +1,8 @@
 import { Command, flags } from '@oclif/command';
 import * as path from 'path';
 import * as fs from 'fs-extra';
-import * as vm from 'vm';
-import * as os from 'os';
 import chalk from 'chalk';
-import { prompt } from 'inquirer';
-import { rollup, OutputChunk, RollupError, RollupWarning, RollupCache, RollupBuild } from 'rollup';
+import { rollup, RollupCache } from 'rollup';
 import rollupCommonJs from '@rollup/plugin-commonjs';
 import rollupJson from '@rollup/plugin-json';
 import rollupNodeResolve from '@rollup/plugin-node-resolve';
@@ -19,121 +16,29 @@ import { AbortSignal } from 'node-fetch/externals';
 import ora from 'ora';
 import { AbortController } from 'abortcontroller-polyfill/dist/cjs-ponyfill';
 import multiline from 'multiline-template';
-import { Analysis, APIError, apiFetch, ComponentAnalysis, patchSite, PatchSite } from '../api';
+import {
+  Analysis,
+  APIError,
+  apiFetch,
+  ComponentAnalysis,
+  fetchDeployment,
+  fetchDeployments,
+  patchSite,
+  PatchSite,
+} from '../api';
 import { panic } from '../panic';
-
-const SUPPORTED_EXTENSIONS = ['.js', '.jsx', '.mjs', '.mjsx', '.cjs', '.cjsx', '.ts', '.tsx'];
-
-async function rollupOutsmartlyConfigFile(
-  configPath: string,
-  cache?: RollupCache,
-): Promise<{ chunk: OutputChunk; bundle: RollupBuild }> {
-  const bundle = await rollup({
-    input: configPath,
-    cache,
-    onwarn(warning, _warn) {
-      switch (warning.code) {
-        // Swallow these warnings because they happen frequently in real code.
-        // e.g. it seems to happen for any code that deals with Next.js router
-        // like using <Link>
-        case 'CIRCULAR_DEPENDENCY':
-        case 'THIS_IS_UNDEFINED':
-          return;
-
-        case 'NON_EXISTENT_EXPORT':
-          handleRollupError(warning, true);
-          return;
-
-        case 'UNRESOLVED_IMPORT':
-          warning.message = `'${warning.source}' is imported by ${warning.importer}, but could not be resolved`;
-          handleRollupError(warning, true);
-          return;
-      }
-
-      warning.message = `Rollup Bundler Warning: ${warning.message}`;
-      handleRollupError(warning);
-    },
-    plugins: [
-      rollupBabel({
-        babelHelpers: 'bundled',
-        babelrc: false,
-        presets: ['@babel/preset-react', '@babel/preset-typescript'],
-        plugins: ['@babel/plugin-proposal-class-properties'],
-        extensions: SUPPORTED_EXTENSIONS,
-        include: '**',
-        compact: false,
-      }),
-      rollupNodeResolve({
-        browser: true,
-        preferBuiltins: false,
-      }),
-      rollupCommonJs({
-        dynamicRequireTargets: ['node_modules/enquire.js/**/*.js'],
-      }),
-      rollupJson(),
-      rollupInjectProcessEnv({
-        NODE_ENV: 'production',
-      }),
-    ],
-  });
-
-  const { output } = await bundle.generate({
-    format: 'cjs',
-    exports: 'named',
-    // This might be needed later, so keep it around since it took me a while to
-    // figure out how to emit __esModule
-    //esModule: false,
-    sourcemap: true,
-  });
-
-  if (output.length !== 1) {
-    throw new Error(`Rollup generate() returned ${output.length} assets, but we expected only 1.`);
-  }
-
-  const chunk = output[0];
-
-  return { chunk, bundle };
-}
-
-const absolutePath = /^(?:\/|(?:[A-Za-z]:)?[\\|/])/;
-function isAbsolute(path: string) {
-  return absolutePath.test(path);
-}
-
-function relativeId(id: string) {
-  if (typeof process === 'undefined' || !isAbsolute(id)) return id;
-  return path.relative(process.cwd(), id);
-}
-
-function handleRollupError(err: RollupWarning, fatal?: false): void;
-function handleRollupError(err: RollupError, fatal?: true): never;
-function handleRollupError(err: RollupWarning | RollupError, fatal = false): never | void {
-  let description = err.message || err;
-  if (err.name) description = `${err.name}: ${description}`;
-  const message = (err.plugin ? `(plugin ${err.plugin}) ${description}` : description) || err;
-
-  console.error(chalk.bold(chalk.red(`[!] ${chalk.bold(message.toString())}`)));
-
-  if (err.url) {
-    console.error(chalk.cyan(err.url));
-  }
-
-  if (err.loc) {
-    console.error(`${relativeId((err.loc.file || err.id)!)} (${err.loc.line}:${err.loc.column})`);
-  } else if (err.id) {
-    console.error(relativeId(err.id));
-  }
-
-  if (err.frame) {
-    console.error(chalk.dim(err.frame));
-  }
-
-  console.error('');
-
-  if (fatal) {
-    process.exit(1);
-  }
-}
+import { findBearerToken, NotLoggedInError } from '../credentials';
+import { findEnvironment } from '../environment';
+import { DeploymentSnapshot, diffDeployments, formatDeploymentDiff, snapshotConfig } from '../diff';
+import { ConfigValidationError, formatConfigProblems, validateOutsmartlyConfig } from '../validate';
+import {
+  evaluateOutsmartlyConfig,
+  findOutsmartlyConfigPath,
+  handleRollupError,
+  rollupOutsmartlyConfigFile,
+  SUPPORTED_EXTENSIONS,
+  updateWatchedFiles,
+} from '../bundle';
 
 export default class Deploy extends Command {
   static description = 'Deploy your Outsmartly configuration from outsmartly.config.js';
@@ -149,6 +54,10 @@ export default class Deploy extends Command {
       description: 'Redeploy when files change.',
       default: false,
     }),
+    'dry-run': flags.boolean({
+      description: 'Print what would change compared to what is currently deployed, without deploying.',
+      default: false,
+    }),
     token: flags.string({
       description:
         'Access token, if provided, otherwise the CLI will look for OUTSMARTLY_TOKEN. If not defined, it will prompt you to provide one.',
@@ -163,8 +72,7 @@ export default class Deploy extends Command {
     {
       name: 'environment',
       required: true,
-      description: "Environment you want to deploy to. Currently only supports 'production'.",
-      options: ['production'],
+      description: "Name of the environment you want to deploy to, from your config's 'environments'.",
     },
   ];
 
@@ -174,70 +82,25 @@ export default class Deploy extends Command {
   cache?: RollupCache;
   abortController = new AbortController();
   spinner = ora();
-
-  async findBearerToken(flags: any): Promise<string> {
-    const { token: bearerTokenOverride } = flags;
-    const configFilePath = path.join(os.homedir(), '.config', 'outsmartly', 'config.json');
-
-    let bearerToken = bearerTokenOverride ?? process.env.OUTSMARTLY_TOKEN;
-    if (!bearerToken) {
-      const answers = await prompt({
-        type: 'input',
-        name: 'bearerToken',
-        message: 'Paste your access token: ',
-        validate(bearerToken) {
-          if (!bearerToken || typeof bearerToken !== 'string' || bearerToken.length < 36) {
-            throw "That doesn't seem to be a valid access token. If you're having trouble, contact support@outsmartly.com.";
-          }
-          return true;
-        },
-      });
-      bearerToken = answers.bearerToken as string;
-      try {
-        const config = {
-          cli: {
-            bearerToken,
-          },
-        };
-        const json = JSON.stringify(config, null, 2);
-        fs.outputFileSync(configFilePath, json);
-      } catch (e) {
-        console.error(`Unable to write outsmartly configuration file to: ${configFilePath}`);
-        console.error(e);
-      }
-    }
-
-    return bearerToken;
-  }
-
-  findOutsmartlyConfigPath(customConfigPath?: string): string {
-    if (customConfigPath) {
-      const fullPath = path.resolve(process.cwd(), customConfigPath);
-      if (!fs.existsSync(fullPath)) {
-        throw new Error(`No config file could be found at the provided custom path: ${customConfigPath}`);
-      }
-      return fullPath;
-    }
-
-    for (const ext of SUPPORTED_EXTENSIONS) {
-      const fullPath = path.resolve(process.cwd(), `outsmartly.config${ext}`);
-      if (fs.existsSync(fullPath)) {
-        return fullPath;
-      }
-    }
-
-    throw new Error(
-      `No Outsmartly config file could be found at ${path.resolve(process.cwd(), 'outsmartly.config.js')}`,
-    );
-  }
+  dryRun = false;
+  tokenOverride?: string;
 
   async run() {
     const { args, flags } = this.parse(Deploy);
     const { config: customConfigPath, watch } = flags;
     const { environment } = args;
+    this.dryRun = flags['dry-run'];
+
+    this.tokenOverride = flags.token;
+
+    // Up front, so that any prompt or login problem comes before the spinner.
+    try {
+      await findBearerToken(this.tokenOverride);
+    } catch (e) {
+      panic(e instanceof NotLoggedInError ? e.message : `Unable to find your access token: ${e?.stack ?? e}`);
+    }
 
-    const bearerToken = await this.findBearerToken(flags);
-    const configFullPath = this.findOutsmartlyConfigPath(customConfigPath);
+    const configFullPath = findOutsmartlyConfigPath(customConfigPath);
 
     if (watch) {
       this.watcher = chokidar.watch(configFullPath).on('change', async () => {
@@ -253,28 +116,12 @@ export default class Deploy extends Command {
           return;
         }
 
-        await this.deploy(bearerToken, environment, configFullPath, watch);
+        await this.deploy(environment, configFullPath, watch);
       });
     }
 
     this.pendingDeployCount++;
-    await this.deploy(bearerToken, environment, configFullPath, watch);
-  }
-
-  setupWatchers(): void {
-    const prevWatchedFiles = new Set(this.watchedFiles);
-
-    for (const module of this.cache?.modules!) {
-      this.watchedFiles.add(module.id);
-      prevWatchedFiles.delete(module.id);
-      this.watcher!.add(module.id);
-    }
-
-    // This runs over left-over files that were previously needing
-    // to be watched but no longer are.
-    for (const filePath of prevWatchedFiles) {
-      this.watcher!.unwatch(filePath);
-    }
+    await this.deploy(environment, configFullPath, watch);
   }
 
   async bundleAnalysis(tmpDir: string): Promise<Analysis> {
@@ -481,7 +328,7 @@ export default class Deploy extends Command {
     }
   }
 
-  async deploy(bearerToken: string, environment: string, configPath: string, watch: boolean): Promise<void> {
+  async deploy(environment: string, configPath: string, watch: boolean): Promise<void> {
     this.spinner.spinner = cliSpinners.dots12;
     this.spinner.color = 'blue';
     this.spinner.text = chalk.dim(chalk.blue('Bundling configuration...'));
@@ -492,7 +339,7 @@ export default class Deploy extends Command {
       const { chunk, bundle } = await rollupOutsmartlyConfigFile(configPath, this.cache);
       this.cache = bundle.cache;
       if (this.watcher) {
-        this.setupWatchers();
+        updateWatchedFiles(this.watcher, this.watchedFiles, this.cache!);
       }
 
       // If there's a pending deploy let's give up on this one
@@ -500,27 +347,42 @@ export default class Deploy extends Command {
         return;
       }
 
-      const context = { console };
-      const options = {
-        filename: configPath,
-      };
-      const iife = vm.runInNewContext(`(function (module, exports) { ${chunk.code} });`, context, options);
-      const module: any = { exports: {} };
-      iife(module, module.exports);
-      const { host, tmpDir = './.outsmartly/' } = module.exports.default;
+      const config = evaluateOutsmartlyConfig(chunk, configPath);
+      const problems = validateOutsmartlyConfig(config);
+
+      if (problems.some((problem) => problem.severity === 'error')) {
+        throw new ConfigValidationError(configPath, problems);
+      }
 
-      if (!host) {
-        throw new Error(`Missing 'host' field in ${configPath}`);
+      // Warnings shouldn't stop a deployment, but they're likely mistakes.
+      if (problems.length) {
+        this.spinner.stop();
+        console.log(formatConfigProblems(path.relative(process.cwd(), configPath), problems));
+        this.spinner.start();
       }
 
+      const { host, tmpDir = './.outsmartly/' } = config;
+      const deploymentEnvironment = findEnvironment(config, environment, configPath);
+
+      const configSnapshot = snapshotConfig(config);
       const analysis = await this.bundleAnalysis(tmpDir);
+      // Found again for each deployment, since a login may need refreshing when watching.
+      const bearerToken = await findBearerToken(this.tokenOverride);
+
+      if (this.dryRun) {
+        await this.printDryRun(bearerToken, host, deploymentEnvironment.name, { config: configSnapshot, analysis });
+        return;
+      }
+
       this.spinner.spinner = spinnerClockwise;
       this.spinner.text = chalk.blue(`Deploying to Outsmartly... (${environment})`);
 
       const sitePatch: PatchSite = {
         host,
         configRaw: chunk.code,
+        configSnapshot,
         analysis,
+        environment: deploymentEnvironment,
       };
       const deployment = await patchSite(sitePatch, {
         bearerToken,
@@ -597,6 +459,15 @@ export default class Deploy extends Command {
         panic(`Server Response: ${e.json.errors.join('\n')}`);
       }
 
+      if (e instanceof NotLoggedInError) {
+        panic(e.message);
+      }
+
+      if (e instanceof ConfigValidationError) {
+        console.error(formatConfigProblems(path.relative(process.cwd(), e.configPath), e.problems));
+        panic(`Invalid config, nothing was deployed. Run 'outsmartly validate' to check it without deploying.`);
+      }
+
       if (!e) {
         panic();
       }
@@ -621,7 +492,7 @@ export default class Deploy extends Command {
       // need to do another one now.
       if (this.pendingDeployCount > 1) {
         this.pendingDeployCount = 1;
-        await this.deploy(bearerToken, environment, configPath, watch);
+        await this.deploy(environment, configPath, watch);
       } else {
         this.pendingDeployCount = 0;
         if (watch) {
@@ -631,6 +502,46 @@ export default class Deploy extends Command {
     }
   }
 
+  async printDryRun(bearerToken: string, host: string, environment: string, next: DeploymentSnapshot): Promise<void> {
+    this.spinner.text = chalk.blue(`Comparing with what is deployed... (${environment})`);
+    const options = {
+      bearerToken,
+      cliVersion: this.config.version,
+      signal: this.abortController.signal,
+    };
+    const [latest] = await fetchDeployments(host, { environment, limit: 1 }, options);
+    let live: DeploymentSnapshot | null = null;
+
+    if (latest) {
+      // Its snapshot, since running the live config's code here could do anything
+      const { configSnapshot, analysis } = await fetchDeployment(host, latest.id, options);
+      live = { config: configSnapshot ?? null, analysis };
+    }
+
+    // If there's a pending deploy let's give up on this one
+    if (this.pendingDeployCount > 1) {
+      return;
+    }
+
+    const comparedTo = latest
+      ? `deployment ${latest.id}, deployed ${new Date(latest.createdAt).toLocaleString()}`
+      : 'nothing, this environment has never been deployed';
+    this.spinner.stopAndPersist({
+      symbol: '🔍',
+      text: chalk.blue(`Dry run (${environment}), compared to ${comparedTo}. Nothing was deployed.`),
+    });
+    console.log('');
+    console.log(formatDeploymentDiff(diffDeployments(live, next)));
+    if (live && !live.config) {
+      console.log('');
+      console.log(
+        chalk.yellow(
+          `Deployment ${latest.id} was made by an older version of the CLI, so only its analysis was compared.`,
+        ),
+      );
+    }
+  }
+
   async fetchManifest(host: string): Promise<Manifest> {
     const url = `https://${host}/__outsmartly__/manifest.json?t=${Date.now()}`;
     return await apiFetch(url, {
@@ -0,0 +1,97 @@
+import { Command, flags } from '@oclif/command';
+import chalk from 'chalk';
+import { APIError, Deployment, fetchDeployments } from '../../api';
+import { panic } from '../../panic';
+import { findBearerToken, NotLoggedInError } from '../../credentials';
+import { findOutsmartlyConfigHost } from '../../bundle';
+
+export default class DeploymentsList extends Command {
+  static description = 'List previous deployments of your site, newest first';
+
+  static examples = [`$ outsmartly deployments list`, `$ outsmartly deployments list --environment staging`];
+
+  static flags = {
+    config: flags.string({
+      description: 'Path to your Outsmartly config file, which the host is read from.',
+      helpValue: JSON.stringify('path/to/outsmartly.config.js'),
+    }),
+    host: flags.string({
+      description: "Your site's host, if provided, otherwise it is read from your config.",
+    }),
+    environment: flags.string({
+      char: 'e',
+      description: 'Only list deployments to this environment.',
+    }),
+    limit: flags.integer({
+      description: 'How many deployments to list.',
+      default: 20,
+    }),
+    json: flags.boolean({
+      description: 'Print the deployments as JSON.',
+      default: false,
+    }),
+    token: flags.string({
+      description:
+        'Access token, if provided, otherwise the CLI will look for OUTSMARTLY_TOKEN. If not defined, it will prompt you to provide one.',
+    }),
+    help: flags.help({
+      char: 'h',
+      description: 'Show this help screen.',
+    }),
+  };
+
+  async run() {
+    const { flags } = this.parse(DeploymentsList);
+    let deployments: Deployment[];
+
+    try {
+      const host = flags.host ?? (await findOutsmartlyConfigHost(flags.config));
+      const bearerToken = await findBearerToken(flags.token);
+      deployments = await fetchDeployments(
+        host,
+        { environment: flags.environment, limit: flags.limit },
+        { bearerToken, cliVersion: this.config.version },
+      );
+    } catch (e) {
+      if (e instanceof APIError) {
+        panic(`Server Response: ${e.json.errors.join('\n')}`);
+      }
+
+      if (e instanceof NotLoggedInError) {
+        panic(e.message);
+      }
+      panic(`Unable to list deployments: ${e?.message ?? e}`);
+    }
+
+    if (flags.json) {
+      console.log(JSON.stringify(deployments, null, 2));
+      return;
+    }
+
+    if (deployments.length === 0) {
+      console.log(chalk.dim('No deployments found.'));
+      return;
+    }
+
+    console.log(formatDeployments(deployments));
+  }
+}
+
+function formatDeployments(deployments: Deployment[]): string {
+  const rows = deployments.map((deployment) => [
+    deployment.id,
+    deployment.environment.name,
+    new Date(deployment.createdAt).toLocaleString(),
+    deployment.author.name || deployment.author.email,
+    deployment.configHash.slice(0, 12) + (deployment.rollbackOf ? ` (rollback of ${deployment.rollbackOf})` : ''),
+  ]);
+  const header = ['ID', 'ENVIRONMENT', 'DEPLOYED', 'AUTHOR', 'CONFIG'];
+  const widths = header.map((title, i) => Math.max(title.length, ...rows.map((row) => row[i].length)));
+  const formatRow = (row: string[]) =>
+    row
+      .map((cell, i) => cell.padEnd(widths[i]))
+      .join('  ')
+      .trimEnd();
+
+  return [chalk.bold(formatRow(header)), ...rows.map(formatRow)].join('\n');
+}
@@ -0,0 +1,137 @@
+import { Command, flags } from '@oclif/command';
+import http from 'http';
+import { webcrypto } from 'crypto';
+import chalk from 'chalk';
+import chokidar from 'chokidar';
+import { FSWatcher } from 'chokidar';
+import { RollupCache } from 'rollup';
+import { panic } from '../panic';
+import { DEFAULT_ENVIRONMENT_NAME, findEnvironment } from '../environment';
+import {
+  evaluateOutsmartlyConfig,
+  findOutsmartlyConfigPath,
+  handleRollupError,
+  rollupOutsmartlyConfigFile,
+  updateWatchedFiles,
+} from '../bundle';
+import { EdgeEmulator, EMULATED_EDGE_GLOBALS } from '../dev/emulator';
+
+export default class Dev extends Command {
+  static description = 'Run your Outsmartly configuration locally, in front of your origin';
+
+  static examples = [`$ outsmartly dev`, `$ outsmartly dev --origin http://localhost:8000`];
+
+  static flags = {
+    config: flags.string({
+      description: 'Path to your Outsmartly config file.',
+      helpValue: JSON.stringify('path/to/outsmartly.config.js'),
+    }),
+    port: flags.integer({
+      char: 'p',
+      description: 'Port for the local dev server to listen on.',
+      default: 3000,
+    }),
+    environment: flags.string({
+      char: 'e',
+      description: 'Which of your environments to use the origin of.',
+      default: DEFAULT_ENVIRONMENT_NAME,
+    }),
+    origin: flags.string({
+      description: "Origin to proxy to, instead of the environment's, e.g. your framework's own dev server.",
+      helpValue: JSON.stringify('http://localhost:8000'),
+    }),
+    help: flags.help({
+      char: 'h',
+      description: 'Show this help screen.',
+    }),
+  };
+
+  watcher?: FSWatcher;
+  watchedFiles = new Set<string>();
+  cache?: RollupCache;
+  emulator?: EdgeEmulator;
+  isBuilding = false;
+  hasPendingBuild = false;
+
+  async run() {
+    const { flags } = this.parse(Dev);
+    const { config: customConfigPath, port, environment, origin } = flags;
+
+    // The emulator uses core's signed and encrypted cookies, which need the
+    // Web Crypto global that Node 16 only has as a module.
+    if (typeof globalThis.crypto === 'undefined') {
+      Object.assign(globalThis, { crypto: webcrypto });
+    }
+
+    let configFullPath: string;
+    try {
+      configFullPath = findOutsmartlyConfigPath(customConfigPath);
+    } catch (e) {
+      panic(e.message);
+    }
+
+    this.watcher = chokidar.watch(configFullPath).on('change', async () => {
+      console.log(chalk.dim('🔍 Detected changes'));
+      await this.build(configFullPath, environment, origin);
+    });
+
+    await this.build(configFullPath, environment, origin);
+
+    const server = http.createServer((req, res) => {
+      if (!this.emulator) {
+        res.statusCode = 503;
+        res.end('Your Outsmartly config has not built successfully yet. Check your terminal for errors.');
+        return;
+      }
+
+      this.emulator.handle(req, res).catch((e) => {
+        console.error(e);
+        res.statusCode = 500;
+        res.end();
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, resolve);
+    });
+
+    console.log(chalk.green(`🚀 Outsmartly dev server running at http://localhost:${port}/`));
+    console.log(chalk.dim('🔍 Watching for changes...'));
+  }
+
+  async build(configPath: string, environment: string, originOverride?: string): Promise<void> {
+    // Only one build at a time. If files change in the middle of one
+    // we'll do another once it finishes.
+    if (this.isBuilding) {
+      this.hasPendingBuild = true;
+      return;
+    }
+    this.isBuilding = true;
+
+    try {
+      const { chunk, bundle } = await rollupOutsmartlyConfigFile(configPath, this.cache);
+      this.cache = bundle.cache;
+      updateWatchedFiles(this.watcher!, this.watchedFiles, this.cache!);
+
+      const config = evaluateOutsmartlyConfig(chunk, configPath, EMULATED_EDGE_GLOBALS);
+      const origin = originOverride ?? findEnvironment(config, environment, configPath).origin;
+
+      this.emulator = new EdgeEmulator(config, { origin });
+      console.log(chalk.green(`✔ Config built, proxying to ${origin} (${environment})`));
+    } catch (e) {
+      // Keep serving the last good build, the next change might fix it.
+      if (e?.code) {
+        handleRollupError(e);
+      } else {
+        console.error(chalk.red(`🚨 ${e?.stack ?? e}`));
+      }
+    } finally {
+      this.isBuilding = false;
+      if (this.hasPendingBuild) {
+        this.hasPendingBuild = false;
+        await this.build(configPath, environment, originOverride);
+      }
+    }
+  }
+}
@@ -1,10 +1,24 @@
 import { Command, flags } from '@oclif/command';
-import { CallbackParamsType, generators, Issuer } from 'openid-client';
+import { CallbackParamsType, Client, generators, TokenSet } from 'openid-client';
 import open from 'open';
 import http from 'http';
-import { URL } from 'url';
 import { IncomingMessage } from 'http';
 import { ServerResponse } from 'http';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import chalk from 'chalk';
+import { prompt } from 'inquirer';
+import { panic } from '../panic';
+import { createOidcClient, formatUser, LoginUser, OIDC_REDIRECT_URI, OIDC_SCOPE, saveLogin } from '../credentials';
+
+const ONE_YEAR_IN_SECONDS = 60 * 60 * 24 * 365;
+// Loopback redirect URIs may use any port (RFC 8252 section 7.3), so this is
+// only a preference, another port is used when it's taken.
+const PREFERRED_CALLBACK_PORT = 3424;
+const CALLBACK_HOST = '127.0.0.1';
+const CALLBACK_PATH = '/callback';
+// Long enough to login, but not to wait forever when the browser can't reach us.
+const BROWSER_LOGIN_TIMEOUT_MS = 1000 * 60 * 5;
 
 export default class Login extends Command {
   static description = 'login with your Outsmartly credentials';
@@ -25,63 +39,226 @@ export default class Login extends Command {
     'expires-in': flags.integer({
       char: 'e',
       description: 'duration of token in seconds (default 1 year)',
+      default: ONE_YEAR_IN_SECONDS,
+    }),
+    'no-browser': flags.boolean({
+      description:
+        'print the login URL instead of opening a browser, then paste where it redirects you to (e.g. over SSH)',
+    }),
+    'client-credentials': flags.boolean({
+      description: 'print an access token for CI to use with --token, using a machine-to-machine client',
+    }),
+    'client-id': flags.string({
+      description: 'client ID for --client-credentials',
+      env: 'OUTSMARTLY_CLIENT_ID',
+    }),
+    'client-secret': flags.string({
+      description: 'client secret for --client-credentials',
+      env: 'OUTSMARTLY_CLIENT_SECRET',
+    }),
+    scope: flags.string({
+      description: 'space separated scopes to limit the --client-credentials token to',
+    }),
+    audience: flags.string({
+      description: 'API the --client-credentials token is for, if your client requires one',
     }),
   };
 
   async run() {
     const { flags } = await this.parse(Login);
 
-    await this.login();
+    if (flags['client-credentials']) {
+      await this.printClientCredentialsToken(flags);
+      return;
+    }
+
+    try {
+      const client = await createOidcClient();
+      let tokenSet: TokenSet;
+      if (flags.interactive) {
+        tokenSet = await this.loginWithPassword(client);
+      } else if (flags['no-browser']) {
+        tokenSet = await this.loginWithPastedRedirect(client);
+      } else {
+        tokenSet = await this.loginWithBrowser(client, flags.browser);
+      }
+      const userinfo = await client.userinfo(tokenSet.access_token!);
+      const user: LoginUser = {
+        sub: userinfo.sub,
+        name: userinfo.name,
+        email: userinfo.email,
+      };
+
+      saveLogin(tokenSet, flags['expires-in'], user);
+      console.log(chalk.green(`✔ Logged in as ${formatUser(user)}`));
+    } catch (e) {
+      panic(`Unable to login: ${e?.message ?? e}`);
+    }
   }
 
-  async login() {
-    const server = await new Promise<any>((resolve) => {
-      const s = http.createServer();
-      s.listen(3424, () => resolve(s));
-    });
-    const { port } = server.address();
+  async loginWithBrowser(client: Client, browser?: string): Promise<TokenSet> {
+    const server = await listenOnFreePort(PREFERRED_CALLBACK_PORT);
+    const { port } = server.address() as AddressInfo;
+    const redirectUri = `http://${CALLBACK_HOST}:${port}${CALLBACK_PATH}`;
+    const code_verifier = generators.codeVerifier();
+    const state = generators.state();
+    const authorizationUrl = createAuthorizationUrl(client, redirectUri, code_verifier, state);
+    let params: CallbackParamsType;
 
-    const issuer = await Issuer.discover(
-      'https://outsmartly.us.auth0.com/.well-known/openid-configuration',
-    );
+    try {
+      params = await new Promise<CallbackParamsType>((resolve, reject) => {
+        const timeout = setTimeout(() => {
+          reject(
+            new Error(
+              "Timed out waiting for your browser to finish logging in. If it can't reach this machine, e.g. over SSH, use --no-browser instead.",
+            ),
+          );
+        }, BROWSER_LOGIN_TIMEOUT_MS);
 
-    const client = new issuer.Client({
-      client_id: 'xiOTmRnhCijHhEK3Ij20W4yonuETY5c0',
-      redirect_uris: ['https://www.edgebailey.com/'],
-      response_types: ['code'],
-      token_endpoint_auth_method: 'none',
-    });
+        server.on('request', (req: IncomingMessage, resp: ServerResponse) => {
+          const params = client.callbackParams(req);
+          // Browsers also ask for things like /favicon.ico
+          if (new URL(req.url!, redirectUri).pathname !== CALLBACK_PATH || (!params.code && !params.error)) {
+            resp.statusCode = 404;
+            resp.end();
+            return;
+          }
+          clearTimeout(timeout);
+          resp.end('You may now close this window.');
+          resolve(params);
+        });
+
+        console.log(chalk.dim(`Opening your browser to login. If it doesn't open, visit:\n${authorizationUrl}`));
+        open(authorizationUrl, browser ? { app: { name: browser } } : undefined).catch((e) => {
+          clearTimeout(timeout);
+          reject(e);
+        });
+      });
+    } finally {
+      server.close();
+    }
+
+    return await client.oauthCallback(redirectUri, params, { code_verifier, state });
+  }
 
+  async loginWithPastedRedirect(client: Client): Promise<TokenSet> {
     const code_verifier = generators.codeVerifier();
-    const code_challenge = generators.codeChallenge(code_verifier);
+    const state = generators.state();
+    const authorizationUrl = createAuthorizationUrl(client, OIDC_REDIRECT_URI, code_verifier, state);
+
+    console.log(`Visit this URL on any device to login:\n\n${authorizationUrl}\n`);
+    console.log(chalk.dim("Afterwards, copy the URL you end up at, even if the page doesn't load."));
 
-    const authorizationUrl = await client.authorizationUrl({
-      scope: 'openid profile email offline_access',
-      code_challenge,
-      code_challenge_method: 'S256',
-      prompt: 'login'
+    const { pasted } = await prompt({
+      type: 'input',
+      name: 'pasted',
+      message: 'Paste the URL, or just its code:',
+      validate(pasted) {
+        return pasted.trim() !== '' || 'The URL or code is required to finish logging in.';
+      },
     });
+    const input = pasted.trim();
+    const params = /^https?:\/\//.test(input) ? client.callbackParams(input) : { code: input, state };
 
-    const params = await new Promise<CallbackParamsType>((resolve, reject) => {
-      server.on('request', (req: IncomingMessage, resp: ServerResponse) => {
-        const params = client.callbackParams(req);
-        resp.end('You may now close this window.');
-        resolve(params);
-      });
+    return await client.oauthCallback(OIDC_REDIRECT_URI, params, { code_verifier, state });
+  }
 
-      open(authorizationUrl);
+  async loginWithPassword(client: Client): Promise<TokenSet> {
+    const { username, password } = await prompt([
+      {
+        type: 'input',
+        name: 'username',
+        message: 'Email:',
+      },
+      {
+        type: 'password',
+        name: 'password',
+        message: 'Password:',
+        mask: '*',
+      },
+    ]);
+
+    return await client.grant({
+      grant_type: 'password',
+      username,
+      password,
+      scope: OIDC_SCOPE,
     });
-    server.close();
-
-    const tokenSet = await client.oauthCallback(
-      'https://www.edgebailey.com/',
-      params,
-      { code_verifier },
-    );
-    console.log(tokenSet);
-    const user = await client.userinfo(tokenSet.access_token!);
-    console.log(user);
-    const result = await client.refresh(tokenSet.refresh_token!);
-    console.log(result);
   }
+
+  /**
+   * Tokens for CI aren't saved, only printed, so they can be captured with
+   * e.g. OUTSMARTLY_TOKEN=$(outsmartly login --client-credentials)
+   */
+  async printClientCredentialsToken(flags: {
+    'client-id'?: string;
+    'client-secret'?: string;
+    scope?: string;
+    audience?: string;
+  }): Promise<void> {
+    const { 'client-id': clientId, 'client-secret': clientSecret, scope, audience } = flags;
+
+    if (!clientId || !clientSecret) {
+      panic(
+        '--client-credentials requires --client-id and --client-secret, or OUTSMARTLY_CLIENT_ID and OUTSMARTLY_CLIENT_SECRET.',
+      );
+    }
+
+    let tokenSet: TokenSet;
+
+    try {
+      const client = await createOidcClient({
+        client_id: clientId,
+        client_secret: clientSecret,
+        token_endpoint_auth_method: 'client_secret_post',
+      });
+      tokenSet = await client.grant({
+        grant_type: 'client_credentials',
+        ...(scope && { scope }),
+        ...(audience && { audience }),
+      });
+    } catch (e) {
+      panic(`Unable to get a token with your client credentials: ${e?.message ?? e}`);
+    }
+
+    // Everything but the token goes to stderr, so stdout is only the token.
+    if (tokenSet.expires_at) {
+      console.error(chalk.dim(`Expires ${new Date(tokenSet.expires_at * 1000).toLocaleString()}`));
+    }
+    if (tokenSet.scope) {
+      console.error(chalk.dim(`Scope: ${tokenSet.scope}`));
+    }
+    console.log(tokenSet.access_token);
+  }
+}
+
+function createAuthorizationUrl(client: Client, redirectUri: string, code_verifier: string, state: string): string {
+  return client.authorizationUrl({
+    redirect_uri: redirectUri,
+    scope: OIDC_SCOPE,
+    code_challenge: generators.codeChallenge(code_verifier),
+    code_challenge_method: 'S256',
+    prompt: 'login',
+    state,
+  });
+}
+
+/**
+ * Listens on the loopback interface, on the preferred port or any free one
+ * if it's already in use, e.g. by another login in progress.
+ */
+function listenOnFreePort(preferredPort: number): Promise<Server> {
+  return new Promise((resolve, reject) => {
+    const server = http.createServer();
+    server.once('error', (err: NodeJS.ErrnoException) => {
+      if (err.code !== 'EADDRINUSE') {
+        reject(err);
+        return;
+      }
+      // Port 0 has the OS choose one that's free
+      server.once('error', reject);
+      server.listen(0, CALLBACK_HOST, () => resolve(server));
+    });
+    server.listen(preferredPort, CALLBACK_HOST, () => resolve(server));
+  });
 }
@@ -0,0 +1,40 @@
+import { Command, flags } from '@oclif/command';
+import chalk from 'chalk';
+import { clearCredentials, createOidcClient, CREDENTIALS_FILE_PATH } from '../credentials';
+
+export default class Logout extends Command {
+  static description = 'logout, removing your saved Outsmartly credentials';
+
+  static flags = {
+    help: flags.help({
+      char: 'h',
+      description: 'Show this help screen.',
+    }),
+  };
+
+  async run() {
+    this.parse(Logout);
+    const removed = clearCredentials();
+
+    if (!removed?.login && !removed?.bearerToken) {
+      console.log(chalk.dim("You weren't logged in."));
+      return;
+    }
+
+    // Best effort, the credentials are already gone from this machine either way.
+    if (removed.login?.refreshToken) {
+      try {
+        const client = await createOidcClient();
+        await client.revoke(removed.login.refreshToken, 'refresh_token');
+      } catch (e) {
+        console.error(chalk.dim(`Unable to revoke your refresh token: ${e?.message ?? e}`));
+      }
+    }
+
+    console.log(chalk.green(`✔ Logged out, removed your credentials from ${CREDENTIALS_FILE_PATH}`));
+
+    if (process.env.OUTSMARTLY_TOKEN) {
+      console.log(chalk.yellow('OUTSMARTLY_TOKEN is still set, so it will continue to be used.'));
+    }
+  }
+}
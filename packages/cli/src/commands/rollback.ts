@@ -0,0 +1,113 @@
+import { Command, flags } from '@oclif/command';
+import chalk from 'chalk';
+import { prompt } from 'inquirer';
+import ora from 'ora';
+import { APIError, DeploymentWithConfig, fetchDeployment, patchSite } from '../api';
+import { panic } from '../panic';
+import { findBearerToken, NotLoggedInError } from '../credentials';
+import { findOutsmartlyConfigHost } from '../bundle';
+
+export default class Rollback extends Command {
+  static description = 'Re-deploy the config of a previous deployment, to the environment it was deployed to';
+
+  static examples = [`$ outsmartly rollback 6f1c2a`];
+
+  static flags = {
+    config: flags.string({
+      description: 'Path to your Outsmartly config file, which the host is read from.',
+      helpValue: JSON.stringify('path/to/outsmartly.config.js'),
+    }),
+    host: flags.string({
+      description: "Your site's host, if provided, otherwise it is read from your config.",
+    }),
+    yes: flags.boolean({
+      char: 'y',
+      description: 'Skip the confirmation prompt.',
+      default: false,
+    }),
+    token: flags.string({
+      description:
+        'Access token, if provided, otherwise the CLI will look for OUTSMARTLY_TOKEN. If not defined, it will prompt you to provide one.',
+    }),
+    help: flags.help({
+      char: 'h',
+      description: 'Show this help screen.',
+    }),
+  };
+
+  static args = [
+    {
+      name: 'id',
+      required: true,
+      description: "ID of the deployment to restore, from 'outsmartly deployments list'.",
+    },
+  ];
+
+  async run() {
+    const { args, flags } = this.parse(Rollback);
+    const spinner = ora();
+    let host: string;
+    let deployment: DeploymentWithConfig;
+
+    try {
+      host = flags.host ?? (await findOutsmartlyConfigHost(flags.config));
+      const bearerToken = await findBearerToken(flags.token);
+      const options = { bearerToken, cliVersion: this.config.version };
+      deployment = await fetchDeployment(host, args.id, options);
+
+      const environmentName = deployment.environment.name;
+      const deployedAt = new Date(deployment.createdAt).toLocaleString();
+      if (!flags.yes && !(await confirm(`Roll back ${environmentName} to the config deployed ${deployedAt}?`))) {
+        console.log(chalk.dim('Nothing was deployed.'));
+        return;
+      }
+
+      spinner.color = 'blue';
+      spinner.text = chalk.blue(`Rolling back to ${deployment.id}... (${environmentName})`);
+      spinner.start();
+
+      await patchSite(
+        {
+          host,
+          configRaw: deployment.configRaw,
+          configSnapshot: deployment.configSnapshot,
+          analysis: deployment.analysis,
+          environment: deployment.environment,
+          rollbackOf: deployment.id,
+        },
+        options,
+      );
+    } catch (e) {
+      spinner.fail('Rolling back failed');
+
+      if (e instanceof APIError) {
+        panic(`Server Response: ${e.json.errors.join('\n')}`);
+      }
+
+      if (e instanceof NotLoggedInError) {
+        panic(e.message);
+      }
+      panic(`Unexpected error: ${e?.message ?? e}`);
+    }
+
+    spinner.stopAndPersist({
+      symbol: '⏪',
+      text: chalk.green(`Rolled back to ${deployment.id} (${deployment.environment.name}) https://${host}/`),
+    });
+  }
+}
+
+async function confirm(message: string): Promise<boolean> {
+  // There's nobody to answer a prompt in CI, so require --yes instead of hanging.
+  if (!process.stdin.isTTY) {
+    panic(`${message} Pass --yes to confirm when not running interactively.`);
+  }
+
+  const answers = await prompt({
+    type: 'confirm',
+    name: 'confirmed',
+    message,
+    default: false,
+  });
+  return answers.confirmed as boolean;
+}
@@ -0,0 +1,61 @@
+import { Command, flags } from '@oclif/command';
+import * as path from 'path';
+import chalk from 'chalk';
+import { panic } from '../panic';
+import {
+  evaluateOutsmartlyConfig,
+  findOutsmartlyConfigPath,
+  handleRollupError,
+  rollupOutsmartlyConfigFile,
+} from '../bundle';
+import { formatConfigProblems, validateOutsmartlyConfig } from '../validate';
+
+export default class Validate extends Command {
+  static description = 'Check your Outsmartly configuration for mistakes, without deploying it';
+
+  static examples = [`$ outsmartly validate`];
+
+  static flags = {
+    config: flags.string({
+      description: 'Path to your Outsmartly config file.',
+      helpValue: JSON.stringify('path/to/outsmartly.config.js'),
+    }),
+    help: flags.help({
+      char: 'h',
+      description: 'Show this help screen.',
+    }),
+  };
+
+  async run() {
+    const { flags } = this.parse(Validate);
+    let problems;
+    let configFullPath: string;
+
+    try {
+      configFullPath = findOutsmartlyConfigPath(flags.config);
+      const { chunk } = await rollupOutsmartlyConfigFile(configFullPath);
+      const config = evaluateOutsmartlyConfig(chunk, configFullPath);
+      problems = validateOutsmartlyConfig(config);
+    } catch (e) {
+      if (e?.code) {
+        handleRollupError(e, true);
+      }
+      panic(`Unable to evaluate your config: ${e?.stack ?? e}`);
+    }
+
+    const relativeConfigPath = path.relative(process.cwd(), configFullPath);
+    const errorCount = problems.filter((problem) => problem.severity === 'error').length;
+    const warningCount = problems.length - errorCount;
+
+    if (problems.length) {
+      console.log(formatConfigProblems(relativeConfigPath, problems));
+      console.log('');
+    }
+
+    if (errorCount) {
+      panic(`Found ${errorCount} error(s) and ${warningCount} warning(s) in ${relativeConfigPath}`);
+    }
+
+    console.log(chalk.green(`✔ ${relativeConfigPath} is valid`) + chalk.dim(` (${warningCount} warning(s))`));
+  }
+}
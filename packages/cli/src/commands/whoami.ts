@@ -0,0 +1,55 @@
+import { Command, flags } from '@oclif/command';
+import chalk from 'chalk';
+import { panic } from '../panic';
+import {
+  createOidcClient,
+  CREDENTIALS_FILE_PATH,
+  findLoginAccessToken,
+  formatUser,
+  NotLoggedInError,
+  readCredentials,
+} from '../credentials';
+
+export default class Whoami extends Command {
+  static description = 'show who you are logged in as';
+
+  static flags = {
+    help: flags.help({
+      char: 'h',
+      description: 'Show this help screen.',
+    }),
+  };
+
+  async run() {
+    this.parse(Whoami);
+
+    if (process.env.OUTSMARTLY_TOKEN) {
+      console.log('Using the access token from OUTSMARTLY_TOKEN');
+      return;
+    }
+
+    const { cli } = readCredentials();
+
+    if (cli?.login) {
+      try {
+        const accessToken = await findLoginAccessToken();
+        const client = await createOidcClient();
+        const userinfo = await client.userinfo(accessToken);
+        console.log(formatUser(userinfo));
+      } catch (e) {
+        panic(
+          e instanceof NotLoggedInError ? e.message : `Unable to find who you are logged in as: ${e?.message ?? e}`,
+        );
+      }
+      return;
+    }
+
+    if (cli?.bearerToken) {
+      console.log(`Using an access token saved in ${CREDENTIALS_FILE_PATH}`);
+      console.log(chalk.dim("Run 'outsmartly login' to login with your Outsmartly account instead."));
+      return;
+    }
+
+    panic("You're not logged in. Run 'outsmartly login' first.");
+  }
+}
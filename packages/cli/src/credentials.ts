@@ -0,0 +1,209 @@
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import { prompt } from 'inquirer';
+import { Client, ClientMetadata, Issuer, TokenSet } from 'openid-client';
+
+export const CREDENTIALS_FILE_PATH = path.join(os.homedir(), '.config', 'outsmartly', 'config.json');
+
+export const OIDC_ISSUER_URL = 'https://outsmartly.us.auth0.com/.well-known/openid-configuration';
+export const OIDC_CLIENT_ID = 'xiOTmRnhCijHhEK3Ij20W4yonuETY5c0';
+export const OIDC_REDIRECT_URI = 'https://www.edgebailey.com/';
+export const OIDC_SCOPE = 'openid profile email offline_access';
+
+// Refresh a little early, so the token doesn't expire in the middle of a request.
+const EXPIRY_MARGIN_MS = 1000 * 60;
+
+export interface LoginUser {
+  sub: string;
+  name?: string;
+  email?: string;
+}
+
+export interface LoginCredentials {
+  accessToken: string;
+  refreshToken?: string;
+  // When the access token expires, in milliseconds since the epoch
+  expiresAt: number;
+  // When `outsmartly login --expires-in` says to stop refreshing, and log in again
+  sessionExpiresAt: number;
+  user?: LoginUser;
+}
+
+export interface StoredCredentials {
+  cli?: {
+    // An access token pasted in by hand, used when not logged in
+    bearerToken?: string;
+    login?: LoginCredentials;
+  };
+}
+
+export class NotLoggedInError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NotLoggedInError';
+  }
+}
+
+export function formatUser(user: LoginUser): string {
+  if (user.name && user.email && user.name !== user.email) {
+    return `${user.name} (${user.email})`;
+  }
+  return user.email ?? user.name ?? user.sub;
+}
+
+export function readCredentials(): StoredCredentials {
+  if (!fs.existsSync(CREDENTIALS_FILE_PATH)) {
+    return {};
+  }
+
+  try {
+    return fs.readJsonSync(CREDENTIALS_FILE_PATH);
+  } catch (e) {
+    console.error(`Unable to read outsmartly configuration file at: ${CREDENTIALS_FILE_PATH}`);
+    console.error(e);
+    return {};
+  }
+}
+
+export function writeCredentials(credentials: StoredCredentials): void {
+  const json = JSON.stringify(credentials, null, 2);
+  fs.outputFileSync(CREDENTIALS_FILE_PATH, json);
+  // Only readable by you, since it contains your tokens. The file may have
+  // been created before we did this, so it's not enough to do on creation.
+  fs.chmodSync(CREDENTIALS_FILE_PATH, 0o600);
+}
+
+export function saveLogin(tokenSet: TokenSet, sessionDurationSeconds: number, user?: LoginUser): LoginCredentials {
+  const credentials = readCredentials();
+  const login: LoginCredentials = {
+    accessToken: tokenSet.access_token!,
+    refreshToken: tokenSet.refresh_token,
+    expiresAt: (tokenSet.expires_at ?? 0) * 1000,
+    sessionExpiresAt: Date.now() + sessionDurationSeconds * 1000,
+    user,
+  };
+  writeCredentials({
+    ...credentials,
+    cli: { ...credentials.cli, login },
+  });
+  return login;
+}
+
+/**
+ * Removes everything saved by `outsmartly login` or pasted in when prompted,
+ * and returns what was removed.
+ */
+export function clearCredentials(): StoredCredentials['cli'] {
+  const { cli, ...rest } = readCredentials();
+  writeCredentials(rest);
+  return cli;
+}
+
+/**
+ * The CLI's own OIDC client by default. Machine-to-machine clients, e.g. for
+ * CI, provide their own client_id and client_secret.
+ */
+export async function createOidcClient(metadata?: ClientMetadata): Promise<Client> {
+  const issuer = await Issuer.discover(OIDC_ISSUER_URL);
+
+  return new issuer.Client(
+    metadata ?? {
+      client_id: OIDC_CLIENT_ID,
+      redirect_uris: [OIDC_REDIRECT_URI],
+      response_types: ['code'],
+      token_endpoint_auth_method: 'none',
+    },
+  );
+}
+
+/**
+ * Returns the access token from `outsmartly login`, refreshing it first if
+ * it has expired. Throws NotLoggedInError when there is no login, or it can't
+ * be refreshed anymore.
+ */
+export async function findLoginAccessToken(): Promise<string> {
+  const login = readCredentials().cli?.login;
+
+  if (!login) {
+    throw new NotLoggedInError("You're not logged in. Run 'outsmartly login' first.");
+  }
+
+  if (Date.now() < login.expiresAt - EXPIRY_MARGIN_MS) {
+    return login.accessToken;
+  }
+
+  if (!login.refreshToken || Date.now() >= login.sessionExpiresAt) {
+    throw new NotLoggedInError("Your login has expired. Run 'outsmartly login' again.");
+  }
+
+  const client = await createOidcClient();
+  let tokenSet;
+
+  try {
+    tokenSet = await client.refresh(login.refreshToken);
+  } catch (e) {
+    throw new NotLoggedInError(`Your login could not be refreshed, run 'outsmartly login' again. ${e.message}`);
+  }
+
+  const credentials = readCredentials();
+  const refreshed: LoginCredentials = {
+    ...login,
+    accessToken: tokenSet.access_token!,
+    // Refresh tokens may or may not be rotated
+    refreshToken: tokenSet.refresh_token ?? login.refreshToken,
+    expiresAt: (tokenSet.expires_at ?? 0) * 1000,
+  };
+  writeCredentials({
+    ...credentials,
+    cli: { ...credentials.cli, login: refreshed },
+  });
+
+  return refreshed.accessToken;
+}
+
+/**
+ * Finds the access token to use for API requests: the --token flag, then
+ * OUTSMARTLY_TOKEN, then `outsmartly login`, then a previously pasted token.
+ * Otherwise we prompt for one.
+ */
+export async function findBearerToken(bearerTokenOverride?: string): Promise<string> {
+  const bearerToken = bearerTokenOverride ?? process.env.OUTSMARTLY_TOKEN;
+  if (bearerToken) {
+    return bearerToken;
+  }
+
+  const credentials = readCredentials();
+
+  if (credentials.cli?.login) {
+    return await findLoginAccessToken();
+  }
+
+  if (credentials.cli?.bearerToken) {
+    return credentials.cli.bearerToken;
+  }
+
+  const answers = await prompt({
+    type: 'input',
+    name: 'bearerToken',
+    message: 'Paste your access token: ',
+    validate(bearerToken) {
+      if (!bearerToken || typeof bearerToken !== 'string' || bearerToken.length < 36) {
+        throw "That doesn't seem to be a valid access token. If you're having trouble, contact support@outsmartly.com.";
+      }
+      return true;
+    },
+  });
+
+  try {
+    writeCredentials({
+      ...credentials,
+      cli: { ...credentials.cli, bearerToken: answers.bearerToken },
+    });
+  } catch (e) {
+    console.error(`Unable to write outsmartly configuration file to: ${CREDENTIALS_FILE_PATH}`);
+    console.error(e);
+  }
+
+  return answers.bearerToken as string;
+}
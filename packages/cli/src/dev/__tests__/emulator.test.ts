@@ -0,0 +1,446 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import fetch, { Request, RequestInit, Response } from 'node-fetch';
+import { skipPersonalization } from '@outsmartly/core';
+import { EdgeEmulator, EdgeEmulatorOptions, EmulatedConfig } from '../emulator';
+import { EmulatedMessageBus } from '../events';
+
+const HTML = `<html><body>
+<script type="application/json" data-outsmartly-component="Hero">{"args":[]}</script>
+<script type="application/json" data-outsmartly-component="Banner">{"args":[]}</script>
+</body></html>`;
+
+describe('EdgeEmulator', () => {
+  let origin: http.Server;
+  let originUrl: string;
+  let originRequests: http.IncomingMessage[];
+  let servers: http.Server[];
+
+  async function listen(server: http.Server): Promise<string> {
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  }
+
+  /**
+   * Runs the emulator for the config in front of the test origin, and returns
+   * a fetch() for it.
+   */
+  async function emulate(
+    config: Partial<EmulatedConfig>,
+    options: Partial<EdgeEmulatorOptions> = {},
+  ): Promise<(path: string, init?: RequestInit) => Promise<Response>> {
+    const emulator = new EdgeEmulator(config, { origin: originUrl, ...options });
+    const server = http.createServer((req, res) => emulator.handle(req, res));
+    servers.push(server);
+    const url = await listen(server);
+    return (path, init) => fetch(`${url}${path}`, init);
+  }
+
+  function overridesOf(html: string): { [scope: string]: string } {
+    const [, json] = /<script id="__OUTSMARTLY_DATA__"[^>]*>(.*?)<\/script>/.exec(html)!;
+    return JSON.parse(json).overrides;
+  }
+
+  beforeAll(async () => {
+    origin = http.createServer((req, res) => {
+      originRequests.push(req);
+      res.setHeader('content-type', 'text/html');
+      res.end(HTML);
+    });
+    originUrl = await listen(origin);
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => origin.close(resolve));
+  });
+
+  beforeEach(() => {
+    servers = [];
+    originRequests = [];
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await Promise.all(servers.map((server) => new Promise((resolve) => server.close(resolve))));
+  });
+
+  describe('requests', () => {
+    it('runs top-level middleware, then route middleware, then the interceptor', async () => {
+      const calls: string[] = [];
+      const fetchEmulated = await emulate({
+        middleware: [
+          (event, next) => {
+            calls.push('top-level');
+            const request = new Request(event.request.url, { headers: { 'x-from': 'middleware' } });
+            return next(request);
+          },
+        ],
+        routes: [
+          {
+            path: '/products/:id',
+            middleware: [
+              async (event, next) => {
+                calls.push('route');
+                const response = await next();
+                response.headers.set('x-route', 'products');
+                return response;
+              },
+            ],
+            intercept: (event) => {
+              calls.push('intercept');
+              return new Response(`${event.request.outsmartly.params.id} ${event.request.headers.get('x-from')}`);
+            },
+          },
+        ],
+      });
+
+      const response = await fetchEmulated('/products/123');
+      expect(await response.text()).toBe('123 middleware');
+      expect(response.headers.get('x-route')).toBe('products');
+      expect(calls).toEqual(['top-level', 'route', 'intercept']);
+      expect(originRequests).toHaveLength(0);
+    });
+
+    it('lets middleware respond without reaching the origin', async () => {
+      const fetchEmulated = await emulate({
+        middleware: [() => new Response('Maintenance', { status: 503 })],
+      });
+
+      const response = await fetchEmulated('/');
+      expect(response.status).toBe(503);
+      expect(await response.text()).toBe('Maintenance');
+      expect(originRequests).toHaveLength(0);
+    });
+
+    it('applies overrides to HTML from the origin', async () => {
+      const fetchEmulated = await emulate({
+        routes: [
+          {
+            path: '/',
+            overrides: [
+              {
+                component: 'Hero',
+                getOverrideProps: (event) => ({ props: { title: `Hello from ${event.visitor.country}` } }),
+              },
+              { component: 'Missing', getOverrideProps: () => ({ props: {} }) },
+            ],
+          },
+        ],
+      });
+
+      const response = await fetchEmulated('/?page=1');
+      const html = await response.text();
+      expect(originRequests.map((req) => req.url)).toEqual(['/?page=1']);
+      expect(html).toContain('data-outsmartly-component="Banner"');
+      expect(overridesOf(html)).toEqual({ Hero: JSON.stringify({ props: { title: 'Hello from US' } }) });
+    });
+
+    it('serves the origin untouched when no overrides match', async () => {
+      const fetchEmulated = await emulate({ routes: [{ path: '/other', overrides: [] }] });
+      expect(await (await fetchEmulated('/')).text()).toBe(HTML);
+    });
+
+    it('reports errors thrown by overrides, and still serves the page', async () => {
+      const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+      const fetchEmulated = await emulate({
+        routes: [
+          {
+            path: '/',
+            overrides: [
+              {
+                name: 'Broken hero',
+                component: 'Hero',
+                getOverrideProps: () => {
+                  throw new Error('Oops');
+                },
+              },
+            ],
+          },
+        ],
+      });
+
+      const response = await fetchEmulated('/');
+      expect(response.status).toBe(200);
+      expect(overridesOf(await response.text())).toEqual({});
+      expect(error).toHaveBeenCalledWith(
+        expect.stringContaining('Broken hero'),
+        'Uncaught error in getOverrideProps()',
+        expect.stringContaining('Oops'),
+      );
+    });
+  });
+
+  describe('segments', () => {
+    const config: Partial<EmulatedConfig> = {
+      routes: [
+        {
+          path: '/',
+          segments: [{ country: 'CA' }, { query: { preview: 'canada' } }],
+          intercept: () => new Response('Canada'),
+        },
+        {
+          path: '/',
+          intercept: () => new Response('Everyone else'),
+        },
+      ],
+    };
+
+    it('skips routes for visitors in none of their segments', async () => {
+      const fetchEmulated = await emulate(config);
+      expect(await (await fetchEmulated('/')).text()).toBe('Everyone else');
+      expect(await (await fetchEmulated('/?preview=canada')).text()).toBe('Canada');
+    });
+
+    it('runs routes for visitors in any of their segments', async () => {
+      const fetchEmulated = await emulate(config, { visitor: { country: 'CA' } });
+      expect(await (await fetchEmulated('/')).text()).toBe('Canada');
+    });
+
+    it('only runs overrides for visitors in their segments', async () => {
+      const getOverrideProps = () => ({ props: {} });
+      const fetchEmulated = await emulate({
+        routes: [
+          {
+            path: '/',
+            overrides: [
+              { component: 'Hero', segments: [{ country: 'CA' }], getOverrideProps },
+              { component: 'Banner', segments: [{ country: ['US', 'CA'] }], getOverrideProps },
+            ],
+          },
+        ],
+      });
+
+      expect(Object.keys(overridesOf(await (await fetchEmulated('/')).text()))).toEqual(['Banner']);
+
+      const response = await fetchEmulated(`/.outsmartly/overrides?route=${encodeURIComponent('/')}`);
+      const { result } = await response.json<{ result: { overrides: object } }>();
+      expect(Object.keys(result.overrides)).toEqual(['Banner']);
+    });
+  });
+
+  describe('endpoints', () => {
+    it('runs top-level middleware for the MessageBus', async () => {
+      const listener = jest.fn();
+      const config: Partial<EmulatedConfig> = {
+        middleware: [
+          (event, next) => {
+            if (event.visitor.bot.score >= 50) {
+              skipPersonalization(event);
+            }
+            return next();
+          },
+        ],
+        plugins: [{ name: 'test', setup: ({ messageBus }) => messageBus.on('test', listener) }],
+      };
+      const body = JSON.stringify([{ type: 'test', data: {} }]);
+
+      const fromBot = await emulate(config, { visitor: { bot: { score: 60, verified: false } } });
+      expect((await fromBot('/.outsmartly/message-bus', { method: 'POST', body })).status).toBe(204);
+      expect(listener).not.toHaveBeenCalled();
+
+      const fromPerson = await emulate(config);
+      expect((await fromPerson('/.outsmartly/message-bus', { method: 'POST', body })).status).toBe(200);
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('stores messages from the MessageBus, so they can be queried', async () => {
+      let messageBus: EmulatedMessageBus;
+      const fetchEmulated = await emulate({
+        plugins: [{ name: 'test', setup: (context) => (messageBus = context.messageBus) }],
+      });
+      const meta = { id: 'message-1', emittedAt: 1, origin: 'client', sequence: 0 };
+      const body = JSON.stringify([
+        { type: 'Commerce.Cart.VIEWED', data: { items: [] }, meta },
+        { type: 'Example.FIRST', data: {} },
+      ]);
+
+      const response = await fetchEmulated('/.outsmartly/message-bus', { method: 'POST', body });
+      const visitorId = /Outsmartly-Session=(\w+)/.exec(response.headers.get('set-cookie')!)![1];
+      await new Promise((resolve) => setImmediate(resolve));
+
+      const messages = await messageBus!.query({ visitorId, type: 'Commerce.*' });
+      expect(messages.map(({ type, data }) => ({ type, data }))).toEqual([
+        { type: 'Commerce.Cart.VIEWED', data: { items: [] } },
+      ]);
+    });
+
+    it("stores messages emitted at the edge as the visitor's", async () => {
+      let messageBus: EmulatedMessageBus;
+      const fetchEmulated = await emulate({
+        plugins: [{ name: 'test', setup: (context) => (messageBus = context.messageBus) }],
+        routes: [
+          {
+            path: '/',
+            intercept: (event) => {
+              event.messageBus.emit('Experiment.EXPOSED', { experiment: 'hero', variant: 'control', forced: false });
+              return new Response('ok');
+            },
+          },
+        ],
+      });
+
+      const response = await fetchEmulated('/');
+      const visitorId = /Outsmartly-Session=(\w+)/.exec(response.headers.get('set-cookie')!)![1];
+      await new Promise((resolve) => setImmediate(resolve));
+
+      const messages = await messageBus!.query({ visitorId, type: 'Experiment.EXPOSED' });
+      expect(messages).toEqual([
+        expect.objectContaining({
+          data: { experiment: 'hero', variant: 'control', forced: false },
+          meta: expect.objectContaining({ origin: 'edge', visitorId }),
+        }),
+      ]);
+    });
+
+    it("validates messages against core's message types", async () => {
+      const listener = jest.fn();
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const fetchEmulated = await emulate({
+        plugins: [{ name: 'test', setup: ({ messageBus }) => messageBus.on('Commerce.*', listener) }],
+      });
+      const body = JSON.stringify([
+        { type: 'Commerce.Product.VIEWED', data: { product: {} } },
+        { type: 'Commerce.Product.VIEWED', data: { product: { productId: '123' } } },
+      ]);
+
+      expect((await fetchEmulated('/.outsmartly/message-bus', { method: 'POST', body })).status).toBe(200);
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener.mock.calls[0][0].message.data).toEqual({ product: { productId: '123' } });
+      expect(listener.mock.calls[0][0].message.meta).toEqual(expect.objectContaining({ origin: 'client' }));
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining("rejected an invalid 'Commerce.Product.VIEWED'"));
+    });
+
+    it('rejects MessageBus bodies that are not a list of messages', async () => {
+      const fetchEmulated = await emulate({});
+      const errorsFor = async (body: string) => {
+        const response = await fetchEmulated('/.outsmartly/message-bus', { method: 'POST', body });
+        expect(response.status).toBe(400);
+        return (await response.json<{ errors: string[] }>()).errors;
+      };
+
+      expect(await errorsFor('{"type":"test"}')).toEqual(['Malformed message bus body: expected an array of messages']);
+      expect(await errorsFor('[{"type":"test"},null]')).toEqual([
+        'Malformed message bus body: message 1 is not an object',
+      ]);
+      expect(await errorsFor('[{"data":{}}]')).toEqual(['Malformed message bus body: message 0 has no type']);
+      expect(await errorsFor('[{"type":"test","meta":"id"}]')).toEqual([
+        'Malformed message bus body: the meta of message 0 is not an object',
+      ]);
+      expect(await errorsFor('[')).toHaveLength(1);
+    });
+
+    it('runs no overrides when middleware skips personalization', async () => {
+      const fetchEmulated = await emulate({
+        middleware: [
+          (event, next) => {
+            skipPersonalization(event);
+            return next();
+          },
+        ],
+        routes: [{ path: '/', overrides: [{ component: 'Hero', getOverrideProps: () => ({ props: {} }) }] }],
+      });
+
+      const response = await fetchEmulated(`/.outsmartly/overrides?route=${encodeURIComponent('/')}`);
+      const { result } = await response.json<{ result: { overrides: object } }>();
+      expect(result.overrides).toEqual({});
+    });
+
+    it("doesn't run route middleware", async () => {
+      const routeMiddleware = jest.fn((event, next) => next());
+      const fetchEmulated = await emulate({
+        routes: [{ path: /.*/, middleware: [routeMiddleware] }],
+      });
+
+      await fetchEmulated(`/.outsmartly/overrides?route=${encodeURIComponent('/')}`);
+      expect(routeMiddleware).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('visitor profiles', () => {
+    it("keeps each visitor's profile between requests", async () => {
+      const fetchEmulated = await emulate({
+        routes: [
+          {
+            path: '/',
+            intercept: async (event) => {
+              const { counters } = await event.visitor.profile.update({ increment: { visits: 1 } });
+              return new Response(String(counters.visits));
+            },
+          },
+        ],
+      });
+
+      const first = await fetchEmulated('/');
+      expect(await first.text()).toBe('1');
+      const cookie = first.headers.get('set-cookie')!.split(';')[0];
+      expect(await (await fetchEmulated('/', { headers: { cookie } })).text()).toBe('2');
+      expect(await (await fetchEmulated('/')).text()).toBe('1');
+    });
+  });
+
+  describe('cookies', () => {
+    it('parses and sets cookies the same way as the edge', async () => {
+      const fetchEmulated = await emulate({
+        routes: [
+          {
+            path: '/',
+            intercept: (event) => {
+              event.cookies.set('theme', 'dark mode', { partitioned: true, secure: true });
+              return new Response(JSON.stringify(Object.fromEntries(event.cookies)));
+            },
+          },
+        ],
+      });
+
+      const response = await fetchEmulated('/', {
+        headers: { cookie: 'a="quoted"; a=second; b=%20x; Outsmartly-Session=1' },
+      });
+      expect(await response.json()).toEqual({ a: 'quoted', b: ' x', 'Outsmartly-Session': '1', theme: 'dark mode' });
+      expect(response.headers.get('set-cookie')).toBe('theme=dark%20mode; Path=/; Secure; Partitioned');
+    });
+
+    it('signs and encrypts cookies with the configured secrets', async () => {
+      const routes: EmulatedConfig['routes'] = [
+        {
+          path: '/set',
+          intercept: async (event) => {
+            await event.cookies.setSigned('plan', 'pro');
+            await event.cookies.setEncrypted('email', 'ada@example.com');
+            return new Response('ok');
+          },
+        },
+        {
+          path: '/get',
+          intercept: async (event) =>
+            new Response(
+              JSON.stringify({
+                plan: await event.cookies.getSigned('plan'),
+                email: await event.cookies.getEncrypted('email'),
+              }),
+            ),
+        },
+      ];
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const before = await emulate({ routes, cookies: { secrets: ['old'] } });
+      const setCookies = (await before('/set')).headers.raw()['set-cookie'];
+      const cookie = setCookies.map((header) => header.split(';')[0]).join('; ');
+      expect(cookie).not.toContain('ada@example.com');
+
+      // Rotated, so the old secret can still read them
+      const after = await emulate({ routes, cookies: { secrets: ['new', 'old'] } });
+      expect(await (await after('/get', { headers: { cookie } })).json()).toEqual({
+        plan: 'pro',
+        email: 'ada@example.com',
+      });
+      expect(warn).not.toHaveBeenCalled();
+
+      const tampered = cookie.replace(/plan=[^.]*/, 'plan=enterprise');
+      expect(await (await after('/get', { headers: { cookie: tampered } })).json()).toEqual({
+        email: 'ada@example.com',
+      });
+      expect(warn).toHaveBeenCalledWith(expect.anything(), expect.stringContaining("Cookie 'plan' was ignored"));
+    });
+  });
+});
@@ -0,0 +1,675 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import { atob, btoa } from 'buffer';
+import { randomBytes, webcrypto } from 'crypto';
+import { URL, URLSearchParams } from 'url';
+import { TextDecoder, TextEncoder } from 'util';
+import chalk from 'chalk';
+import fetch, { Headers, Request, Response } from 'node-fetch';
+import {
+  createMemoryMessageStore,
+  createMemoryVisitorProfileStore,
+  createVisitorProfile,
+  isPersonalizationSkipped,
+  matchesAnySegment,
+  matchRoute,
+  MessageBusMessageMeta,
+  MessageBusOptions,
+  MessageSchemas,
+  OutsmartlyCookies,
+  RouteMatch,
+  Segment,
+  SegmentEvent,
+  VisitorProfileOptions,
+  VisitorProfileStore,
+} from '@outsmartly/core';
+import {
+  EdgeLogMessage,
+  EmulatedEventInit,
+  EmulatedMessageBus,
+  EmulatedOverrideEvent,
+  EmulatedRequest,
+  EmulatedRequestEvent,
+  EmulatedVisitor,
+} from './events';
+
+export const SESSION_COOKIE_NAME = 'Outsmartly-Session';
+export const MESSAGE_BUS_PATH = '/.outsmartly/message-bus';
+export const OVERRIDES_PATH = '/.outsmartly/overrides';
+
+// How many message ids are remembered for deduplication, oldest forgotten first
+const MAX_SEEN_MESSAGE_IDS = 10000;
+
+// Same as RECEIVE_MESSAGES_HEADER in core, set by requests that read the response
+const RECEIVE_MESSAGES_HEADER = 'outsmartly-receive-messages';
+
+// How many messages are kept for a visitor until they're delivered, oldest dropped first
+const MAX_MESSAGES_TO_CLIENT = 100;
+
+// Same value the @outsmartly/react SDK checks before rehydrating.
+const SCRIPT_DATA_FORMAT_VERSION = 1;
+
+/**
+ * Globals available to the config when it is evaluated by the emulator, on
+ * top of `console`. Roughly the subset of the edge runtime that configs use.
+ */
+export const EMULATED_EDGE_GLOBALS = {
+  fetch,
+  Request,
+  Response,
+  Headers,
+  URL,
+  URLSearchParams,
+  TextEncoder,
+  TextDecoder,
+  crypto: webcrypto,
+  atob,
+  btoa,
+  setTimeout,
+  clearTimeout,
+  setInterval,
+  clearInterval,
+  queueMicrotask,
+};
+
+type PromiseOrValue<T> = Promise<T> | T;
+
+interface Middleware {
+  (event: EmulatedRequestEvent, next: (request?: Request) => Promise<Response>): PromiseOrValue<Response>;
+  displayName?: string;
+}
+
+interface EmulatedOverride {
+  name?: string;
+  component: string;
+  segments?: Segment[];
+  getOverrideProps(event: EmulatedOverrideEvent): PromiseOrValue<{ props: unknown } | void>;
+}
+
+interface EmulatedRoute {
+  path: string | RegExp;
+  segments?: Segment[];
+  middleware?: Middleware[];
+  intercept?(event: EmulatedRequestEvent): PromiseOrValue<Response>;
+  overrides?: EmulatedOverride[];
+}
+
+export interface EmulatedConfig {
+  host: string;
+  environments: { name: string; origin: string }[];
+  plugins: {
+    name: string;
+    messageTypes?: MessageSchemas;
+    setup?(context: { config: EmulatedConfig; messageBus: EmulatedMessageBus }): void;
+  }[];
+  middleware: Middleware[];
+  routes: EmulatedRoute[];
+  messageBus: MessageBusOptions;
+  visitorProfile: VisitorProfileOptions;
+  cookies: { secrets?: string[] };
+}
+
+export interface OutsmartlyScriptData {
+  minFormatVersion: number;
+  overrides: { [scope: string]: string };
+  logs: EdgeLogMessage[];
+  messages?: EmulatedClientMessage[];
+  endpoints: {
+    overrides: string;
+  };
+}
+
+// What the client's MessageBus sends to MESSAGE_BUS_PATH
+interface MessageFromClient {
+  type: string;
+  data: unknown;
+  meta?: MessageBusMessageMeta;
+}
+
+interface EmulatedClientMessage {
+  type: string;
+  data: unknown;
+  meta: MessageBusMessageMeta;
+}
+
+export interface EdgeEmulatorOptions {
+  /**
+   * Where requests are proxied to, including the protocol but not any path.
+   */
+  origin: string;
+
+  /**
+   * Fields to use for every visitor, e.g. to try out geo-based overrides.
+   */
+  visitor?: Partial<Omit<EmulatedVisitor, 'profile'>>;
+}
+
+// Headers that no longer describe the body once node-fetch has decoded it.
+const SKIPPED_RESPONSE_HEADERS = new Set(['content-encoding', 'content-length', 'transfer-encoding', 'connection']);
+
+/**
+ * Runs an outsmartly.config.js locally, in front of an origin, the same way
+ * the edge would: top-level middleware, then route middleware, then either the
+ * route's interceptor or the origin, with overrides applied to HTML responses.
+ *
+ * It's not a perfect replica. Overrides are computed from the component
+ * markers emitted by the SDK in OUTSMARTLY_DEV mode and sent to the browser
+ * in __OUTSMARTLY_DATA__, rather than re-rendering slices of the HTML.
+ */
+export class EdgeEmulator {
+  private _config: EmulatedConfig;
+  private _messageBus: EmulatedMessageBus;
+  private _visitorProfileStore: VisitorProfileStore;
+  // Set keeps insertion order, so the first id is always the oldest.
+  private _seenMessageIds = new Set<string>();
+  // Messages from sendToClient(), by visitor id, until a response can carry them
+  private _messagesToClient = new Map<string, EmulatedClientMessage[]>();
+
+  constructor(config: Partial<EmulatedConfig>, private _options: EdgeEmulatorOptions) {
+    // Normalized the same way the edge does before calling plugin setup()
+    this._config = {
+      host: '',
+      environments: [],
+      plugins: [],
+      middleware: [],
+      routes: [],
+      messageBus: {},
+      visitorProfile: {},
+      cookies: {},
+      ...config,
+    };
+    this._messageBus = new EmulatedMessageBus((promise) => this._waitUntil(promise), {
+      ...this._config.messageBus,
+      // The edge always has somewhere to keep messages, so the emulator does too.
+      store: this._config.messageBus.store ?? createMemoryMessageStore(),
+    });
+    // Likewise for visitor profiles, kept in memory unless the config has a store.
+    this._visitorProfileStore = this._config.visitorProfile.store ?? createMemoryVisitorProfileStore();
+
+    // Registered before any setup(), so no listener ever sees an invalid message
+    for (const plugin of this._config.plugins) {
+      if (plugin.messageTypes) {
+        this._messageBus.registerMessageTypes(plugin.messageTypes);
+      }
+    }
+    for (const plugin of this._config.plugins) {
+      plugin.setup?.({ config: this._config, messageBus: this._messageBus });
+    }
+  }
+
+  async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const startTime = Date.now();
+    const url = new URL(req.url!, `http://${req.headers.host ?? 'localhost'}`);
+    const logs: EdgeLogMessage[] = [];
+    const cookies = new OutsmartlyCookies(req.headers.cookie ?? null, {
+      secrets: this._config.cookies.secrets,
+      // Cookies are shared by every event of the request, so it's reported like a system event.warn().
+      warn: (...args) => {
+        logs.push({ type: 'warn', originator: 'system', args });
+        console.warn(chalk.yellow('[Outsmartly SYSTEM]'), ...args);
+      },
+    });
+    const visitor = this._createVisitor(req, cookies);
+    const request = await this._createRequest(req, url);
+
+    const init: EmulatedEventInit = {
+      request,
+      visitor,
+      cookies,
+      messageBus: this._messageBus,
+      state: {},
+      logs,
+      waitUntil: (promise) => this._waitUntil(promise),
+      sendToClient: (type, data) => this._sendToClient(visitor.id, type, data),
+    };
+
+    let response: Response;
+
+    try {
+      response = await this._messageBus.runInContext({ visitor, cookies, sendToClient: init.sendToClient }, () =>
+        this._handleRequest(init),
+      );
+    } catch (e) {
+      console.error(chalk.red(`Unhandled error while handling ${req.method} ${url.pathname}`));
+      console.error(e);
+      response = new Response(`Outsmartly dev server error:\n\n${e?.stack ?? e}`, {
+        status: 500,
+        headers: { 'content-type': 'text/plain; charset=utf-8' },
+      });
+    } finally {
+      // The edge flushes once it has responded, which is when messages are stored.
+      this._messageBus.flushToExternal();
+    }
+
+    await this._writeResponse(res, response, cookies);
+
+    const statusColor = response.status >= 500 ? chalk.red : response.status >= 400 ? chalk.yellow : chalk.green;
+    console.log(
+      chalk.dim(`${req.method} ${url.pathname}${url.search}`),
+      statusColor(response.status),
+      chalk.dim(`${Date.now() - startTime}ms`),
+    );
+  }
+
+  private async _handleRequest(init: EmulatedEventInit): Promise<Response> {
+    const url = new URL(init.request.url);
+    // The endpoints don't belong to a route, so like the edge only top-level
+    // middleware runs for them, e.g. so botPolicy() can drop bots' messages.
+    const endpoint = getEndpoint(url, init.request.method);
+    const match = endpoint ? null : this._matchRoute(init, url);
+    if (match) {
+      init.request.outsmartly.params = match.params;
+    }
+
+    const middleware = [...this._config.middleware, ...(match?.route.middleware ?? [])];
+
+    const next = async (index: number, request: EmulatedRequest): Promise<Response> => {
+      const requestInit = { ...init, request };
+
+      if (index === middleware.length) {
+        switch (endpoint) {
+          case 'messageBus':
+            return await this._handleMessageBus(requestInit);
+          case 'overrides':
+            return await this._handleOverrides(requestInit, url.searchParams.get('route') ?? '/');
+          default:
+            return await this._handleRoute(requestInit, match);
+        }
+      }
+
+      const current = middleware[index];
+      const event = new EmulatedRequestEvent(
+        'outsmartlymiddleware',
+        requestInit,
+        current.displayName || current.name || undefined,
+      );
+
+      return await current(event, async (nextRequest = request) => {
+        return await next(index + 1, toEmulatedRequest(nextRequest, request.outsmartly));
+      });
+    };
+
+    return await next(0, init.request);
+  }
+
+  private async _handleRoute(init: EmulatedEventInit, match: RouteMatch<EmulatedRoute> | null): Promise<Response> {
+    if (match?.route.intercept) {
+      const event = new EmulatedRequestEvent('outsmartlyintercept', init);
+      return await match.route.intercept(event);
+    }
+
+    const response = await this._fetchOrigin(init.request);
+    // Set by middleware like core's botPolicy(), for traffic that shouldn't be personalized
+    const overrides = isPersonalizationSkipped(init) ? [] : this._matchOverrides(init, match, init.request.url);
+    const contentType = response.headers.get('content-type') ?? '';
+    const hasMessagesToClient = this._messagesToClient.has(init.visitor.id);
+
+    if ((overrides.length === 0 && !hasMessagesToClient) || !contentType.includes('text/html')) {
+      return response;
+    }
+
+    const html = await response.text();
+    const scriptData =
+      overrides.length === 0 ? createScriptData({}, init.logs) : await this._runOverrides(init, html, overrides);
+    scriptData.messages = this._takeMessagesToClient(init.visitor.id);
+    const headers = new Headers(response.headers);
+    headers.delete('content-length');
+
+    return new Response(injectScriptData(html, scriptData), {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+    });
+  }
+
+  private async _handleOverrides(init: EmulatedEventInit, route: string): Promise<Response> {
+    const url = new URL(route, init.request.url);
+    const request = toEmulatedRequest(
+      new Request(url.href, { headers: init.request.headers }),
+      init.request.outsmartly,
+    );
+    const match = this._matchRoute(init, url);
+    const overrides = isPersonalizationSkipped(init) ? [] : this._matchOverrides(init, match, url.href);
+    let scriptData: OutsmartlyScriptData;
+
+    if (match) {
+      request.outsmartly.params = match.params;
+    }
+
+    if (overrides.length === 0) {
+      scriptData = createScriptData({}, init.logs);
+    } else {
+      const response = await this._fetchOrigin(request);
+      const html = await response.text();
+      scriptData = await this._runOverrides({ ...init, request }, html, overrides);
+    }
+    scriptData.messages = this._takeMessagesToClient(init.visitor.id);
+
+    return jsonResponse({ success: true, errors: [], result: scriptData });
+  }
+
+  /**
+   * Like the edge, routes whose segments don't match the visitor are skipped
+   * as if their path didn't match.
+   */
+  private _matchRoute(init: EmulatedEventInit, url: URL): RouteMatch<EmulatedRoute> | null {
+    const event = toSegmentEvent(init, url);
+    const routes = this._config.routes.filter((route) => matchesAnySegment(route.segments, event));
+    return matchRoute(routes, url.pathname);
+  }
+
+  private _matchOverrides(
+    init: EmulatedEventInit,
+    match: RouteMatch<EmulatedRoute> | null,
+    url: string,
+  ): EmulatedOverride[] {
+    const event = toSegmentEvent(init, new URL(url));
+    return (match?.route.overrides ?? []).filter((override) => matchesAnySegment(override.segments, event));
+  }
+
+  private async _handleMessageBus(init: EmulatedEventInit): Promise<Response> {
+    // Dropped without telling the client, the same as botPolicy() does
+    if (isPersonalizationSkipped(init)) {
+      return new Response(null, { status: 204 });
+    }
+
+    let body: unknown;
+
+    try {
+      body = JSON.parse(await init.request.text());
+    } catch (e) {
+      return jsonResponse({ success: false, errors: [`Malformed message bus body: ${e.message}`], result: null }, 400);
+    }
+
+    const bodyError = getMessageBusBodyError(body);
+    if (bodyError) {
+      return jsonResponse({ success: false, errors: [`Malformed message bus body: ${bodyError}`], result: null }, 400);
+    }
+    const messages = body as MessageFromClient[];
+
+    for (const { type, data, meta } of messages) {
+      // Clients send messages again when they can't tell whether they were
+      // delivered, so ones already seen are ignored.
+      if (meta?.id) {
+        if (this._seenMessageIds.has(meta.id)) {
+          continue;
+        }
+        this._rememberMessageId(meta.id);
+      }
+      // Anything sent to this endpoint came from this visitor's browser, whatever
+      // it says. Clients that predate meta get it here instead.
+      this._messageBus.emitFromClient(type, data, {
+        ...(meta ?? this._messageBus.createMessageMeta()),
+        origin: 'client',
+        visitorId: init.visitor.id,
+      });
+    }
+
+    // Beacons can't read the response, so their messages wait for the next one.
+    if (!init.request.headers.has(RECEIVE_MESSAGES_HEADER)) {
+      return jsonResponse({ success: true, errors: [], result: null });
+    }
+    return jsonResponse({
+      success: true,
+      errors: [],
+      result: { messages: this._takeMessagesToClient(init.visitor.id) },
+    });
+  }
+
+  private _sendToClient(visitorId: string, type: string, data: unknown): void {
+    const messages = this._messagesToClient.get(visitorId) ?? [];
+    messages.push({ type, data, meta: this._messageBus.createMessageMeta() });
+    if (messages.length > MAX_MESSAGES_TO_CLIENT) {
+      messages.shift();
+    }
+    this._messagesToClient.set(visitorId, messages);
+  }
+
+  private _takeMessagesToClient(visitorId: string): EmulatedClientMessage[] {
+    const messages = this._messagesToClient.get(visitorId) ?? [];
+    this._messagesToClient.delete(visitorId);
+    return messages;
+  }
+
+  private _rememberMessageId(id: string): void {
+    this._seenMessageIds.add(id);
+    if (this._seenMessageIds.size > MAX_SEEN_MESSAGE_IDS) {
+      this._seenMessageIds.delete(this._seenMessageIds.values().next().value);
+    }
+  }
+
+  private async _runOverrides(
+    init: EmulatedEventInit,
+    html: string,
+    overrides: EmulatedOverride[],
+  ): Promise<OutsmartlyScriptData> {
+    const results: { [scope: string]: string } = {};
+    const argsByScope = findComponentArgs(html);
+
+    for (const [scope, args] of argsByScope) {
+      for (const override of overrides) {
+        if (override.component !== scope) {
+          continue;
+        }
+
+        const title = override.name ?? override.component;
+        const event = new EmulatedOverrideEvent(init, title, args);
+
+        try {
+          const result = await override.getOverrideProps(event);
+          if (result) {
+            results[scope] = JSON.stringify(result);
+          }
+        } catch (e) {
+          event.error(`Uncaught error in getOverrideProps()`, e?.stack ?? e);
+        }
+      }
+    }
+
+    return createScriptData(results, init.logs);
+  }
+
+  private async _fetchOrigin(request: EmulatedRequest): Promise<Response> {
+    const incomingUrl = new URL(request.url);
+    const originUrl = new URL(`${incomingUrl.pathname}${incomingUrl.search}`, this._options.origin);
+    const headers = new Headers(request.headers);
+    // node-fetch will provide the correct one for the origin
+    headers.delete('host');
+
+    return await fetch(originUrl.href, {
+      method: request.method,
+      headers,
+      body:
+        request.method === 'GET' || request.method === 'HEAD' ? undefined : Buffer.from(await request.arrayBuffer()),
+      redirect: 'manual',
+    });
+  }
+
+  private async _createRequest(req: IncomingMessage, url: URL): Promise<EmulatedRequest> {
+    const headers = new Headers();
+    for (const [key, value] of Object.entries(req.headers)) {
+      if (Array.isArray(value)) {
+        value.forEach((v) => headers.append(key, v));
+      } else if (value !== undefined) {
+        headers.set(key, value);
+      }
+    }
+
+    let body: Buffer | undefined;
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      const chunks: Buffer[] = [];
+      for await (const chunk of req) {
+        chunks.push(chunk);
+      }
+      body = Buffer.concat(chunks);
+    }
+
+    const request = new Request(url.href, { method: req.method, headers, body });
+    return toEmulatedRequest(request, { id: randomBytes(8).toString('hex'), params: {} });
+  }
+
+  private _createVisitor(req: IncomingMessage, cookies: OutsmartlyCookies): EmulatedVisitor {
+    let id = cookies.get(SESSION_COOKIE_NAME);
+    if (!id) {
+      id = randomBytes(16).toString('hex');
+      // Not HttpOnly, the client-side MessageBus reads it.
+      cookies.set(SESSION_COOKIE_NAME, id, { path: '/', sameSite: 'Lax', maxAge: 60 * 60 * 24 * 365 });
+    }
+
+    return {
+      id,
+      ipAddress: req.socket.remoteAddress ?? '127.0.0.1',
+      clientTcpRtt: 0,
+      httpProtocol: `HTTP/${req.httpVersion}`,
+      country: 'US',
+      timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      deviceType: guessDeviceType(req.headers['user-agent']),
+      bot: {
+        verified: false,
+        score: 0,
+      },
+      asn: 0,
+      ...this._options.visitor,
+      profile: createVisitorProfile(id, this._visitorProfileStore, this._config.visitorProfile),
+    };
+  }
+
+  private _waitUntil(promise: Promise<unknown> | void): void {
+    Promise.resolve(promise).catch((e) => {
+      console.error(chalk.red('Uncaught error in a promise passed to waitUntil()'));
+      console.error(e);
+    });
+  }
+
+  private async _writeResponse(res: ServerResponse, response: Response, cookies: OutsmartlyCookies): Promise<void> {
+    res.statusCode = response.status;
+
+    for (const [key, values] of Object.entries(response.headers.raw())) {
+      if (!SKIPPED_RESPONSE_HEADERS.has(key)) {
+        res.setHeader(key, values);
+      }
+    }
+
+    // Some may already be on the response, if the config used cookies.applyTo().
+    const existing = response.headers.raw()['set-cookie'] ?? [];
+    const setCookieHeaders = cookies.toSetCookieHeaders().filter((header) => !existing.includes(header));
+    if (setCookieHeaders.length) {
+      res.setHeader('set-cookie', [...existing, ...setCookieHeaders]);
+    }
+
+    res.end(Buffer.from(await response.arrayBuffer()));
+  }
+}
+
+function toEmulatedRequest(request: Request, outsmartly: EmulatedRequest['outsmartly']): EmulatedRequest {
+  const emulatedRequest = request as EmulatedRequest;
+  emulatedRequest.outsmartly = (request as Partial<EmulatedRequest>).outsmartly ?? { ...outsmartly };
+  return emulatedRequest;
+}
+
+/**
+ * Why the body isn't a list of messages, or null if it is. `data` can be
+ * missing, since JSON drops undefined.
+ */
+function getMessageBusBodyError(body: unknown): string | null {
+  if (!Array.isArray(body)) {
+    return 'expected an array of messages';
+  }
+  for (const [index, message] of body.entries()) {
+    if (typeof message !== 'object' || message === null || Array.isArray(message)) {
+      return `message ${index} is not an object`;
+    }
+    if (typeof message.type !== 'string') {
+      return `message ${index} has no type`;
+    }
+    if (message.meta !== undefined && (typeof message.meta !== 'object' || message.meta === null)) {
+      return `the meta of message ${index} is not an object`;
+    }
+  }
+  return null;
+}
+
+function getEndpoint(url: URL, method: string): 'messageBus' | 'overrides' | null {
+  if (url.pathname === MESSAGE_BUS_PATH && method === 'POST') {
+    return 'messageBus';
+  }
+  if (url.pathname === OVERRIDES_PATH) {
+    return 'overrides';
+  }
+  return null;
+}
+
+function toSegmentEvent(init: EmulatedEventInit, url: URL): SegmentEvent {
+  return { visitor: init.visitor, cookies: init.cookies, url };
+}
+
+function createScriptData(overrides: { [scope: string]: string }, logs: EdgeLogMessage[]): OutsmartlyScriptData {
+  return {
+    minFormatVersion: SCRIPT_DATA_FORMAT_VERSION,
+    overrides,
+    logs,
+    endpoints: {
+      overrides: OVERRIDES_PATH,
+    },
+  };
+}
+
+const COMPONENT_MARKER_REGEX = /<script[^>]*data-outsmartly-component="([^"]+)"[^>]*>([\s\S]*?)<\/script>/g;
+
+/**
+ * Finds the component arguments serialized by the SDK's markers. When a
+ * component is rendered more than once, only the first instance is used
+ * since overrides are keyed by scope.
+ */
+function findComponentArgs(html: string): Map<string, unknown[]> {
+  const argsByScope = new Map<string, unknown[]>();
+
+  for (const [, scope, json] of html.matchAll(COMPONENT_MARKER_REGEX)) {
+    if (argsByScope.has(scope)) {
+      continue;
+    }
+
+    try {
+      const { args = [] } = JSON.parse(json);
+      argsByScope.set(scope, args);
+    } catch (e) {
+      console.warn(chalk.yellow(`Unable to parse the arguments for component ${scope}: ${e.message}`));
+    }
+  }
+
+  return argsByScope;
+}
+
+const SCRIPT_DATA_REGEX = /<script id="__OUTSMARTLY_DATA__"[^>]*>[\s\S]*?<\/script>/;
+
+function injectScriptData(html: string, scriptData: OutsmartlyScriptData): string {
+  const json = JSON.stringify(scriptData).replace(/[&><\u2028\u2029]/g, (match) => {
+    return `\\u${match.charCodeAt(0).toString(16).padStart(4, '0')}`;
+  });
+  const script = `<script id="__OUTSMARTLY_DATA__" type="application/json">${json}</script>`;
+
+  if (SCRIPT_DATA_REGEX.test(html)) {
+    return html.replace(SCRIPT_DATA_REGEX, () => script);
+  }
+
+  return html.replace(/<\/body>/i, () => `${script}</body>`);
+}
+
+function guessDeviceType(userAgent?: string): EmulatedVisitor['deviceType'] {
+  if (!userAgent) {
+    return undefined;
+  }
+  if (/iPad|Tablet/i.test(userAgent)) {
+    return 'tablet';
+  }
+  if (/Mobi|Android/i.test(userAgent)) {
+    return 'mobile';
+  }
+  return 'desktop';
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json' },
+  });
+}
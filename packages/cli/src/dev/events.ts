@@ -0,0 +1,247 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import chalk from 'chalk';
+import { URL } from 'url';
+import { Request } from 'node-fetch';
+import {
+  MessageBus,
+  MessageBusListener,
+  MessageBusMessage,
+  MessageBusMessageMeta,
+  MessageBusOptions,
+  OutsmartlyCookies,
+  OutsmartlyEvent,
+  OutsmartlyReadonlyCookies,
+  VisitorProfile,
+} from '@outsmartly/core';
+
+export interface EdgeLogMessage {
+  type: 'log' | 'warn' | 'error';
+  originator: 'system' | 'override';
+  args: any[];
+  title?: string;
+}
+
+export interface EmulatedVisitor {
+  id: string;
+  ipAddress: string;
+  clientTcpRtt: number;
+  httpProtocol: string;
+  country: string;
+  timezone?: string;
+  deviceType?: 'desktop' | 'mobile' | 'tablet';
+  bot: {
+    verified: boolean;
+    score: number;
+  };
+  asn: number;
+  profile: VisitorProfile;
+}
+
+export type EmulatedRequest = Request & {
+  outsmartly: {
+    id: string;
+    params: { [key: string]: string };
+  };
+};
+
+/**
+ * The request a message is emitted during, so that listeners get its
+ * visitor, like they do at the edge.
+ */
+export interface EmulatedMessageContext {
+  visitor: EmulatedVisitor;
+  cookies: OutsmartlyReadonlyCookies;
+  sendToClient(type: string, data: unknown): void;
+}
+
+/**
+ * Core's MessageBus, the way the edge runs it: the built-in message types
+ * are validated the same as the config's, and messages are only written to
+ * the store when they're flushed, which the emulator does after every request.
+ */
+export class EmulatedMessageBus extends MessageBus {
+  private _contexts = new AsyncLocalStorage<EmulatedMessageContext>();
+  // The meta the client sent with the message being emitted by emitFromClient()
+  private _clientMeta: MessageBusMessageMeta | null = null;
+
+  constructor(private _onWaitUntil: (promise: Promise<unknown> | void) => void, options?: MessageBusOptions) {
+    super(options);
+  }
+
+  /**
+   * Runs the callback with the context, so messages emitted by it, even
+   * after awaiting, are delivered to listeners with the request's visitor.
+   */
+  runInContext<R>(context: EmulatedMessageContext, callback: () => R): R {
+    return this._contexts.run(context, callback);
+  }
+
+  /**
+   * Emits a message sent by the client, keeping the meta it sent.
+   */
+  emitFromClient(type: string, data: unknown, meta: MessageBusMessageMeta): this {
+    this._clientMeta = meta;
+    try {
+      return this.emit(type, data);
+    } finally {
+      this._clientMeta = null;
+    }
+  }
+
+  createMessageMeta(): MessageBusMessageMeta {
+    return this._createMessageMeta();
+  }
+
+  protected override _createMessageMeta(): MessageBusMessageMeta {
+    const clientMeta = this._clientMeta;
+    if (clientMeta) {
+      // Only once, so messages its listeners emit get their own. It's kept
+      // if the message is quarantined, since that's still the same message.
+      this._clientMeta = null;
+      return clientMeta;
+    }
+    // Messages emitted while handling a request are that visitor's, so they're stored and can be queried.
+    return { ...super._createMessageMeta(), visitorId: this._contexts.getStore()?.visitor.id };
+  }
+
+  // The edge has nowhere else to send messages, they're only written to the store.
+  protected override async _writeToExternal(): Promise<void> {}
+
+  protected override _waitUntil(promise: Promise<unknown> | void): void {
+    this._onWaitUntil(promise);
+  }
+
+  protected override _notifyListener(
+    listener: MessageBusListener<EmulatedMessageEvent>,
+    message: MessageBusMessage<string, unknown>,
+  ): void {
+    // Already isolated by MessageBus, so this never throws or rejects.
+    this._onWaitUntil(listener(new EmulatedMessageEvent(this, message, this._contexts.getStore())));
+  }
+}
+
+/**
+ * A stand-in for OutsmartlyEdgeMessageEvent.
+ */
+export class EmulatedMessageEvent extends OutsmartlyEvent {
+  declare type: 'outsmartlyedgemessage';
+  cookies: OutsmartlyReadonlyCookies;
+
+  constructor(
+    public override messageBus: EmulatedMessageBus,
+    public message: MessageBusMessage<string, unknown>,
+    private _context?: EmulatedMessageContext,
+  ) {
+    super('outsmartlyedgemessage');
+    this.cookies = _context?.cookies ?? new OutsmartlyReadonlyCookies(null);
+  }
+
+  get visitor(): EmulatedVisitor {
+    if (!this._context) {
+      throw new Error(`'${this.message.type}' was emitted outside of a request, so it has no visitor`);
+    }
+    return this._context.visitor;
+  }
+
+  sendToClient(type: string, data: unknown): void {
+    if (!this._context) {
+      console.warn(
+        chalk.yellow(
+          `sendToClient('${type}') was called for a message emitted outside of a request, which has no visitor to send it to`,
+        ),
+      );
+      return;
+    }
+    this._context.sendToClient(type, data);
+  }
+}
+
+export interface EmulatedEventInit {
+  request: EmulatedRequest;
+  visitor: EmulatedVisitor;
+  cookies: OutsmartlyCookies;
+  messageBus: EmulatedMessageBus;
+  state: { [key: string]: unknown };
+  logs: EdgeLogMessage[];
+  waitUntil(promise: Promise<unknown>): void;
+  sendToClient(type: string, data: unknown): void;
+}
+
+/**
+ * A stand-in for OutsmartlyEdgeRequestEvent. Logs are printed to the terminal
+ * and also collected, so they can be reported to the browser the same way the
+ * edge does.
+ */
+export class EmulatedRequestEvent {
+  constructor(
+    public type: 'outsmartlymiddleware' | 'outsmartlyintercept' | 'outsmartlyoverride',
+    protected _init: EmulatedEventInit,
+    protected _title?: string,
+  ) {}
+
+  get messageBus(): EmulatedMessageBus {
+    return this._init.messageBus;
+  }
+
+  get visitor(): EmulatedVisitor {
+    return this._init.visitor;
+  }
+
+  get request(): EmulatedRequest {
+    return this._init.request;
+  }
+
+  get url(): URL {
+    return new URL(this._init.request.url);
+  }
+
+  get state(): { [key: string]: unknown } {
+    return this._init.state;
+  }
+
+  get cookies(): OutsmartlyCookies {
+    return this._init.cookies;
+  }
+
+  waitUntil(promise: Promise<unknown>): void {
+    this._init.waitUntil(promise);
+  }
+
+  sendToClient(type: string, data: unknown): void {
+    this._init.sendToClient(type, data);
+  }
+
+  log(...args: any[]): void {
+    this._report('log', args);
+  }
+
+  warn(...args: any[]): void {
+    this._report('warn', args);
+  }
+
+  error(...args: any[]): void {
+    this._report('error', args);
+  }
+
+  private _report(type: EdgeLogMessage['type'], args: any[]): void {
+    const originator = this.type === 'outsmartlyoverride' ? 'override' : 'system';
+    this._init.logs.push({ type, originator, args, title: this._title });
+
+    let prefix = `[Outsmartly ${originator.toUpperCase()}]`;
+    if (this._title) {
+      prefix += ` ${this._title}:`;
+    }
+    const color = type === 'error' ? chalk.red : type === 'warn' ? chalk.yellow : chalk.dim;
+    console[type](color(prefix), ...args);
+  }
+}
+
+export class EmulatedOverrideEvent extends EmulatedRequestEvent {
+  constructor(init: EmulatedEventInit, title: string, private _componentArguments: unknown[]) {
+    super('outsmartlyoverride', init, title);
+  }
+
+  async getComponentArguments<R extends unknown[]>(): Promise<R> {
+    return this._componentArguments as R;
+  }
+}
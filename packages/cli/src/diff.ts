@@ -0,0 +1,233 @@
+import chalk from 'chalk';
+import { Analysis, ConfigSnapshot } from './api';
+
+export interface DiffEntry {
+  kind: 'added' | 'removed' | 'changed';
+  // What changed, e.g. a route's path or a component's scope
+  name: string;
+  // For changes, which parts of it changed
+  details?: string[];
+}
+
+export interface DeploymentDiff {
+  environments: DiffEntry[];
+  plugins: DiffEntry[];
+  middleware: DiffEntry[];
+  routes: DiffEntry[];
+  overrides: DiffEntry[];
+  components: DiffEntry[];
+  vfs: DiffEntry[];
+}
+
+export interface DeploymentSnapshot {
+  // Null for deployments made before their config was snapshotted
+  config: ConfigSnapshot | null;
+  analysis: Analysis;
+}
+
+const DIFF_SECTIONS: { key: keyof DeploymentDiff; title: string }[] = [
+  { key: 'environments', title: 'Environments' },
+  { key: 'plugins', title: 'Plugins' },
+  { key: 'middleware', title: 'Middleware' },
+  { key: 'routes', title: 'Routes' },
+  { key: 'overrides', title: 'Overrides' },
+  { key: 'components', title: 'Analyzed components' },
+  { key: 'vfs', title: 'Files' },
+];
+
+const EMPTY_SNAPSHOT: DeploymentSnapshot = {
+  config: {},
+  analysis: { components: {}, vfs: {} },
+};
+
+/**
+ * Snapshots an evaluated config, so it can be deployed along with it and
+ * compared later without running the config's code.
+ */
+export function snapshotConfig(config: unknown): ConfigSnapshot {
+  return JSON.parse(serialize(config) ?? '{}');
+}
+
+/**
+ * Compares what would be deployed against what is live. Functions are
+ * compared by their source, since that's all a snapshot has of them.
+ * When nothing is live yet, `live` is null and everything is added. When
+ * the live config wasn't snapshotted, only the analysis is compared.
+ */
+export function diffDeployments(live: DeploymentSnapshot | null, next: DeploymentSnapshot): DeploymentDiff {
+  const prev = live ?? EMPTY_SNAPSHOT;
+  const diffConfig = (key: (config: any) => Keyed): DiffEntry[] =>
+    prev.config && next.config ? diffByKey(key(prev.config), key(next.config)) : [];
+
+  return {
+    environments: diffConfig(keyEnvironments),
+    plugins: diffConfig(keyPlugins),
+    middleware: diffConfig(keyMiddleware),
+    routes: diffConfig(keyRoutes),
+    overrides: diffConfig(keyOverrides),
+    components: diffByKey(prev.analysis.components ?? {}, next.analysis.components ?? {}),
+    vfs: diffFiles(prev.analysis.vfs ?? {}, next.analysis.vfs ?? {}),
+  };
+}
+
+export function hasChanges(diff: DeploymentDiff): boolean {
+  return DIFF_SECTIONS.some(({ key }) => diff[key].length > 0);
+}
+
+export function formatDeploymentDiff(diff: DeploymentDiff): string {
+  if (!hasChanges(diff)) {
+    return chalk.dim('No changes.');
+  }
+
+  const lines: string[] = [];
+
+  for (const { key, title } of DIFF_SECTIONS) {
+    const entries = diff[key];
+    if (entries.length === 0) {
+      continue;
+    }
+
+    lines.push(chalk.bold(title));
+    for (const { kind, name, details } of entries) {
+      const suffix = details?.length ? chalk.dim(` (${details.join(', ')})`) : '';
+      switch (kind) {
+        case 'added':
+          lines.push(chalk.green(`  + ${name}`) + suffix);
+          break;
+        case 'removed':
+          lines.push(chalk.red(`  - ${name}`) + suffix);
+          break;
+        case 'changed':
+          lines.push(chalk.yellow(`  ~ ${name}`) + suffix);
+          break;
+      }
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n').trimEnd();
+}
+
+type Keyed = { [name: string]: unknown };
+
+function diffByKey(prev: Keyed, next: Keyed): DiffEntry[] {
+  const entries: DiffEntry[] = [];
+
+  for (const [name, value] of Object.entries(next)) {
+    if (!(name in prev)) {
+      entries.push({ kind: 'added', name });
+      continue;
+    }
+    const details = changedFields(prev[name], value);
+    if (details) {
+      entries.push({ kind: 'changed', name, details });
+    }
+  }
+
+  for (const name of Object.keys(prev)) {
+    if (!(name in next)) {
+      entries.push({ kind: 'removed', name });
+    }
+  }
+
+  return entries;
+}
+
+function diffFiles(prev: { [path: string]: string }, next: { [path: string]: string }): DiffEntry[] {
+  return diffByKey(prev, next).map((entry) => {
+    if (entry.kind !== 'changed') {
+      return entry;
+    }
+    const prevLines = prev[entry.name].split('\n').length;
+    const nextLines = next[entry.name].split('\n').length;
+    return { ...entry, details: [`${prevLines} → ${nextLines} lines`] };
+  });
+}
+
+/**
+ * Returns null when both are the same, otherwise the names of the fields
+ * that differ. Values that aren't objects just report that they changed.
+ */
+function changedFields(prev: unknown, next: unknown): string[] | null {
+  if (serialize(prev) === serialize(next)) {
+    return null;
+  }
+  if (!isPlainObject(prev) || !isPlainObject(next)) {
+    return [];
+  }
+
+  const fields = new Set([...Object.keys(prev), ...Object.keys(next)]);
+  return Array.from(fields).filter((field) => serialize(prev[field]) !== serialize(next[field]));
+}
+
+function keyEnvironments(config: any): Keyed {
+  const keyed: Keyed = {};
+  for (const env of config.environments ?? []) {
+    keyed[env.name] = env;
+  }
+  return keyed;
+}
+
+function keyPlugins(config: any): Keyed {
+  const keyed: Keyed = {};
+  for (const plugin of config.plugins ?? []) {
+    keyed[plugin.name] = plugin;
+  }
+  return keyed;
+}
+
+// Middleware order matters, so they're compared by position.
+function keyMiddleware(config: any): Keyed {
+  const keyed: Keyed = {};
+  (config.middleware ?? []).forEach((fn: FunctionSnapshot, i: number) => {
+    keyed[`middleware[${i}]${fn.name ? ` ${fn.name}` : ''}`] = fn;
+  });
+  return keyed;
+}
+
+// Overrides are compared on their own, so leave them out of their route.
+function keyRoutes(config: any): Keyed {
+  const keyed: Keyed = {};
+  for (const { overrides, ...route } of config.routes ?? []) {
+    keyed[String(route.path)] = route;
+  }
+  return keyed;
+}
+
+function keyOverrides(config: any): Keyed {
+  const keyed: Keyed = {};
+  for (const route of config.routes ?? []) {
+    for (const override of route.overrides ?? []) {
+      keyed[`${String(route.path)} › ${override.name ?? override.component}`] = override;
+    }
+  }
+  return keyed;
+}
+
+// Snapshots keep a function's name too, which is lost from the source of e.g. `const auth = () => {}`
+interface FunctionSnapshot {
+  name: string;
+  source: string;
+}
+
+function serialize(value: unknown): string | undefined {
+  return JSON.stringify(value, (_key, value) => {
+    if (typeof value === 'function') {
+      const snapshot: FunctionSnapshot = { name: value.name, source: String(value) };
+      return snapshot;
+    }
+    if (isRegExp(value)) {
+      return String(value);
+    }
+    return value;
+  });
+}
+
+function isPlainObject(value: unknown): value is { [key: string]: unknown } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !isRegExp(value);
+}
+
+// The config is evaluated in its own V8 context, so instanceof RegExp won't work.
+function isRegExp(value: unknown): value is RegExp {
+  return Object.prototype.toString.call(value) === '[object RegExp]';
+}
@@ -0,0 +1,75 @@
+import { URL } from 'url';
+import { Environment } from './api';
+
+// Used by commands that take an environment, when none is given.
+export const DEFAULT_ENVIRONMENT_NAME = 'production';
+
+/**
+ * Finds the environment with the given name in an evaluated config, and makes
+ * sure it (and its siblings) are well-formed before we use its origin.
+ */
+export function findEnvironment(config: unknown, name: string, configPath: string): Environment {
+  const environments = isObject(config) ? config.environments : undefined;
+
+  if (!Array.isArray(environments) || environments.length === 0) {
+    throw new Error(`Missing 'environments' field in ${configPath}, at least one environment is required.`);
+  }
+
+  const seenNames = new Set<string>();
+
+  for (const env of environments) {
+    if (!isObject(env) || typeof env.name !== 'string' || env.name.trim() === '') {
+      throw new Error(`Every environment in ${configPath} must have a 'name'.`);
+    }
+    if (seenNames.has(env.name)) {
+      throw new Error(`More than one environment named '${env.name}' was found in ${configPath}`);
+    }
+    seenNames.add(env.name);
+  }
+
+  const environment: { [key: string]: unknown } | undefined = environments.find((env) => env.name === name);
+
+  if (!environment) {
+    const names = Array.from(seenNames)
+      .map((name) => `'${name}'`)
+      .join(', ');
+    throw new Error(`No environment named '${name}' was found in ${configPath}. Available environments: ${names}`);
+  }
+
+  const originProblem = describeOriginProblem(environment.origin);
+  if (originProblem !== null || typeof environment.origin !== 'string') {
+    throw new Error(`Invalid environment '${name}' in ${configPath}: ${originProblem}`);
+  }
+
+  return { name, origin: environment.origin };
+}
+
+/**
+ * Describes what is wrong with an environment's origin, if anything.
+ */
+export function describeOriginProblem(origin: unknown): string | null {
+  if (typeof origin !== 'string' || origin === '') {
+    return "'origin' must be a URL, e.g. 'https://my-site.vercel.app'";
+  }
+
+  let url: URL;
+  try {
+    url = new URL(origin);
+  } catch (e) {
+    return `'${origin}' is not a valid URL, e.g. 'https://my-site.vercel.app'`;
+  }
+
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    return `'${origin}' must start with https:// or http://`;
+  }
+
+  if (url.pathname !== '/' || url.search || url.hash) {
+    return `'${origin}' must not include a path`;
+  }
+
+  return null;
+}
+
+function isObject(value: unknown): value is { [key: string]: unknown } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,129 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { Deployment, DeploymentWithConfig } from '../api';
+
+export interface MockApiRequest {
+  method: string;
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+export interface MockApiServer {
+  origin: string;
+  // Every request received, oldest first
+  requests: MockApiRequest[];
+  // Deployments returned by the API, newest first, like the real one
+  deployments: DeploymentWithConfig[];
+  close(): Promise<void>;
+}
+
+/**
+ * A local stand-in for the Outsmartly API, with just enough of
+ * /sites/:host/deployments and PATCH /sites/:host to test the commands that
+ * use them. Point the CLI at it with OUTSMARTLY_API_ORIGIN before importing
+ * api.ts, since the origin is read once.
+ */
+export async function startMockApiServer(): Promise<MockApiServer> {
+  const requests: MockApiRequest[] = [];
+  const deployments: DeploymentWithConfig[] = [];
+
+  const server = http.createServer(async (req, res) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk);
+    }
+    const text = Buffer.concat(chunks).toString();
+    const body = text ? JSON.parse(text) : null;
+    const url = new URL(req.url!, 'http://localhost');
+    requests.push({ method: req.method!, url: req.url!, headers: req.headers, body });
+
+    const reply = (status: number, body: { success: boolean; errors: string[]; result: unknown }) => {
+      res.statusCode = status;
+      res.setHeader('content-type', 'application/json');
+      res.end(JSON.stringify(body));
+    };
+    const notFound = (message: string) => reply(404, { success: false, errors: [message], result: null });
+
+    if (req.headers.authorization !== 'Bearer test-token') {
+      reply(401, { success: false, errors: ['Invalid access token.'], result: null });
+      return;
+    }
+
+    const [, sites, host, collection, id, ...rest] = url.pathname.split('/');
+    if (sites !== 'sites' || !host || rest.length > 0) {
+      notFound(`No route for ${req.method} ${url.pathname}`);
+      return;
+    }
+
+    const deploymentsOfHost = deployments.filter((deployment) => deployment.host === host);
+
+    if (req.method === 'PATCH' && collection === undefined) {
+      const { configRaw } = body;
+      reply(200, {
+        success: true,
+        errors: [],
+        result: {
+          id: 'site',
+          host,
+          name: host,
+          configRaw,
+          workerId: 'worker',
+          createdAt: '',
+          updatedAt: '',
+          userIds: [],
+        },
+      });
+      return;
+    }
+
+    if (req.method === 'GET' && collection === 'deployments' && id === undefined) {
+      const environment = url.searchParams.get('environment');
+      const limit = Number(url.searchParams.get('limit') ?? Infinity);
+      const result: Deployment[] = deploymentsOfHost
+        .filter((deployment) => !environment || deployment.environment.name === environment)
+        .slice(0, limit)
+        .map(({ configRaw, configSnapshot, analysis, ...deployment }) => deployment);
+      reply(200, { success: true, errors: [], result });
+      return;
+    }
+
+    if (req.method === 'GET' && collection === 'deployments') {
+      const deployment = deploymentsOfHost.find((deployment) => deployment.id === decodeURIComponent(id));
+      if (!deployment) {
+        notFound(`No deployment ${decodeURIComponent(id)} for ${host}.`);
+        return;
+      }
+      reply(200, { success: true, errors: [], result: deployment });
+      return;
+    }
+
+    notFound(`No route for ${req.method} ${url.pathname}`);
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    origin: `http://127.0.0.1:${port}`,
+    requests,
+    deployments,
+    close: () => new Promise((resolve, reject) => server.close((err) => (err ? reject(err) : resolve()))),
+  };
+}
+
+export function createTestDeployment(overrides: Partial<DeploymentWithConfig> = {}): DeploymentWithConfig {
+  return {
+    id: 'dep_1',
+    host: 'example.outsmartly.app',
+    environment: { name: 'production', origin: 'https://example.com' },
+    configHash: '0123456789abcdef0123',
+    author: { id: 'user_1', name: 'Ada Lovelace', email: 'ada@example.com' },
+    createdAt: '2021-08-01T12:00:00.000Z',
+    rollbackOf: null,
+    configRaw: 'export default { host: "example.outsmartly.app" };',
+    configSnapshot: { host: 'example.outsmartly.app' },
+    analysis: { components: {}, vfs: {} },
+    ...overrides,
+  };
+}
@@ -0,0 +1,8 @@
+// Jest's node environment doesn't have these, but Node and the edge do, and core needs them.
+import 'event-target-polyfill';
+import { atob, btoa } from 'buffer';
+import { webcrypto } from 'crypto';
+import { Headers, Request, Response } from 'node-fetch';
+
+// Core's middleware and cookies, like botPolicy() and setSigned(), use the edge's globals.
+Object.assign(globalThis, { Headers, Request, Response, crypto: webcrypto, atob, btoa });
@@ -0,0 +1,419 @@
+import chalk from 'chalk';
+import { describeOriginProblem } from './environment';
+
+export interface ConfigProblem {
+  severity: 'error' | 'warning';
+  // Where in the config the problem is, e.g. 'routes[2].overrides[0].component'
+  location: string;
+  message: string;
+}
+
+export class ConfigValidationError extends Error {
+  constructor(public configPath: string, public problems: ConfigProblem[]) {
+    super(`Invalid Outsmartly config ${configPath}`);
+    this.name = 'ConfigValidationError';
+  }
+}
+
+const KNOWN_CONFIG_FIELDS = [
+  'host',
+  'environments',
+  'plugins',
+  'middleware',
+  'routes',
+  'messageBus',
+  'visitorProfile',
+  'cookies',
+  'tmpDir',
+];
+const KNOWN_MESSAGE_BUS_FIELDS = [
+  'messageTypes',
+  'invalidMessages',
+  'flushInterval',
+  'maxBatchSize',
+  'maxBufferLength',
+  'overflow',
+  'store',
+];
+const INVALID_MESSAGES_OPTIONS = ['reject', 'quarantine'];
+const OVERFLOW_OPTIONS = ['drop-oldest', 'drop-newest'];
+const KNOWN_VISITOR_PROFILE_FIELDS = ['store', 'ttl', 'maxBytes'];
+const KNOWN_ROUTE_FIELDS = ['path', 'segments', 'middleware', 'intercept', 'overrides'];
+const KNOWN_OVERRIDE_FIELDS = ['name', 'component', 'segments', 'getOverrideProps'];
+
+/**
+ * Checks an evaluated config against what the edge expects. Errors will
+ * break at the edge, warnings are almost certainly mistakes but won't.
+ */
+export function validateOutsmartlyConfig(config: unknown): ConfigProblem[] {
+  const problems: ConfigProblem[] = [];
+  const error = (location: string, message: string) => problems.push({ severity: 'error', location, message });
+  const warning = (location: string, message: string) => problems.push({ severity: 'warning', location, message });
+
+  if (!isObject(config)) {
+    error('default', 'The config file must `export default` an object.');
+    return problems;
+  }
+
+  for (const key of Object.keys(config)) {
+    if (!KNOWN_CONFIG_FIELDS.includes(key)) {
+      warning(key, `Unknown field '${key}', it will be ignored.`);
+    }
+  }
+
+  validateHost(config.host, error);
+  validateEnvironments(config.environments, error);
+  validatePlugins(config.plugins, error);
+  validateMiddleware(config.middleware, 'middleware', error);
+  validateRoutes(config.routes, error, warning);
+  validateMessageBus(config.messageBus, error, warning);
+  validateVisitorProfile(config.visitorProfile, error, warning);
+  validateCookies(config.cookies, error, warning);
+
+  return problems;
+}
+
+type Report = (location: string, message: string) => void;
+
+function validateHost(host: unknown, error: Report): void {
+  if (host === undefined) {
+    error('host', "Missing 'host' field, e.g. 'example.outsmartly.app'");
+    return;
+  }
+  if (typeof host !== 'string' || host.trim() === '') {
+    error('host', "'host' must be a non-empty string, e.g. 'example.outsmartly.app'");
+    return;
+  }
+  if (/^[a-z]+:\/\//i.test(host) || /[/?#\s]/.test(host)) {
+    error('host', `'host' must be only the domain, without a protocol or path, e.g. 'example.outsmartly.app'`);
+  }
+}
+
+function validateEnvironments(environments: unknown, error: Report): void {
+  if (!Array.isArray(environments)) {
+    error('environments', "'environments' must be an array, with at least one environment.");
+    return;
+  }
+  if (environments.length === 0) {
+    error('environments', "'environments' is empty, at least one environment is required.");
+    return;
+  }
+
+  const seenNames = new Set<string>();
+
+  environments.forEach((env: unknown, i) => {
+    const location = `environments[${i}]`;
+    if (!isObject(env)) {
+      error(location, 'Each environment must be an object with a name and an origin.');
+      return;
+    }
+
+    if (typeof env.name !== 'string' || env.name.trim() === '') {
+      error(`${location}.name`, "'name' must be a non-empty string, e.g. 'production'");
+    } else if (seenNames.has(env.name)) {
+      error(`${location}.name`, `More than one environment is named '${env.name}'`);
+    } else {
+      seenNames.add(env.name);
+    }
+
+    const originProblem = describeOriginProblem(env.origin);
+    if (originProblem) {
+      error(`${location}.origin`, originProblem);
+    }
+  });
+}
+
+function validatePlugins(plugins: unknown, error: Report): void {
+  if (plugins === undefined) {
+    return;
+  }
+  if (!Array.isArray(plugins)) {
+    error('plugins', "'plugins' must be an array.");
+    return;
+  }
+
+  plugins.forEach((plugin: unknown, i) => {
+    const location = `plugins[${i}]`;
+    if (!isObject(plugin)) {
+      error(location, 'Each plugin must be an object. Did you forget to call the plugin function?');
+      return;
+    }
+    if (typeof plugin.name !== 'string' || plugin.name.trim() === '') {
+      error(`${location}.name`, "'name' must be a non-empty string.");
+    }
+    if (plugin.setup !== undefined && typeof plugin.setup !== 'function') {
+      error(`${location}.setup`, "'setup' must be a function.");
+    }
+    validateMessageTypes(plugin.messageTypes, `${location}.messageTypes`, error);
+  });
+}
+
+function validateMessageBus(messageBus: unknown, error: Report, warning: Report): void {
+  if (messageBus === undefined) {
+    return;
+  }
+  if (!isObject(messageBus)) {
+    error('messageBus', "'messageBus' must be an object.");
+    return;
+  }
+
+  for (const key of Object.keys(messageBus)) {
+    if (!KNOWN_MESSAGE_BUS_FIELDS.includes(key)) {
+      warning(`messageBus.${key}`, `Unknown field '${key}', it will be ignored.`);
+    }
+  }
+
+  if (messageBus.invalidMessages !== undefined && !INVALID_MESSAGES_OPTIONS.includes(messageBus.invalidMessages)) {
+    error('messageBus.invalidMessages', "'invalidMessages' must be either 'reject' or 'quarantine'.");
+  }
+  if (messageBus.overflow !== undefined && !OVERFLOW_OPTIONS.includes(messageBus.overflow)) {
+    error('messageBus.overflow', "'overflow' must be either 'drop-oldest' or 'drop-newest'.");
+  }
+  const { flushInterval } = messageBus;
+  if (flushInterval !== undefined && !(typeof flushInterval === 'number' && flushInterval >= 0)) {
+    error('messageBus.flushInterval', "'flushInterval' must be a number of milliseconds, 0 or more.");
+  }
+  for (const key of ['maxBatchSize', 'maxBufferLength']) {
+    if (messageBus[key] !== undefined && !(Number.isInteger(messageBus[key]) && messageBus[key] > 0)) {
+      error(`messageBus.${key}`, `'${key}' must be a whole number above 0.`);
+    }
+  }
+  const { store } = messageBus;
+  if (
+    store !== undefined &&
+    !(isObject(store) && typeof store.write === 'function' && typeof store.query === 'function')
+  ) {
+    error('messageBus.store', "'store' must be a MessageStore, with write() and query() methods.");
+  }
+  validateMessageTypes(messageBus.messageTypes, 'messageBus.messageTypes', error);
+}
+
+function validateVisitorProfile(visitorProfile: unknown, error: Report, warning: Report): void {
+  if (visitorProfile === undefined) {
+    return;
+  }
+  if (!isObject(visitorProfile)) {
+    error('visitorProfile', "'visitorProfile' must be an object.");
+    return;
+  }
+
+  for (const key of Object.keys(visitorProfile)) {
+    if (!KNOWN_VISITOR_PROFILE_FIELDS.includes(key)) {
+      warning(`visitorProfile.${key}`, `Unknown field '${key}', it will be ignored.`);
+    }
+  }
+
+  for (const key of ['ttl', 'maxBytes']) {
+    const value = visitorProfile[key];
+    if (value !== undefined && !(typeof value === 'number' && value > 0)) {
+      error(`visitorProfile.${key}`, `'${key}' must be a number above 0.`);
+    }
+  }
+  const { store } = visitorProfile;
+  if (store !== undefined && !(isObject(store) && typeof store.get === 'function' && typeof store.set === 'function')) {
+    error('visitorProfile.store', "'store' must be a VisitorProfileStore, with get() and set() methods.");
+  }
+}
+
+function validateCookies(cookies: unknown, error: Report, warning: Report): void {
+  if (cookies === undefined) {
+    return;
+  }
+  if (!isObject(cookies)) {
+    error('cookies', "'cookies' must be an object.");
+    return;
+  }
+
+  for (const key of Object.keys(cookies)) {
+    if (key !== 'secrets') {
+      warning(`cookies.${key}`, `Unknown field '${key}', it will be ignored.`);
+    }
+  }
+
+  const { secrets } = cookies;
+  if (secrets === undefined) {
+    return;
+  }
+  if (!Array.isArray(secrets) || secrets.length === 0) {
+    error('cookies.secrets', "'secrets' must be an array with at least one secret.");
+    return;
+  }
+  secrets.forEach((secret, i) => {
+    if (typeof secret !== 'string' || secret === '') {
+      error(`cookies.secrets[${i}]`, 'Each secret must be a non-empty string.');
+    } else if (secret.length < 32) {
+      warning(`cookies.secrets[${i}]`, 'Secrets this short can be guessed, use at least 32 random characters.');
+    }
+  });
+}
+
+function validateMessageTypes(messageTypes: unknown, location: string, error: Report): void {
+  if (messageTypes === undefined) {
+    return;
+  }
+  if (!isObject(messageTypes)) {
+    error(location, "'messageTypes' must be an object of message schemas, keyed by message type.");
+    return;
+  }
+
+  for (const [type, messageSchema] of Object.entries(messageTypes)) {
+    if (!isObject(messageSchema) || typeof messageSchema.validate !== 'function') {
+      error(
+        `${location}['${type}']`,
+        "Each message type must be a schema, created using 'schema' from @outsmartly/core.",
+      );
+    }
+  }
+}
+
+function validateMiddleware(middleware: unknown, location: string, error: Report): void {
+  if (middleware === undefined) {
+    return;
+  }
+  if (!Array.isArray(middleware)) {
+    error(location, `'middleware' must be an array of functions.`);
+    return;
+  }
+
+  middleware.forEach((fn: unknown, i) => {
+    if (typeof fn !== 'function') {
+      error(`${location}[${i}]`, 'Each middleware must be a function.');
+    }
+  });
+}
+
+function validateRoutes(routes: unknown, error: Report, warning: Report): void {
+  if (routes === undefined) {
+    return;
+  }
+  if (!Array.isArray(routes)) {
+    error('routes', "'routes' must be an array.");
+    return;
+  }
+
+  const seenPaths = new Map<string, number>();
+
+  routes.forEach((route: unknown, i) => {
+    const location = `routes[${i}]`;
+    if (!isObject(route)) {
+      error(location, 'Each route must be an object with a path.');
+      return;
+    }
+
+    for (const key of Object.keys(route)) {
+      if (!KNOWN_ROUTE_FIELDS.includes(key)) {
+        warning(`${location}.${key}`, `Unknown field '${key}', it will be ignored.`);
+      }
+    }
+
+    const { path } = route;
+    if (isRegExp(path)) {
+      // Nothing more we can check about them without running them.
+    } else if (typeof path !== 'string' || path === '') {
+      error(`${location}.path`, "'path' must be a non-empty string or a RegExp.");
+    } else if (!path.startsWith('/') && !path.startsWith('*')) {
+      error(`${location}.path`, `'${path}' will never match, paths must start with '/' e.g. '/${path}'`);
+    } else if (/[?#]/.test(path)) {
+      error(`${location}.path`, `'${path}' will never match, paths are matched without the query string or hash.`);
+    }
+
+    // The first matching route wins, so a duplicate path is never reached.
+    const pathKey = String(path);
+    const firstIndex = seenPaths.get(pathKey);
+    if (firstIndex !== undefined) {
+      warning(`${location}.path`, `'${pathKey}' will never match, routes[${firstIndex}] has the same path.`);
+    } else {
+      seenPaths.set(pathKey, i);
+    }
+
+    validateSegments(route.segments, `${location}.segments`, error);
+    validateMiddleware(route.middleware, `${location}.middleware`, error);
+
+    if (route.intercept !== undefined && typeof route.intercept !== 'function') {
+      error(`${location}.intercept`, "'intercept' must be a function.");
+    }
+
+    validateOverrides(route.overrides, `${location}.overrides`, error, warning);
+
+    if (typeof route.intercept === 'function' && Array.isArray(route.overrides) && route.overrides.length > 0) {
+      warning(
+        `${location}.overrides`,
+        'These overrides will never run, because the interceptor replaces the response from your origin.',
+      );
+    }
+
+    if (route.middleware === undefined && route.intercept === undefined && route.overrides === undefined) {
+      warning(location, 'This route has no middleware, intercept, or overrides, so it does nothing.');
+    }
+  });
+}
+
+function validateOverrides(overrides: unknown, location: string, error: Report, warning: Report): void {
+  if (overrides === undefined) {
+    return;
+  }
+  if (!Array.isArray(overrides)) {
+    error(location, "'overrides' must be an array.");
+    return;
+  }
+
+  overrides.forEach((override: unknown, i) => {
+    const overrideLocation = `${location}[${i}]`;
+    if (!isObject(override)) {
+      error(overrideLocation, 'Each override must be an object with a component and getOverrideProps().');
+      return;
+    }
+
+    for (const key of Object.keys(override)) {
+      if (!KNOWN_OVERRIDE_FIELDS.includes(key)) {
+        warning(`${overrideLocation}.${key}`, `Unknown field '${key}', it will be ignored.`);
+      }
+    }
+
+    if (override.name !== undefined && typeof override.name !== 'string') {
+      error(`${overrideLocation}.name`, "'name' must be a string.");
+    }
+    if (typeof override.component !== 'string' || override.component.trim() === '') {
+      error(`${overrideLocation}.component`, "Missing 'component', the name of the component to override.");
+    }
+    if (typeof override.getOverrideProps !== 'function') {
+      error(`${overrideLocation}.getOverrideProps`, "'getOverrideProps' must be a function.");
+    }
+
+    validateSegments(override.segments, `${overrideLocation}.segments`, error);
+  });
+}
+
+function validateSegments(segments: unknown, location: string, error: Report): void {
+  if (segments === undefined) {
+    return;
+  }
+  if (!Array.isArray(segments)) {
+    error(location, "'segments' must be an array of segments.");
+    return;
+  }
+
+  segments.forEach((segment: unknown, i) => {
+    if (!isObject(segment)) {
+      error(`${location}[${i}]`, 'Each segment must be an object, e.g. { country: "US" }');
+    }
+  });
+}
+
+export function formatConfigProblems(configPath: string, problems: ConfigProblem[]): string {
+  return problems
+    .map(({ severity, location, message }) => {
+      const color = severity === 'error' ? chalk.red : chalk.yellow;
+      return `${color(severity)} ${chalk.dim(`${configPath} ›`)} ${chalk.bold(location)}: ${message}`;
+    })
+    .join('\n');
+}
+
+function isObject(value: unknown): value is { [key: string]: any } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// The config is evaluated in its own V8 context, so instanceof RegExp won't work.
+function isRegExp(value: unknown): value is RegExp {
+  return Object.prototype.toString.call(value) === '[object RegExp]';
+}
@@ -1,13 +1,37 @@
 // MessageBus
-export { MessageBusMessage } from './public/MessageBusMessage';
-export { MessageBus, MessageBusOptions, MessageBusListener } from './public/MessageBus';
+export { MessageBusMessage, MessageBusMessageMeta, MessageOrigin } from './public/MessageBusMessage';
+export { MessageBus, MessageBusOptions, MessageBusListener, MatchingMessageEvent } from './public/MessageBus';
 export { useMessageBus } from './public/useMessageBus';
-export { MessageDataByType } from './public/MessageDataByType';
-export { ClientMessageBus, ClientMessageBusListener } from './public/ClientMessageBus';
-export { EdgeMessageBus, EdgeMessageBusListener } from './public/EdgeMessageBus';
+export {
+  MessageDataByType,
+  coreMessageTypes,
+  MESSAGE_DROPPED_MESSAGE_TYPE,
+  MESSAGE_ERROR_MESSAGE_TYPE,
+  MESSAGE_QUARANTINED_MESSAGE_TYPE,
+} from './public/MessageDataByType';
+export { standardMessageTypes } from './public/messageCatalog';
+export {
+  schema,
+  defineMessageTypes,
+  validateMessage,
+  InferMessageDataByType,
+  InferMessageSchema,
+  MessageSchema,
+  MessageSchemas,
+} from './public/messageSchema';
+export { ClientMessageBus, ClientMessageBusListener, MatchingClientMessageEvent } from './public/ClientMessageBus';
+export { EdgeMessageBus, EdgeMessageBusListener, MatchingEdgeMessageEvent } from './public/EdgeMessageBus';
+export { matchesMessageType, MatchingMessageType, MessageTypePattern } from './public/messageTypePattern';
+export { createMemoryMessageStore, MemoryMessageStoreOptions, MessageQuery, MessageStore } from './public/messageStore';
 
 // Cookies
-export { OutsmartlyReadonlyCookies, OutsmartlyCookies, SetCookieOptions } from './public/OutsmartlyCookies';
+export {
+  OutsmartlyReadonlyCookies,
+  OutsmartlyCookies,
+  OutsmartlyCookiesOptions,
+  SetCookieOptions,
+} from './public/OutsmartlyCookies';
+export { OutsmartlyClientReadonlyCookies, OutsmartlyClientCookies } from './public/OutsmartlyClientCookies';
 
 // Events
 export {
@@ -20,5 +44,67 @@ export {
   OutsmartlyEdgeMessageEvent,
 } from './public/OutsmartlyEvent';
 
+// Routing
+export {
+  compileRoutePath,
+  matchRoute,
+  CompiledRoutePath,
+  RouteMatch,
+  RouteParams,
+  RoutePathOptions,
+} from './public/matchRoute';
+
+// Segments
+export {
+  matchesSegment,
+  matchesAnySegment,
+  GeoRadius,
+  NumberRange,
+  Segment,
+  SegmentEvent,
+  StringCondition,
+  TimeOfDay,
+  Weekday,
+} from './public/segments';
+
+// Experiments
+export {
+  experiment,
+  EXPERIMENT_EXPOSED_MESSAGE_TYPE,
+  EXPOSED_EXPERIMENTS_STATE_KEY,
+  Experiment,
+  ExperimentAssignment,
+  ExperimentEvent,
+  ExperimentExposureMessageData,
+  ExperimentOptions,
+  ExperimentVariant,
+} from './public/experiment';
+
+// Bots
+export {
+  botPolicy,
+  getBotAction,
+  getBotChallengeToken,
+  isPersonalizationSkipped,
+  skipPersonalization,
+  SKIP_PERSONALIZATION_STATE_KEY,
+  BotAction,
+  BotPolicyOptions,
+} from './public/botPolicy';
+
+// Visitor profiles
+export {
+  createMemoryVisitorProfileStore,
+  createVisitorProfile,
+  DEFAULT_VISITOR_PROFILE_MAX_BYTES,
+  DEFAULT_VISITOR_PROFILE_TTL,
+  MemoryVisitorProfileStoreOptions,
+  VisitorProfile,
+  VisitorProfileData,
+  VisitorProfileOptions,
+  VisitorProfileStore,
+  VisitorProfileUpdate,
+} from './public/visitorProfile';
+
 // Common
 export * from './public/types';
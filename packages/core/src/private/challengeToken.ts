@@ -0,0 +1,35 @@
+import { fromBase64Url, toBase64Url } from './base64Url';
+
+// Importing keys is slow, and the same secret is used on every request.
+const keyCache = new Map<string, Promise<CryptoKey>>();
+
+/**
+ * An HMAC-SHA256 of the visitor's id, so a token only works for the visitor
+ * it was created for, and can't be created without the secret.
+ */
+export async function createChallengeToken(visitorId: string, secret: string): Promise<string> {
+  const key = await getKey(secret);
+  return toBase64Url(await crypto.subtle.sign('HMAC', key, encode(visitorId)));
+}
+
+export async function verifyChallengeToken(visitorId: string, token: string, secret: string): Promise<boolean> {
+  const signature = fromBase64Url(token);
+  if (!signature) {
+    return false;
+  }
+  const key = await getKey(secret);
+  return await crypto.subtle.verify('HMAC', key, signature, encode(visitorId));
+}
+
+function getKey(secret: string): Promise<CryptoKey> {
+  let key = keyCache.get(secret);
+  if (!key) {
+    key = crypto.subtle.importKey('raw', encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+    keyCache.set(secret, key);
+  }
+  return key;
+}
+
+function encode(value: string): Uint8Array {
+  return new TextEncoder().encode(value);
+}
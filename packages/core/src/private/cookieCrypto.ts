@@ -0,0 +1,126 @@
+import { fromBase64Url, toBase64Url } from './base64Url';
+
+type KeyPurpose = 'signing' | 'encryption';
+
+// Each secret is stretched into separate keys for signing and encrypting, so
+// the same secrets can safely be used for both.
+const KEY_PARAMS: {
+  [P in KeyPurpose]: { info: string; algorithm: HmacKeyGenParams | AesKeyGenParams; usages: KeyUsage[] };
+} = {
+  signing: {
+    info: 'outsmartly-cookie-signing',
+    algorithm: { name: 'HMAC', hash: 'SHA-256', length: 256 },
+    usages: ['sign', 'verify'],
+  },
+  encryption: {
+    info: 'outsmartly-cookie-encryption',
+    algorithm: { name: 'AES-GCM', length: 256 },
+    usages: ['encrypt', 'decrypt'],
+  },
+};
+
+// 96 bits is the IV size AES-GCM is designed for.
+const IV_BYTES = 12;
+
+// Deriving keys is slow, and the same few secrets are used on every request.
+const keyCache = new Map<string, Promise<CryptoKey>>();
+
+/**
+ * Signs the value with HMAC-SHA256, as `value.signature`. The cookie's name
+ * is signed too, so a signed value can't be moved into a different cookie.
+ */
+export async function signCookieValue(name: string, value: string, secret: string): Promise<string> {
+  const key = await getKey(secret, 'signing');
+  const signature = await crypto.subtle.sign('HMAC', key, encode(`${name}=${value}`));
+  return `${value}.${toBase64Url(signature)}`;
+}
+
+/**
+ * The value that was signed, if any of the secrets signed it.
+ */
+export async function verifyCookieValue(name: string, signed: string, secrets: string[]): Promise<string | undefined> {
+  const separatorIndex = signed.lastIndexOf('.');
+  if (separatorIndex === -1) {
+    return undefined;
+  }
+  const value = signed.slice(0, separatorIndex);
+  const signature = fromBase64Url(signed.slice(separatorIndex + 1));
+  if (!signature) {
+    return undefined;
+  }
+
+  for (const secret of secrets) {
+    const key = await getKey(secret, 'signing');
+    if (await crypto.subtle.verify('HMAC', key, signature, encode(`${name}=${value}`))) {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Encrypts the value with AES-GCM, as `iv.ciphertext`. The cookie's name is
+ * authenticated too, so an encrypted value can't be moved into a different cookie.
+ */
+export async function encryptCookieValue(name: string, value: string, secret: string): Promise<string> {
+  const key = await getKey(secret, 'encryption');
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: encode(name) },
+    key,
+    encode(value),
+  );
+  return `${toBase64Url(iv)}.${toBase64Url(ciphertext)}`;
+}
+
+/**
+ * The value that was encrypted, if any of the secrets encrypted it.
+ */
+export async function decryptCookieValue(
+  name: string,
+  encrypted: string,
+  secrets: string[],
+): Promise<string | undefined> {
+  const [encodedIv, encodedCiphertext, ...rest] = encrypted.split('.');
+  const iv = fromBase64Url(encodedIv);
+  const ciphertext = fromBase64Url(encodedCiphertext ?? '');
+  if (!iv || iv.length !== IV_BYTES || !ciphertext || rest.length > 0) {
+    return undefined;
+  }
+
+  for (const secret of secrets) {
+    const key = await getKey(secret, 'encryption');
+    try {
+      const plaintext = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv, additionalData: encode(name) },
+        key,
+        ciphertext,
+      );
+      return new TextDecoder().decode(plaintext);
+    } catch (e) {
+      // Encrypted with a different secret, or tampered with.
+    }
+  }
+  return undefined;
+}
+
+function getKey(secret: string, purpose: KeyPurpose): Promise<CryptoKey> {
+  const cacheKey = `${purpose}:${secret}`;
+  let key = keyCache.get(cacheKey);
+  if (!key) {
+    key = deriveKey(secret, purpose);
+    keyCache.set(cacheKey, key);
+  }
+  return key;
+}
+
+async function deriveKey(secret: string, purpose: KeyPurpose): Promise<CryptoKey> {
+  const { info, algorithm, usages } = KEY_PARAMS[purpose];
+  const baseKey = await crypto.subtle.importKey('raw', encode(secret), 'HKDF', false, ['deriveKey']);
+  const params = { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(0), info: encode(info) };
+  return crypto.subtle.deriveKey(params, baseKey, algorithm, false, usages);
+}
+
+function encode(value: string): Uint8Array {
+  return new TextEncoder().encode(value);
+}
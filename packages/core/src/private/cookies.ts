@@ -0,0 +1,112 @@
+import type { SetCookieOptions } from '../public/OutsmartlyCookies';
+
+// The token characters of RFC 7230, which are the only ones allowed in cookie names.
+const COOKIE_NAME_REGEX = /^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/;
+
+// Runs of characters that aren't allowed in cookie values by RFC 6265, plus %
+// so that decoding gives back exactly what was encoded.
+const UNSAFE_COOKIE_VALUE_REGEX = /[^!#$&'()*+\-./0-9:<=>?@A-Z[\]^_`a-z{|}~]+/g;
+
+/**
+ * Throws if browsers would reject the cookie, rather than silently ignoring it.
+ */
+export function assertValidCookie(key: string, options: SetCookieOptions): void {
+  if (!COOKIE_NAME_REGEX.test(key)) {
+    throw new TypeError(`Cookie name '${key}' is invalid, it can only contain letters, digits and !#$%&'*+-.^_\`|~`);
+  }
+  if (options.partitioned && !options.secure) {
+    throw new TypeError(`Cookie '${key}' is partitioned, so it needs to be secure too.`);
+  }
+}
+
+/**
+ * Parses a Cookie header as described by RFC 6265. Values are trimmed,
+ * unquoted and percent-decoded, and when a name is repeated the first one
+ * wins, since browsers send the cookie with the most specific path first.
+ */
+export function parseCookiesIntoMap(input: string, map: Map<string, string>): void {
+  for (const part of input.split(';')) {
+    const separatorIndex = part.indexOf('=');
+    // Not a name=value pair, so there's nothing to look it up by.
+    if (separatorIndex === -1) {
+      continue;
+    }
+
+    const name = part.slice(0, separatorIndex).trim();
+    if (name === '' || map.has(name)) {
+      continue;
+    }
+
+    let value = part.slice(separatorIndex + 1).trim();
+    if (value.length >= 2 && value.startsWith('"') && value.endsWith('"')) {
+      value = value.slice(1, -1);
+    }
+    Map.prototype.set.call(map, name, decodeCookieValue(value));
+  }
+}
+
+export function serializeSetCookie(key: string, value: string, options: SetCookieOptions): string {
+  let header = `${key}=${encodeCookieValue(value)}`;
+
+  if (options.expires !== undefined) {
+    const expires = typeof options.expires === 'string' ? options.expires : options.expires.toUTCString();
+    header += `; Expires=${expires}`;
+  }
+  if (options.maxAge !== undefined) {
+    header += `; Max-Age=${Math.floor(options.maxAge)}`;
+  }
+  if (options.domain) {
+    header += `; Domain=${options.domain}`;
+  }
+  header += `; Path=${options.path ?? '/'}`;
+  if (options.secure) {
+    header += '; Secure';
+  }
+  if (options.httpOnly) {
+    header += '; HttpOnly';
+  }
+  if (options.sameSite) {
+    header += `; SameSite=${options.sameSite}`;
+  }
+  if (options.partitioned) {
+    header += '; Partitioned';
+  }
+  if (options.priority) {
+    header += `; Priority=${options.priority}`;
+  }
+
+  return header;
+}
+
+/**
+ * Serializes cookies the way browsers send them, in a Cookie header.
+ */
+export function serializeCookieHeader(cookies: Iterable<[string, string]>): string {
+  const parts = [];
+
+  for (const [key, value] of cookies) {
+    parts.push(`${key}=${encodeCookieValue(value)}`);
+  }
+
+  return parts.join('; ');
+}
+
+export function encodeCookieValue(value: string): string {
+  return value.replace(UNSAFE_COOKIE_VALUE_REGEX, (unsafe) => encodeURIComponent(unsafe));
+}
+
+function decodeCookieValue(value: string): string {
+  if (!value.includes('%')) {
+    return value;
+  }
+  try {
+    return decodeURIComponent(value);
+  } catch (e) {
+    // Not encoded by us, e.g. a literal '%' set by some other script.
+    return value;
+  }
+}
+
+export function throwImmutableCookiesError(className: string, methodName: string): never {
+  throw new TypeError(`Failed to execute '${methodName}' on '${className}': This instance of cookies is immutable.`);
+}
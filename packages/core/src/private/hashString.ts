@@ -0,0 +1,12 @@
+/**
+ * 32-bit FNV-1a. It's not cryptographic, but it's fast, synchronous, the same
+ * in every runtime, and spreads similar strings evenly.
+ */
+export function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
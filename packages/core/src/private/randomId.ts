@@ -0,0 +1,11 @@
+/**
+ * 128 random bits as hex, enough to tell messages or batches apart. Falls
+ * back to Math.random() where there's no crypto, e.g. in older test setups.
+ */
+export function randomId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.getRandomValues === 'function') {
+    const bytes = crypto.getRandomValues(new Uint8Array(16));
+    return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+  }
+  return `${Date.now().toString(16)}${Math.random().toString(16).slice(2)}${Math.random().toString(16).slice(2)}`;
+}
@@ -1,26 +1,188 @@
 import { MessageBus, MessageBusListener, MessageBusOptions } from './MessageBus';
-import { MessageBusMessage } from './MessageBusMessage';
+import { randomId } from '../private/randomId';
+import { MessageBusMessage, MessageBusMessageMeta } from './MessageBusMessage';
 import { MessageDataByType } from './MessageDataByType';
+import { MatchingMessageType, MessageTypePattern } from './messageTypePattern';
 import { OutsmartlyClientMessageEvent } from './OutsmartlyEvent';
 import { OutsmartlyClientVisitor } from './types';
 
 export type ClientMessageBusListener<T extends string, D> = MessageBusListener<OutsmartlyClientMessageEvent<T, D>>;
 
+/**
+ * The events a ClientMessageBus listener for a pattern like 'Commerce.*' receives.
+ * @see MatchingMessageEvent
+ */
+export type MatchingClientMessageEvent<P extends string> = [MatchingMessageType<P>] extends [never]
+  ? OutsmartlyClientMessageEvent<string, unknown>
+  : { [T in MatchingMessageType<P>]: OutsmartlyClientMessageEvent<T, MessageDataByType[T]> }[MatchingMessageType<P>];
+
+export const CLIENT_MESSAGE_BUS_ENDPOINT = '/.outsmartly/message-bus';
+
+// Browsers only allow this much to be queued by sendBeacon() or
+// fetch({ keepalive: true }) at once, so bigger batches are split up.
+export const MAX_BEACON_BYTES = 64 * 1024;
+
+export const PENDING_MESSAGES_STORAGE_KEY = 'outsmartly-message-bus-pending';
+
+// Beacons can't read their response, so the edge only puts messages for
+// the client in the response to requests that say they can.
+export const RECEIVE_MESSAGES_HEADER = 'Outsmartly-Receive-Messages';
+
+// Dispatched on window by @outsmartly/react with the messages in overrides
+// fetched for client-side navigations, since it doesn't depend on core.
+export const EDGE_MESSAGES_EVENT_TYPE = 'outsmartlymessages';
+
+// How many ids of messages from the edge are remembered to ignore them
+// arriving again, oldest forgotten first, so long-lived pages don't leak.
+export const MAX_RECEIVED_MESSAGE_IDS = 1000;
+
+// Oldest messages are dropped past this, so storage can't grow forever
+// when the edge can't be reached at all.
+const MAX_PENDING_MESSAGES = 500;
+
+interface PendingBatch {
+  id: string;
+  messages: MessageBusMessage<string, unknown>[];
+}
+
 export class ClientMessageBus extends MessageBus {
+  private _removePageListeners: (() => void)[] = [];
+  // The same message can arrive more than once, e.g. in the page and again
+  // in the overrides @outsmartly/react fetches for it. Set keeps insertion
+  // order, so the first id is always the oldest.
+  private _receivedMessageIds = new Set<string>();
+
   constructor(protected _visitor: OutsmartlyClientVisitor, options?: MessageBusOptions) {
     super(options);
+
+    // When doing SSR/SSG there's no page to listen to, or storage to retry from.
+    if (typeof window !== 'undefined' && typeof document !== 'undefined') {
+      this._flushWhenPageHidden();
+      this._receiveMessagesFromEdge();
+      this._retryPendingMessages();
+    }
+  }
+
+  /**
+   * Stops flushing when the page is hidden, and receiving messages from the
+   * edge. Only needed when you're done with a ClientMessageBus you created
+   * yourself, rather than with useMessageBus().
+   */
+  dispose(): void {
+    for (const removeListener of this._removePageListeners) {
+      removeListener();
+    }
+    this._removePageListeners = [];
+  }
+
+  protected override _createMessageMeta(): MessageBusMessageMeta {
+    return {
+      ...super._createMessageMeta(),
+      origin: 'client',
+      url: typeof location !== 'undefined' ? location.href : undefined,
+      visitorId: this._visitor.id,
+    };
   }
 
   protected override async _writeToExternal(messages: MessageBusMessage<string, unknown>[]): Promise<void> {
+    await Promise.all(splitIntoBatches(messages).map((batch) => this._sendBatch(batch)));
+  }
+
+  private async _sendBatch(messages: MessageBusMessage<string, unknown>[]): Promise<void> {
     const body = JSON.stringify(messages);
     // Using Blob so that Content-Type: application/json header is included
     const blob = new Blob([body], { type: 'application/json' });
+    const fitsInBeacon = blob.size <= MAX_BEACON_BYTES;
 
     // sendBeacon is more reliable for cases where the browser window is closing,
     // although there's still some debate about that: https://volument.com/blog/sendbeacon-is-broken
-    // We should also add code somewhere in Jackrabbit to listen for 'visibilitychange'
-    // on the document and do a flushToExternal() at that point.
-    navigator.sendBeacon('/.outsmartly/message-bus', blob);
+    // It returns false when the browser refuses to queue it, e.g. over its quota.
+    if (fitsInBeacon && sendBeacon(blob)) {
+      return;
+    }
+
+    // Saved first and only removed once delivered, in case the page is closed
+    // before fetch() finishes.
+    const pendingId = savePendingBatch(messages);
+    try {
+      const response = await fetch(CLIENT_MESSAGE_BUS_ENDPOINT, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', [RECEIVE_MESSAGES_HEADER]: 'true' },
+        body,
+        credentials: 'same-origin',
+        keepalive: fitsInBeacon,
+      });
+      if (response.ok) {
+        removePendingBatch(pendingId);
+        this._receiveFromEdge(await readResponseMessages(response));
+      }
+    } catch (e) {
+      // Left in storage, and retried on the next page load.
+    }
+  }
+
+  private _flushWhenPageHidden(): void {
+    // pagehide is the last reliable chance on desktop, but mobile browsers
+    // often discard hidden pages without firing it, so visibilitychange too.
+    const onPageHide = () => this.flushToExternal();
+    const onVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') {
+        this.flushToExternal();
+      }
+    };
+
+    window.addEventListener('pagehide', onPageHide);
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    this._removePageListeners.push(() => {
+      window.removeEventListener('pagehide', onPageHide);
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+    });
+  }
+
+  private _receiveMessagesFromEdge(): void {
+    this._receiveFromEdge(readScriptDataMessages());
+
+    const onMessages = (event: Event) => this._receiveFromEdge((event as CustomEvent).detail);
+    window.addEventListener(EDGE_MESSAGES_EVENT_TYPE, onMessages);
+    this._removePageListeners.push(() => {
+      window.removeEventListener(EDGE_MESSAGES_EVENT_TYPE, onMessages);
+    });
+  }
+
+  private _receiveFromEdge(messages: unknown): void {
+    if (!Array.isArray(messages)) {
+      return;
+    }
+
+    for (const { type, data, meta } of messages) {
+      if (typeof type !== 'string') {
+        continue;
+      }
+      if (meta?.id) {
+        if (this._receivedMessageIds.has(meta.id)) {
+          continue;
+        }
+        this._rememberReceivedMessageId(meta.id);
+      }
+      this._receive(new MessageBusMessage(type, data, meta));
+    }
+  }
+
+  private _rememberReceivedMessageId(id: string): void {
+    this._receivedMessageIds.add(id);
+    if (this._receivedMessageIds.size > MAX_RECEIVED_MESSAGE_IDS) {
+      this._receivedMessageIds.delete(this._receivedMessageIds.values().next().value);
+    }
+  }
+
+  private _retryPendingMessages(): void {
+    const batches = readPendingBatches();
+    if (batches.length === 0) {
+      return;
+    }
+    // Removed now, since they're saved again if this attempt fails too.
+    writePendingBatches([]);
+    this._writeToExternal(batches.flatMap((batch) => batch.messages));
   }
 
   protected override _waitUntil(_promise: Promise<unknown> | void) {
@@ -38,6 +200,7 @@ export class ClientMessageBus extends MessageBus {
 
 export interface ClientMessageBus extends MessageBus {
   on<T extends keyof MessageDataByType>(type: T, callback: ClientMessageBusListener<T, MessageDataByType[T]>): this;
+  on<P extends MessageTypePattern>(pattern: P, callback: MessageBusListener<MatchingClientMessageEvent<P>>): this;
   on<T extends string, D = unknown>(
     type: T extends keyof MessageDataByType ? never : T,
     callback: ClientMessageBusListener<T, D>,
@@ -45,12 +208,14 @@ export interface ClientMessageBus extends MessageBus {
   on(type: string, callback: ClientMessageBusListener<any, any>): this;
 
   off<T extends keyof MessageDataByType>(type: T, callback: ClientMessageBusListener<T, MessageDataByType[T]>): this;
+  off<P extends MessageTypePattern>(pattern: P, callback: MessageBusListener<MatchingClientMessageEvent<P>>): this;
   off<T extends string, D = unknown>(
     type: T extends keyof MessageDataByType ? never : T,
     callback: ClientMessageBusListener<T, D>,
   ): this;
 
   once<T extends keyof MessageDataByType>(type: T, callback: ClientMessageBusListener<T, MessageDataByType[T]>): this;
+  once<P extends MessageTypePattern>(pattern: P, callback: MessageBusListener<MatchingClientMessageEvent<P>>): this;
   once<T extends string, D = unknown>(
     type: T extends keyof MessageDataByType ? never : T,
     callback: ClientMessageBusListener<T, D>,
@@ -59,3 +224,107 @@ export interface ClientMessageBus extends MessageBus {
   emit<T extends keyof MessageDataByType>(type: T, data: MessageDataByType[T]): this;
   emit<T extends string, D = unknown>(type: T extends keyof MessageDataByType ? never : T, data: D): this;
 }
+
+function sendBeacon(blob: Blob): boolean {
+  if (typeof navigator === 'undefined' || typeof navigator.sendBeacon !== 'function') {
+    return false;
+  }
+  try {
+    return navigator.sendBeacon(CLIENT_MESSAGE_BUS_ENDPOINT, blob);
+  } catch (e) {
+    return false;
+  }
+}
+
+function byteLength(value: string): number {
+  return new Blob([value]).size;
+}
+
+/**
+ * Splits messages into batches that each fit in a beacon, once serialized.
+ * A single message that's too big on its own gets a batch to itself.
+ */
+function splitIntoBatches(messages: MessageBusMessage<string, unknown>[]): MessageBusMessage<string, unknown>[][] {
+  const batches: MessageBusMessage<string, unknown>[][] = [];
+  let batch: MessageBusMessage<string, unknown>[] = [];
+  // The brackets around the array
+  let batchBytes = 2;
+
+  for (const message of messages) {
+    // Plus one for the comma between messages
+    const messageBytes = byteLength(JSON.stringify(message)) + 1;
+    if (batch.length > 0 && batchBytes + messageBytes > MAX_BEACON_BYTES) {
+      batches.push(batch);
+      batch = [];
+      batchBytes = 2;
+    }
+    batch.push(message);
+    batchBytes += messageBytes;
+  }
+
+  if (batch.length > 0) {
+    batches.push(batch);
+  }
+  return batches;
+}
+
+// Storage can throw, e.g. when it's disabled or full, in which case the
+// messages are only lost if they couldn't be sent anyway.
+function readPendingBatches(): PendingBatch[] {
+  try {
+    const json = localStorage.getItem(PENDING_MESSAGES_STORAGE_KEY);
+    const batches = json ? JSON.parse(json) : [];
+    return Array.isArray(batches) ? batches : [];
+  } catch (e) {
+    return [];
+  }
+}
+
+function readScriptDataMessages(): unknown {
+  const script = document.getElementById('__OUTSMARTLY_DATA__');
+  if (!script?.textContent) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(script.textContent).messages;
+  } catch (e) {
+    return undefined;
+  }
+}
+
+async function readResponseMessages(response: Response): Promise<unknown> {
+  try {
+    const body = await response.json();
+    return body?.result?.messages;
+  } catch (e) {
+    // e.g. a 204, from an edge that doesn't send messages to the client
+    return undefined;
+  }
+}
+
+function writePendingBatches(batches: PendingBatch[]): void {
+  try {
+    if (batches.length === 0) {
+      localStorage.removeItem(PENDING_MESSAGES_STORAGE_KEY);
+    } else {
+      localStorage.setItem(PENDING_MESSAGES_STORAGE_KEY, JSON.stringify(batches));
+    }
+  } catch (e) {}
+}
+
+function savePendingBatch(messages: MessageBusMessage<string, unknown>[]): string {
+  const id = randomId();
+  const batches = [...readPendingBatches(), { id, messages }];
+
+  let count = batches.reduce((total, batch) => total + batch.messages.length, 0);
+  while (count > MAX_PENDING_MESSAGES && batches.length > 1) {
+    count -= batches.shift()!.messages.length;
+  }
+
+  writePendingBatches(batches);
+  return id;
+}
+
+function removePendingBatch(id: string): void {
+  writePendingBatches(readPendingBatches().filter((batch) => batch.id !== id));
+}
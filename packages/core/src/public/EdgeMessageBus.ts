@@ -1,10 +1,19 @@
 import { MessageBus, MessageBusListener } from './MessageBus';
-import { MessageBusMessage } from './MessageBusMessage';
+import { MessageBusMessage, MessageBusMessageMeta } from './MessageBusMessage';
 import { MessageDataByType } from './MessageDataByType';
+import { MatchingMessageType, MessageTypePattern } from './messageTypePattern';
 import { OutsmartlyEdgeMessageEvent } from './OutsmartlyEvent';
 
 export type EdgeMessageBusListener<T extends string, D> = MessageBusListener<OutsmartlyEdgeMessageEvent<T, D>>;
 
+/**
+ * The events an EdgeMessageBus listener for a pattern like 'Commerce.*' receives.
+ * @see MatchingMessageEvent
+ */
+export type MatchingEdgeMessageEvent<P extends string> = [MatchingMessageType<P>] extends [never]
+  ? OutsmartlyEdgeMessageEvent<string, unknown>
+  : { [T in MatchingMessageType<P>]: OutsmartlyEdgeMessageEvent<T, MessageDataByType[T]> }[MatchingMessageType<P>];
+
 export declare class EdgeMessageBus extends MessageBus {
   // Maintainers: for some reason TypeScript doesn't like it if we mark these methods
   // private or protected and then try and use this type with the real EdgeMessageBus
@@ -12,6 +21,11 @@ export declare class EdgeMessageBus extends MessageBus {
   // TODO: figure out if this is a known bug, or some other non-obvious thing, as this
   // same pattern worked fine for ClientMessageBus, but it isn't a 'declare class'!
 
+  /**
+   * @private
+   */
+  override _createMessageMeta(): MessageBusMessageMeta;
+
   /**
    * @private
    */
@@ -33,6 +47,7 @@ export declare class EdgeMessageBus extends MessageBus {
 
 export interface EdgeMessageBus extends MessageBus {
   on<T extends keyof MessageDataByType>(type: T, callback: EdgeMessageBusListener<T, MessageDataByType[T]>): this;
+  on<P extends MessageTypePattern>(pattern: P, callback: MessageBusListener<MatchingEdgeMessageEvent<P>>): this;
   on<T extends string, D = unknown>(
     type: T extends keyof MessageDataByType ? never : T,
     callback: EdgeMessageBusListener<T, D>,
@@ -40,12 +55,14 @@ export interface EdgeMessageBus extends MessageBus {
   on(type: string, callback: EdgeMessageBusListener<any, any>): this;
 
   off<T extends keyof MessageDataByType>(type: T, callback: EdgeMessageBusListener<T, MessageDataByType[T]>): this;
+  off<P extends MessageTypePattern>(pattern: P, callback: MessageBusListener<MatchingEdgeMessageEvent<P>>): this;
   off<T extends string, D = unknown>(
     type: T extends keyof MessageDataByType ? never : T,
     callback: EdgeMessageBusListener<T, D>,
   ): this;
 
   once<T extends keyof MessageDataByType>(type: T, callback: EdgeMessageBusListener<T, MessageDataByType[T]>): this;
+  once<P extends MessageTypePattern>(pattern: P, callback: MessageBusListener<MatchingEdgeMessageEvent<P>>): this;
   once<T extends string, D = unknown>(
     type: T extends keyof MessageDataByType ? never : T,
     callback: EdgeMessageBusListener<T, D>,
@@ -1,5 +1,20 @@
-import { MessageBusMessage } from './MessageBusMessage';
-import { MessageDataByType } from './MessageDataByType';
+import { randomId } from '../private/randomId';
+import { MessageBusMessage, MessageBusMessageMeta } from './MessageBusMessage';
+import {
+  coreMessageTypes,
+  MessageDataByType,
+  MESSAGE_DROPPED_MESSAGE_TYPE,
+  MESSAGE_ERROR_MESSAGE_TYPE,
+  MESSAGE_QUARANTINED_MESSAGE_TYPE,
+} from './MessageDataByType';
+import { MessageSchemas, validateMessage } from './messageSchema';
+import { MessageQuery, MessageStore } from './messageStore';
+import {
+  compileMessageTypePattern,
+  isMessageTypePattern,
+  MatchingMessageType,
+  MessageTypePattern,
+} from './messageTypePattern';
 import { OutsmartlyClientMessageEvent, OutsmartlyEvent, OutsmartlyMessageEvent } from './OutsmartlyEvent';
 import { OutsmartlyVisitor } from './types';
 
@@ -10,16 +25,87 @@ export type MessageBusListener<
   MessageEvent extends OutsmartlyMessageEvent<string, unknown> = OutsmartlyMessageEvent<string, unknown>,
 > = (event: MessageEvent) => Promise<void> | void;
 
+/**
+ * The events a listener for a pattern like 'Commerce.*' receives, as a union
+ * that can be narrowed by `event.message.type`.
+ */
+export type MatchingMessageEvent<P extends string> = [MatchingMessageType<P>] extends [never]
+  ? OutsmartlyMessageEvent<string, unknown>
+  : { [T in MatchingMessageType<P>]: OutsmartlyMessageEvent<T, MessageDataByType[T]> }[MatchingMessageType<P>];
+
 export interface MessageBusOptions {
+  /**
+   * Logs every message emitted, and every error thrown by a listener.
+   */
   debug?: boolean;
+
+  /**
+   * Schemas for your own message types, in addition to the built-in ones.
+   * @see defineMessageTypes
+   */
+  messageTypes?: MessageSchemas;
+
+  /**
+   * What happens to messages whose data doesn't match their type's schema.
+   * Either way, their listeners aren't called.
+   *
+   *   reject      they're dropped, with a warning
+   *   quarantine  they're emitted as 'MessageBus.QUARANTINED' messages instead,
+   *               along with what was wrong with them
+   *
+   * Defaults to 'reject'.
+   */
+  invalidMessages?: 'reject' | 'quarantine';
+
+  /**
+   * How long to wait after a message is emitted before writing it, along with
+   * any emitted in the meantime, to the external destination. In
+   * milliseconds, defaults to 1000.
+   */
+  flushInterval?: number;
+
+  /**
+   * The most messages written to the external destination at once. Buffering
+   * this many writes them right away, rather than waiting for flushInterval,
+   * unless a previous write hasn't finished yet. Defaults to 100.
+   */
+  maxBatchSize?: number;
+
+  /**
+   * The most messages buffered while waiting to be written. Once full, a
+   * message is dropped for each one emitted, and reported to listeners of
+   * 'MessageBus.MESSAGES_DROPPED'. Defaults to 1000.
+   */
+  maxBufferLength?: number;
+
+  /**
+   * Which message is dropped when the buffer is full: the oldest one buffered,
+   * or the one just emitted. Either way, its listeners are still called.
+   * Defaults to 'drop-oldest'.
+   */
+  overflow?: 'drop-oldest' | 'drop-newest';
+
+  /**
+   * Where flushed messages are kept, so they can be found with query().
+   * @see createMemoryMessageStore
+   */
+  store?: MessageStore;
 }
 
-const defaultOptions: MessageBusOptions = {
+export const MESSAGE_BUS_DEFAULT_THROTTLE_DELAY = 1000;
+
+// Received messages nobody has listened for yet, oldest dropped first
+const MAX_UNCLAIMED_MESSAGES = 100;
+
+const defaultOptions: Required<Omit<MessageBusOptions, 'messageTypes' | 'store'>> = {
   debug: false,
+  invalidMessages: 'reject',
+  flushInterval: MESSAGE_BUS_DEFAULT_THROTTLE_DELAY,
+  maxBatchSize: 100,
+  maxBufferLength: 1000,
+  overflow: 'drop-oldest',
 };
 
-export const MESSAGE_BUS_DEFAULT_THROTTLE_DELAY = 1000;
-
 /**
  * The MessageBus class. Can be used either client-side or edge-side. A
  * MessageBus maintains a Map of listeners, where each key is an event type
@@ -31,18 +117,31 @@ export const MESSAGE_BUS_DEFAULT_THROTTLE_DELAY = 1000;
  * - emit: dispatch an event
  */
 export abstract class MessageBus {
-  private _options: MessageBusOptions;
+  private _options: typeof defaultOptions & MessageBusOptions;
   private _listenersByMessageType = new Map<string, Set<MessageBusListener<OutsmartlyMessageEvent<string, unknown>>>>();
+  private _messageTypes: MessageSchemas = { ...coreMessageTypes };
+  // Listeners for patterns are kept in _listenersByMessageType too, by pattern.
+  private _compiledPatterns = new Map<string, RegExp>();
   // Buffer to hold messages prior to writing them to the external destination.
   protected _throttleBuffer: MessageBusMessage<string, unknown>[] = [];
   protected _throttleDelay = MESSAGE_BUS_DEFAULT_THROTTLE_DELAY;
   protected _throttleTimerId: ReturnType<typeof setTimeout> | null = null;
+  // Resolves the promise passed to _waitUntil() for the current timer
+  private _resolveThrottleTimer: (() => void) | null = null;
+  private _writesInFlight = 0;
+  private _sequence = 0;
+  // Messages received from elsewhere before anyone listened for them
+  private _unclaimedMessages: MessageBusMessage<string, unknown>[] = [];
 
   constructor(options?: MessageBusOptions) {
     this._options = {
       ...defaultOptions,
       ...options,
     };
+    this._throttleDelay = this._options.flushInterval;
+    if (this._options.messageTypes) {
+      this.registerMessageTypes(this._options.messageTypes);
+    }
   }
 
   protected abstract _writeToExternal(messages: MessageBusMessage<string, unknown>[]): Promise<void>;
@@ -52,33 +151,221 @@ export abstract class MessageBus {
     message: MessageBusMessage<string, unknown>,
   ): void;
 
-  protected _throttledWriteToExternal(message: { type: string; data: unknown }): void {
+  /**
+   * Describes a message being emitted. Subclasses add what only they know,
+   * like the page's URL.
+   */
+  protected _createMessageMeta(): MessageBusMessageMeta {
+    return {
+      id: randomId(),
+      emittedAt: Date.now(),
+      // The edge's MessageBus extends this one too, client-side overrides it.
+      origin: 'edge',
+      sequence: this._sequence++,
+    };
+  }
+
+  protected _throttledWriteToExternal(message: MessageBusMessage<string, unknown>): void {
     this._throttleBuffer.push(message);
+
+    if (this._throttleBuffer.length > this._options.maxBufferLength) {
+      const dropped =
+        this._options.overflow === 'drop-newest' ? this._throttleBuffer.pop()! : this._throttleBuffer.shift()!;
+      // Only to listeners, since buffering it would only make things worse.
+      this._notifyListeners(MESSAGE_DROPPED_MESSAGE_TYPE, {
+        messages: [{ type: dropped.type, data: dropped.data }],
+        reason: 'buffer-full',
+      });
+    }
+
+    // Backpressure: while a write is in flight, let the buffer fill up
+    // instead of starting more. It's checked again when the write finishes.
+    if (this._throttleBuffer.length >= this._options.maxBatchSize && this._writesInFlight === 0) {
+      this.flushToExternal();
+      return;
+    }
+
     if (this._throttleTimerId) {
       return;
     }
 
     this._waitUntil(
       new Promise<void>((resolve) => {
+        this._resolveThrottleTimer = resolve;
         this._throttleTimerId = setTimeout(() => {
           this.flushToExternal();
-          resolve();
         }, this._throttleDelay);
       }),
     );
   }
 
+  private _writeBatch(messages: MessageBusMessage<string, unknown>[]): void {
+    this._writesInFlight++;
+    this._waitUntil(
+      Promise.all([
+        Promise.resolve(this._writeToExternal(messages)).catch((e) => {
+          console.error('MessageBus failed to write messages', e);
+        }),
+        this._options.store?.write(messages).catch((e) => {
+          console.error('MessageBus failed to store messages', e);
+        }),
+      ]).then(() => {
+        this._writesInFlight--;
+        if (this._writesInFlight === 0 && this._throttleBuffer.length >= this._options.maxBatchSize) {
+          this.flushToExternal();
+        }
+      }),
+    );
+  }
+
+  /**
+   * Delivers a message emitted elsewhere, e.g. at the edge, to listeners
+   * here. It isn't written to the external destination, since that's where
+   * it came from. When nobody is listening for it yet, it's held until
+   * someone does.
+   */
+  protected _receive(message: MessageBusMessage<string, unknown>): void {
+    if (!this._checkMessage(message.type, message.data)) {
+      return;
+    }
+
+    if (this._getListeners(message.type).length === 0) {
+      this._unclaimedMessages.push(message);
+      if (this._unclaimedMessages.length > MAX_UNCLAIMED_MESSAGES) {
+        this._unclaimedMessages.shift();
+      }
+      return;
+    }
+
+    this._notifyListeners(message.type, message.data, message.meta);
+  }
+
+  private _claimMessages(type: string): void {
+    const regExp = this._compiledPatterns.get(type);
+    const claimed = this._unclaimedMessages.filter((message) => message.type === type || regExp?.test(message.type));
+    if (claimed.length === 0) {
+      return;
+    }
+    this._unclaimedMessages = this._unclaimedMessages.filter((message) => !claimed.includes(message));
+
+    // Not until on() has returned, so whoever called it can finish setting up.
+    Promise.resolve().then(() => {
+      for (const message of claimed) {
+        this._notifyListeners(message.type, message.data, message.meta);
+      }
+    });
+  }
+
+  /**
+   * Whether a message matches its schema, if it has one. Ones that don't are
+   * rejected or quarantined, depending on `invalidMessages`.
+   */
+  private _checkMessage(type: string, data: unknown): boolean {
+    const errors = validateMessage(this._messageTypes, type, data);
+    if (errors.length === 0) {
+      return true;
+    }
+
+    // Checking the type too, so a replaced quarantine schema can't recurse forever.
+    if (this._options.invalidMessages === 'quarantine' && type !== MESSAGE_QUARANTINED_MESSAGE_TYPE) {
+      this.emit(MESSAGE_QUARANTINED_MESSAGE_TYPE, { type, data, errors });
+    } else {
+      console.warn(`MessageBus rejected an invalid '${type}' message: ${errors.join(', ')}`);
+    }
+    return false;
+  }
+
+  private _getListeners(type: string): MessageBusListener<OutsmartlyMessageEvent<string, unknown>>[] {
+    const listeners = Array.from(this._listenersByMessageType.get(type) ?? []);
+    for (const [pattern, regExp] of Array.from(this._compiledPatterns)) {
+      // A type that's also a pattern already got its listeners above.
+      if (pattern !== type && regExp.test(type)) {
+        listeners.push(...Array.from(this._listenersByMessageType.get(pattern) ?? []));
+      }
+    }
+    return listeners;
+  }
+
+  private _notifyListeners(type: string, data: unknown, meta = this._createMessageMeta()): void {
+    for (const listener of this._getListeners(type)) {
+      const message = new MessageBusMessage(type, data, meta);
+      this._notifyListener(this._isolateListener(listener), message);
+    }
+  }
+
+  /**
+   * Wraps a listener so that whatever it throws, or its promise rejects with,
+   * is reported rather than stopping the other listeners or going unhandled.
+   */
+  private _isolateListener(
+    listener: MessageBusListener<OutsmartlyMessageEvent<string, unknown>>,
+  ): MessageBusListener<OutsmartlyMessageEvent<string, unknown>> {
+    return (event) => {
+      let result: Promise<void> | void;
+      try {
+        result = listener(event);
+      } catch (error) {
+        this._reportListenerError(error, listener, event.message);
+        return;
+      }
+      if (result) {
+        return Promise.resolve(result).catch((error) => {
+          this._reportListenerError(error, listener, event.message);
+        });
+      }
+    };
+  }
+
+  private _reportListenerError(
+    error: unknown,
+    listener: MessageBusListener<OutsmartlyMessageEvent<string, unknown>>,
+    message: MessageBusMessage<string, unknown>,
+  ): void {
+    // Errors shouldn't disappear just because nobody is listening for them,
+    // and one from an error listener would only be reported to itself again.
+    const isUnhandled =
+      message.type === MESSAGE_ERROR_MESSAGE_TYPE || this._getListeners(MESSAGE_ERROR_MESSAGE_TYPE).length === 0;
+    if (this._options.debug || isUnhandled) {
+      console.error(`MessageBus listener for '${message.type}' failed`, error);
+    }
+    if (message.type === MESSAGE_ERROR_MESSAGE_TYPE) {
+      return;
+    }
+    // Only to listeners, since neither the error nor the listener can be written anywhere.
+    this._notifyListeners(MESSAGE_ERROR_MESSAGE_TYPE, {
+      error,
+      listener,
+      message: { type: message.type, data: message.data },
+    });
+  }
+
+  /**
+   * Registers schemas for message types, e.g. from plugins. Once registered,
+   * emitted messages of those types are validated before any listeners are
+   * called or they are sent anywhere. Registering the same type again
+   * replaces its schema.
+   */
+  registerMessageTypes(schemas: MessageSchemas): this {
+    Object.assign(this._messageTypes, schemas);
+    return this;
+  }
+
   /**
    * Listen for messages emitted. When listening at edge-side, the
    * listener is invoked for matching message types coming from both
-   * the client-side *and* edge-side. When listening client-side, only
-   * messages emitted client-side will be received. The direction of
-   * messages is always client -> edge, never edge -> client.
+   * the client-side *and* edge-side. When listening client-side,
+   * messages emitted client-side are received, along with those the
+   * edge sent to this visitor with `event.sendToClient()`. Those can
+   * arrive before anyone listens, so they're held until someone does.
+   *
+   * The type can also be a pattern, where `*` matches anything, e.g.
+   * 'Commerce.Cart.*' for every cart message, or '*' for every message.
    */
   on<T extends keyof MessageDataByType>(
     type: T,
     callback: MessageBusListener<OutsmartlyMessageEvent<T, MessageDataByType[T]>>,
   ): this;
+  on<P extends MessageTypePattern>(pattern: P, callback: MessageBusListener<MatchingMessageEvent<P>>): this;
   on<T extends string, D = unknown>(
     type: T extends keyof MessageDataByType ? never : T,
     callback: MessageBusListener<OutsmartlyMessageEvent<T, D>>,
@@ -87,11 +374,18 @@ export abstract class MessageBus {
     // If it doesn't already have a listener for this message type, add one.
     if (!this._listenersByMessageType.has(type)) {
       this._listenersByMessageType.set(type, new Set());
+      if (isMessageTypePattern(type)) {
+        this._compiledPatterns.set(type, compileMessageTypePattern(type));
+      }
     }
     // Grab the Set of listeners for this message type
     const listeners = this._listenersByMessageType.get(type)!;
     listeners.add(callback);
 
+    if (this._unclaimedMessages.length > 0) {
+      this._claimMessages(type);
+    }
+
     return this;
   }
 
@@ -103,6 +397,7 @@ export abstract class MessageBus {
     type: T,
     callback: MessageBusListener<OutsmartlyMessageEvent<T, MessageDataByType[T]>>,
   ): this;
+  off<P extends MessageTypePattern>(pattern: P, callback: MessageBusListener<MatchingMessageEvent<P>>): this;
   off<T extends string, D = unknown>(
     type: T extends keyof MessageDataByType ? never : T,
     callback: MessageBusListener<OutsmartlyMessageEvent<T, D>>,
@@ -113,6 +408,9 @@ export abstract class MessageBus {
       return this;
     }
     listeners.delete(callback);
+    if (listeners.size === 0 && this._compiledPatterns.delete(type)) {
+      this._listenersByMessageType.delete(type);
+    }
 
     return this;
   }
@@ -125,6 +423,7 @@ export abstract class MessageBus {
     type: T,
     callback: MessageBusListener<OutsmartlyMessageEvent<T, MessageDataByType[T]>>,
   ): this;
+  once<P extends MessageTypePattern>(pattern: P, callback: MessageBusListener<MatchingMessageEvent<P>>): this;
   once<T extends string, D = unknown>(
     type: T extends keyof MessageDataByType ? never : T,
     callback: MessageBusListener<OutsmartlyMessageEvent<T, D>>,
@@ -132,7 +431,7 @@ export abstract class MessageBus {
   once(type: string, callback: MessageBusListener<OutsmartlyMessageEvent<any, any>>): this {
     const outerCallback: MessageBusListener<OutsmartlyMessageEvent<string, unknown>> = (message) => {
       this.off(type, outerCallback);
-      callback(message);
+      return callback(message);
     };
     this.on(type, outerCallback);
 
@@ -142,8 +441,12 @@ export abstract class MessageBus {
   /**
    * Emit an event (i.e. trigger, dispatch, fire) through the MessageBus
    * at the edge. Messages emitted client-side will re-emit at the edge,
-   * but messages emitted edge-side will *not* re-emit client-side. The
-   * direction of messages is always client -> edge, never edge -> client.
+   * but messages emitted edge-side will *not* re-emit client-side. To
+   * send one to the client, use `event.sendToClient()` instead.
+   *
+   * A listener that throws, or whose promise rejects, doesn't affect the
+   * others. Its error is reported to listeners of 'MessageBus.ERROR', or
+   * logged if there aren't any.
    */
   emit<T extends keyof MessageDataByType>(type: T, data: MessageDataByType[T]): this;
   emit<T extends string, D = unknown>(type: T extends keyof MessageDataByType ? never : T, data: D): this;
@@ -152,29 +455,57 @@ export abstract class MessageBus {
       console.log(`MessageBus emit('${type}',`, data, ')');
     }
 
-    this._throttledWriteToExternal({ type, data });
-
-    const listeners = this._listenersByMessageType.get(type);
-    if (!listeners) {
+    if (!this._checkMessage(type, data)) {
       return this;
     }
 
-    for (const listener of Array.from(listeners)) {
-      const message = new MessageBusMessage(type, data);
-      this._notifyListener(listener, message);
-    }
+    const meta = this._createMessageMeta();
+    this._throttledWriteToExternal(new MessageBusMessage(type, data, meta));
+    this._notifyListeners(type, data, meta);
 
     return this;
   }
 
+  /**
+   * Find a visitor's messages, most recent first, e.g. to personalize
+   * based on the products they've viewed:
+   *
+   *   const views = await event.messageBus.query({
+   *     visitorId: event.visitor.id,
+   *     type: 'Commerce.Product.VIEWED',
+   *     limit: 10,
+   *   });
+   *
+   * Only flushed messages are found, from the `store` option.
+   */
+  query<T extends keyof MessageDataByType>(
+    query: MessageQuery & { type: T },
+  ): Promise<MessageBusMessage<T, MessageDataByType[T]>[]>;
+  query(query: MessageQuery): Promise<MessageBusMessage<string, unknown>[]>;
+  async query(query: MessageQuery): Promise<MessageBusMessage<string, unknown>[]> {
+    if (!this._options.store) {
+      throw new Error('MessageBus has no store to query, see the `store` option');
+    }
+    return await this._options.store.query(query);
+  }
+
   /**
    * Force the internal message buffer to flush. When called client-side
    * this will force the MessageBus to send all buffered messages to the
-   * edge immediately. Edge-side this method currently does nothing,
-   * however, eventually it will flush the buffer and immediately write
-   * to a persisted database.
+   * edge immediately, in batches of at most `maxBatchSize`, even if a
+   * previous write hasn't finished. Edge-side the buffer is written to
+   * the `store`, if there is one, where query() can find them.
    */
   flushToExternal(): void {
+    // It's possible this function will be called by someone else directly
+    // in which case we need to cancel the timer if it's still running.
+    if (this._throttleTimerId) {
+      clearTimeout(this._throttleTimerId);
+    }
+    this._throttleTimerId = null;
+    this._resolveThrottleTimer?.();
+    this._resolveThrottleTimer = null;
+
     // No sense calling this._writeToExternal() with a false alarm,
     // that way they don't need to handle emptiness themselves.
     if (this._throttleBuffer.length === 0) {
@@ -185,14 +516,11 @@ export abstract class MessageBus {
       console.log('MessageBus flushToExternal()');
     }
 
-    this._writeToExternal(this._throttleBuffer);
+    const messages = this._throttleBuffer;
+    this._throttleBuffer = [];
 
-    // It's possible this function will be called by someone else directly
-    // in which case we need to cancel the timer if it's still running.
-    if (this._throttleTimerId) {
-      clearTimeout(this._throttleTimerId);
+    for (let i = 0; i < messages.length; i += this._options.maxBatchSize) {
+      this._writeBatch(messages.slice(i, i + this._options.maxBatchSize));
     }
-    this._throttleBuffer = [];
-    this._throttleTimerId = null;
   }
 }
@@ -1,9 +1,50 @@
+/**
+ * Where a message was emitted: in the browser, or at the edge.
+ */
+export type MessageOrigin = 'client' | 'edge';
+
+/**
+ * Describes a message, rather than what happened. Set by the MessageBus when
+ * it's emitted, and sent along with it from the client to the edge.
+ */
+export interface MessageBusMessageMeta {
+  /**
+   * Unique to each message, and kept when it's sent again, e.g. after the
+   * page was closed before it was delivered. The edge ignores messages whose
+   * id it has already seen, so listeners get each one once.
+   */
+  id: string;
+
+  /**
+   * When it was emitted, in milliseconds since the epoch, according to the
+   * clock where it was emitted. Client clocks can be wrong, so use `sequence`
+   * to order messages from the same page.
+   */
+  emittedAt: number;
+
+  origin: MessageOrigin;
+
+  /**
+   * The page it was emitted on, when there is one.
+   */
+  url?: string;
+
+  /**
+   * Counts up from 0 for each MessageBus, i.e. for each page load client-side.
+   */
+  sequence: number;
+
+  visitorId?: string;
+}
+
 /**
  * A message that can be sent to the Message Bus. A message can be an event
  * originating from the user (e.g. a click, a hover, or a page view), or it can
  * be something that occurs in server-side code. The term "message" is used
  * instead of "event" to distinguish these events from `OutsmartlyEvent` events.
+ *
+ * `meta` is missing from messages sent by clients that predate it.
  * */
 export class MessageBusMessage<T extends string, D> {
-  constructor(public type: T, public data: D) {}
+  constructor(public type: T, public data: D, public meta?: MessageBusMessageMeta) {}
 }
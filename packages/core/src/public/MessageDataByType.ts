@@ -1,8 +1,40 @@
-export type MessageDataByType = {
-  'Commerce.Cart.CHECKOUT_STARTED': {
-    items: {
-      productId: string;
-      quantity: number;
-    }[];
-  };
-};
+import { standardMessageTypes } from './messageCatalog';
+import { defineMessageTypes, InferMessageDataByType, schema } from './messageSchema';
+
+export const MESSAGE_QUARANTINED_MESSAGE_TYPE = 'MessageBus.QUARANTINED';
+export const MESSAGE_DROPPED_MESSAGE_TYPE = 'MessageBus.MESSAGES_DROPPED';
+export const MESSAGE_ERROR_MESSAGE_TYPE = 'MessageBus.ERROR';
+
+/**
+ * The message types built into Outsmartly. Their schemas are always
+ * registered, and are the source of MessageDataByType.
+ */
+export const coreMessageTypes = defineMessageTypes({
+  ...standardMessageTypes,
+  'Experiment.EXPOSED': schema.object({
+    experiment: schema.string(),
+    variant: schema.string(),
+    // Whether the variant was forced with a cookie or query parameter
+    forced: schema.boolean(),
+  }),
+  // A message that didn't match its schema, when `invalidMessages` is 'quarantine'
+  [MESSAGE_QUARANTINED_MESSAGE_TYPE]: schema.object({
+    type: schema.string(),
+    data: schema.unknown(),
+    errors: schema.array(schema.string()),
+  }),
+  // Messages that were never written, because the buffer was full
+  [MESSAGE_DROPPED_MESSAGE_TYPE]: schema.object({
+    messages: schema.array(schema.object({ type: schema.string(), data: schema.unknown() })),
+    reason: schema.literal('buffer-full'),
+  }),
+  // A listener that threw, or returned a promise that rejected
+  [MESSAGE_ERROR_MESSAGE_TYPE]: schema.object({
+    error: schema.unknown(),
+    // The listener that failed, the same function that was passed to on()
+    listener: schema.unknown(),
+    message: schema.object({ type: schema.string(), data: schema.unknown() }),
+  }),
+});
+
+export type MessageDataByType = InferMessageDataByType<typeof coreMessageTypes>;
@@ -0,0 +1,81 @@
+import {
+  assertValidCookie,
+  parseCookiesIntoMap,
+  serializeCookieHeader,
+  serializeSetCookie,
+  throwImmutableCookiesError,
+} from '../private/cookies';
+import { SetCookieOptions } from './OutsmartlyCookies';
+
+/**
+ * The browser's cookies as of when it was created, parsed the same way as
+ * OutsmartlyReadonlyCookies at the edge. Only has the cookies JavaScript can
+ * see, so not HttpOnly ones.
+ */
+export class OutsmartlyClientReadonlyCookies extends Map<string, string> {
+  constructor(input: string | null = readDocumentCookie()) {
+    // Map's constructor would call our own set(), same as at the edge.
+    super();
+
+    if (input) {
+      parseCookiesIntoMap(input, this);
+    }
+  }
+
+  override toString(): string {
+    return serializeCookieHeader(this);
+  }
+
+  /**
+   * @ignore
+   */
+  override set(key: string, value: string, options: SetCookieOptions = {}): this {
+    throwImmutableCookiesError('OutsmartlyClientReadonlyCookies', 'set');
+  }
+
+  /**
+   * @ignore
+   */
+  override delete(key: string, options: Pick<SetCookieOptions, 'domain' | 'path'> = {}): boolean {
+    throwImmutableCookiesError('OutsmartlyClientReadonlyCookies', 'delete');
+  }
+}
+
+/**
+ * The browser's cookies, for client-side code. Unlike OutsmartlyCookies at
+ * the edge, changes are written to document.cookie right away.
+ */
+export class OutsmartlyClientCookies extends OutsmartlyClientReadonlyCookies {
+  override set(key: string, value: string, options: SetCookieOptions = {}): this {
+    assertValidCookie(key, options);
+    if (options.httpOnly) {
+      throw new TypeError(`Cookie '${key}' is httpOnly, so it can only be set at the edge, e.g. by middleware.`);
+    }
+
+    writeDocumentCookie(serializeSetCookie(key, value, options));
+    // Can't use super.set() because it is the read-only version
+    Map.prototype.set.call(this, key, value);
+    return this;
+  }
+
+  /**
+   * Removes the cookie. If it was set with a `domain` or `path`, the same
+   * ones are needed to remove it.
+   */
+  override delete(key: string, options: Pick<SetCookieOptions, 'domain' | 'path'> = {}): boolean {
+    writeDocumentCookie(serializeSetCookie(key, '', { ...options, maxAge: 0, expires: new Date(0) }));
+    // Can't use super.delete() because it is the read-only version
+    return Map.prototype.delete.call(this, key);
+  }
+}
+
+// When doing SSR/SSG there's no document, so there are no cookies either.
+function readDocumentCookie(): string | null {
+  return typeof document !== 'undefined' ? document.cookie : null;
+}
+
+function writeDocumentCookie(cookie: string): void {
+  if (typeof document !== 'undefined') {
+    document.cookie = cookie;
+  }
+}
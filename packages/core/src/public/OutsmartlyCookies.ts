@@ -1,48 +1,150 @@
+import { decryptCookieValue, encryptCookieValue, signCookieValue, verifyCookieValue } from '../private/cookieCrypto';
+import {
+  assertValidCookie,
+  parseCookiesIntoMap,
+  serializeCookieHeader,
+  serializeSetCookie,
+  throwImmutableCookiesError,
+} from '../private/cookies';
+
 export interface SetCookieOptions {
-  expires?: string;
+  /**
+   * When the cookie expires, as a Date or an HTTP date string like
+   * 'Wed, 21 Oct 2015 07:28:00 GMT'. Without it, or `maxAge`, the cookie
+   * only lasts for the browser session.
+   */
+  expires?: string | Date;
+
+  /**
+   * How many seconds until the cookie expires. Takes precedence over `expires`.
+   */
   maxAge?: number;
+
   domain?: string;
+
+  /**
+   * Defaults to '/', so the cookie is sent with every request to the site.
+   */
   path?: string;
+
   secure?: boolean;
   httpOnly?: boolean;
   sameSite?: 'Strict' | 'Lax' | 'None';
+
+  /**
+   * Keeps the cookie in separate storage for each top-level site it's set
+   * from, a.k.a. CHIPS. Needs `secure` too.
+   */
+  partitioned?: boolean;
+
+  /**
+   * Which cookies Chromium removes first when there are too many of them.
+   */
+  priority?: 'Low' | 'Medium' | 'High';
+}
+
+export interface OutsmartlyCookiesOptions {
+  /**
+   * The secrets that signed and encrypted cookies use, newest first. New
+   * cookies only use the first one, but cookies from any of them can be
+   * read, so secrets can be rotated by adding a new one at the start, and
+   * removing the last one once its cookies have expired.
+   */
+  secrets?: string[];
+
+  /**
+   * Where tampered signed and encrypted cookies are reported, e.g. `event.warn`.
+   * Defaults to console.warn().
+   */
+  warn?: (...args: any[]) => void;
 }
 
 type CookieChange = { value: string; options: SetCookieOptions };
 
 export class OutsmartlyReadonlyCookies extends Map<string, string> {
-  constructor(entries: [string, string][] | string | null) {
+  constructor(entries: [string, string][] | string | null, protected _options: OutsmartlyCookiesOptions = {}) {
+    // Map's constructor would call our own set(), which is either read-only
+    // or, in subclasses, runs before their fields are initialized.
+    super();
+
     if (typeof entries === 'string') {
-      super();
       parseCookiesIntoMap(entries, this);
       return;
     }
 
-    super(entries);
+    for (const [key, value] of entries ?? []) {
+      Map.prototype.set.call(this, key, value);
+    }
   }
 
-  override toString(): string {
-    const parts = [];
+  /**
+   * The value of a cookie set with setSigned(), or undefined if it's missing
+   * or was tampered with.
+   */
+  async getSigned(key: string): Promise<string | undefined> {
+    const signed = this.get(key);
+    if (signed === undefined) {
+      return undefined;
+    }
+
+    const value = await verifyCookieValue(key, signed, this._getSecrets(key));
+    if (value === undefined) {
+      this._warnTampered(key);
+    }
+    return value;
+  }
 
-    for (const [key, value] of this) {
-      parts.push(`${key}=${value}`);
+  /**
+   * The value of a cookie set with setEncrypted(), or undefined if it's
+   * missing or was tampered with.
+   */
+  async getEncrypted(key: string): Promise<string | undefined> {
+    const encrypted = this.get(key);
+    if (encrypted === undefined) {
+      return undefined;
     }
 
-    return parts.join(';');
+    const value = await decryptCookieValue(key, encrypted, this._getSecrets(key));
+    if (value === undefined) {
+      this._warnTampered(key);
+    }
+    return value;
+  }
+
+  /**
+   * Serializes the cookies the way browsers send them, in a Cookie header.
+   */
+  override toString(): string {
+    return serializeCookieHeader(this);
   }
 
   /**
    * @ignore
    */
   override set(key: string, value: string, options: SetCookieOptions = {}): this {
-    throwImmutableCookiesError('set');
+    throwImmutableCookiesError('OutsmartlyReadonlyCookies', 'set');
+  }
+
+  protected _getSecrets(key: string): string[] {
+    const { secrets = [] } = this._options;
+    if (secrets.length === 0) {
+      throw new TypeError(
+        `Cookie '${key}' is signed or encrypted, so secrets are needed, see the \`cookies.secrets\` config option.`,
+      );
+    }
+    return secrets;
+  }
+
+  private _warnTampered(key: string): void {
+    const { warn = console.warn } = this._options;
+    warn(`Cookie '${key}' was ignored, since it was tampered with, or set using a secret that's no longer configured.`);
   }
 
   /**
    * @ignore
    */
-  override delete(key: string): boolean {
-    throwImmutableCookiesError('delete');
+  override delete(key: string, options: Pick<SetCookieOptions, 'domain' | 'path'> = {}): boolean {
+    throwImmutableCookiesError('OutsmartlyReadonlyCookies', 'delete');
   }
 }
 
@@ -50,37 +152,82 @@ export class OutsmartlyCookies extends OutsmartlyReadonlyCookies {
   private _changes = new Map<string, CookieChange>();
 
   public override set(key: string, value: string, options: SetCookieOptions = {}): this {
+    assertValidCookie(key, options);
+
+    // Removed first, so that it's ordered by when it was last changed.
+    this._changes.delete(key);
     this._changes.set(key, { value, options });
     // Can't use super.set() because it is the read-only version
     Map.prototype.set.call(this, key, value);
     return this;
   }
 
-  override delete(key: string): boolean {
-    const options: SetCookieOptions = {
-      maxAge: -1,
-    };
-    this._changes.set(key, { value: '', options });
+  /**
+   * Sets a cookie that can be read, but not changed, by the visitor. Reading
+   * it with getSigned() gives undefined if they've changed it anyway.
+   */
+  async setSigned(key: string, value: string, options: SetCookieOptions = {}): Promise<this> {
+    return this.set(key, await signCookieValue(key, value, this._getSecrets(key)[0]), options);
+  }
+
+  /**
+   * Sets a cookie that can't be read, or changed, by the visitor. Reading
+   * it with getEncrypted() gives undefined if they've changed it anyway.
+   */
+  async setEncrypted(key: string, value: string, options: SetCookieOptions = {}): Promise<this> {
+    return this.set(key, await encryptCookieValue(key, value, this._getSecrets(key)[0]), options);
+  }
+
+  /**
+   * Removes the cookie. If it was set with a `domain` or `path`, the same
+   * ones are needed to remove it from the browser.
+   */
+  override delete(key: string, options: Pick<SetCookieOptions, 'domain' | 'path'> = {}): boolean {
+    this._changes.delete(key);
+    this._changes.set(key, { value: '', options: { ...options, maxAge: 0, expires: new Date(0) } });
     // Can't use super.delete() because it is the read-only version
     return Map.prototype.delete.call(this, key);
   }
-}
 
-function parseCookiesIntoMap(input: string, map: Map<string, string>): void {
-  if (input.trim() === '') {
-    return;
-  }
+  /**
+   * The Set-Cookie header values for every cookie that was set or deleted,
+   * one per cookie, in the order they were last changed.
+   */
+  toSetCookieHeaders(): string[] {
+    const headers = [];
 
-  const parts = input.split(';');
+    for (const [key, { value, options }] of this._changes) {
+      headers.push(serializeSetCookie(key, value, options));
+    }
 
-  for (let i = 0, l = parts.length; i < l; i++) {
-    const [name, value] = parts[i].split('=');
-    map.set(name.trim(), value);
+    return headers;
   }
-}
 
-function throwImmutableCookiesError(methodName: string): never {
-  throw new TypeError(
-    `Failed to execute '${methodName}' on 'OutsmartlyReadonlyCookies': This instance of cookies is immutable.`,
-  );
+  /**
+   * Adds the Set-Cookie headers for every cookie that was set or deleted to
+   * the response. The edge already does this with `event.cookies` for the
+   * response it sends, so this is for cookies you created yourself.
+   *
+   * Responses from fetch() have immutable headers, so it might be a copy of
+   * the response that's returned, which should be used instead.
+   */
+  applyTo(response: Response): Response {
+    const headers = this.toSetCookieHeaders();
+    if (headers.length === 0) {
+      return response;
+    }
+
+    try {
+      for (const header of headers) {
+        response.headers.append('Set-Cookie', header);
+      }
+      return response;
+    } catch (e) {
+      const copy = new Response(response.body, response);
+      for (const header of headers) {
+        copy.headers.append('Set-Cookie', header);
+      }
+      return copy;
+    }
+  }
 }
@@ -1,7 +1,9 @@
 import { OutsmartlyClientVisitor, OutsmartlyEdgeVisitor, OutsmartlyRequest, OutsmartlyVisitor } from './types';
 import { OutsmartlyCookies, OutsmartlyReadonlyCookies } from './OutsmartlyCookies';
+import { OutsmartlyClientCookies } from './OutsmartlyClientCookies';
 import { MessageBus } from './MessageBus';
 import { MessageBusMessage } from './MessageBusMessage';
+import { MessageDataByType } from './MessageDataByType';
 import { ClientMessageBus } from './ClientMessageBus';
 import { EdgeMessageBus } from './EdgeMessageBus';
 
@@ -15,6 +17,12 @@ export interface OutsmartlyMessageEvent<T extends string, D> extends OutsmartlyE
 }
 
 export abstract class OutsmartlyClientEvent extends OutsmartlyEvent {
+  /**
+   * The browser's cookies, as of when the event was created. Changes are
+   * written to document.cookie right away.
+   */
+  cookies = new OutsmartlyClientCookies();
+
   constructor(
     type: string,
     public override messageBus: ClientMessageBus,
@@ -36,7 +44,14 @@ export class OutsmartlyClientMessageEvent<T extends string, D>
 }
 
 export declare abstract class OutsmartlyEdgeEvent extends OutsmartlyEvent {
-  // no extensions currently
+  /**
+   * Sends a message to this visitor's ClientMessageBus, where it's delivered
+   * to listeners like any other message. It arrives with the response to
+   * the next request the browser can read, i.e. the next page, overrides or
+   * message-bus fetch(), which isn't necessarily the current one.
+   */
+  sendToClient<T extends keyof MessageDataByType>(type: T, data: MessageDataByType[T]): void;
+  sendToClient<T extends string, D = unknown>(type: T extends keyof MessageDataByType ? never : T, data: D): void;
 }
 
 export declare abstract class OutsmartlyEdgeRequestEvent extends OutsmartlyEdgeEvent {
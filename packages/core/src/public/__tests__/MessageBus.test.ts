@@ -2,7 +2,10 @@ import { ClientMessageBus } from '../ClientMessageBus';
 import { OutsmartlyClientMessageEvent } from '../OutsmartlyEvent';
 import { setupMockServer } from '../../tests/setupMockServer';
 import { MESSAGE_BUS_DEFAULT_THROTTLE_DELAY } from '../MessageBus';
+import { MAX_BEACON_BYTES, MAX_RECEIVED_MESSAGE_IDS, PENDING_MESSAGES_STORAGE_KEY } from '../ClientMessageBus';
 import { MessageBusMessage } from '../MessageBusMessage';
+import { defineMessageTypes, schema } from '../messageSchema';
+import { createMemoryMessageStore } from '../messageStore';
 
 function readBlobAsText(blob: Blob): Promise<string> {
   return new Promise((resolve) => {
@@ -14,20 +17,32 @@ function readBlobAsText(blob: Blob): Promise<string> {
   });
 }
 
+// Real timers, since the tests fake them
+function flushPromises(): Promise<void> {
+  return new Promise((resolve) => jest.requireActual('timers').setImmediate(resolve));
+}
+
+// Each message's meta is different, so only its shape is checked.
+function withMeta(messages: { type: string; data: unknown }[]): MessageBusMessage<string, unknown>[] {
+  return messages.map(({ type, data }) => ({
+    type,
+    data,
+    meta: expect.objectContaining({ id: expect.any(String), origin: 'client' }),
+  }));
+}
+
 async function expectSendBeaconCalledWithMessage(
   sendBeaconSpy: jest.SpyInstance,
-  expectedMessages: MessageBusMessage<string, unknown>[],
+  expectedMessages: { type: string; data: unknown }[],
 ): Promise<void> {
   expect(sendBeaconSpy).toBeCalledTimes(1);
-  const body = JSON.stringify(expectedMessages);
-  const expectedBlob = new Blob([body], { type: 'application/json' });
-  expect(sendBeaconSpy).toBeCalledWith('/.outsmartly/message-bus', expectedBlob);
+  expect(sendBeaconSpy).toBeCalledWith('/.outsmartly/message-bus', expect.any(Blob));
 
   const actualBlob = sendBeaconSpy.mock.calls[0][1] as Blob;
   // Blob matching doesn't work, have to manually check it
   // https://github.com/facebook/jest/issues/7372
-  expect(actualBlob.type).toBe(expectedBlob.type);
-  expect(await readBlobAsText(actualBlob)).toBe(await readBlobAsText(expectedBlob));
+  expect(actualBlob.type).toBe('application/json');
+  expect(JSON.parse(await readBlobAsText(actualBlob))).toEqual(withMeta(expectedMessages));
 }
 
 describe('ClientMessageBus', () => {
@@ -47,6 +62,8 @@ describe('ClientMessageBus', () => {
   });
 
   afterEach(() => {
+    messageBus.dispose();
+    localStorage.clear();
     jest.useRealTimers();
     jest.resetAllMocks();
   });
@@ -123,6 +140,290 @@ describe('ClientMessageBus', () => {
     });
   });
 
+  describe('batching', () => {
+    class WriteRecordingMessageBus extends ClientMessageBus {
+      override _waitUntil = jest.fn();
+      override _writeToExternal = jest.fn((_messages: MessageBusMessage<string, unknown>[]) => Promise.resolve());
+    }
+
+    const writtenIds = (bus: WriteRecordingMessageBus) =>
+      bus._writeToExternal.mock.calls.map(([messages]) => messages.map((message) => (message.data as any).id));
+
+    it('writes after flushInterval', () => {
+      const bus = new WriteRecordingMessageBus(visitor, { flushInterval: 50 });
+      bus.emit('Example.FIRST', { id: 1 });
+      jest.advanceTimersByTime(49);
+      expect(bus._writeToExternal).toBeCalledTimes(0);
+      jest.advanceTimersByTime(1);
+      expect(writtenIds(bus)).toEqual([[1]]);
+      bus.dispose();
+    });
+
+    it('writes as soon as a batch is full', () => {
+      const bus = new WriteRecordingMessageBus(visitor, { maxBatchSize: 2 });
+      bus.emit('Example.FIRST', { id: 1 });
+      expect(bus._writeToExternal).toBeCalledTimes(0);
+      bus.emit('Example.FIRST', { id: 2 });
+      expect(writtenIds(bus)).toEqual([[1, 2]]);
+      bus.dispose();
+    });
+
+    it('waits for the previous write to finish before writing a full batch', async () => {
+      const bus = new WriteRecordingMessageBus(visitor, { maxBatchSize: 2 });
+      let finishWrite!: () => void;
+      bus._writeToExternal.mockImplementationOnce(() => new Promise<void>((resolve) => (finishWrite = resolve)));
+
+      for (let id = 1; id <= 5; id++) {
+        bus.emit('Example.FIRST', { id });
+      }
+      expect(writtenIds(bus)).toEqual([[1, 2]]);
+
+      finishWrite();
+      await flushPromises();
+      expect(writtenIds(bus)).toEqual([[1, 2], [3, 4], [5]]);
+      bus.dispose();
+    });
+
+    it.each([
+      ['drop-oldest', 1, [2, 3]],
+      ['drop-newest', 3, [1, 2]],
+    ] as const)('reports messages dropped with %s when the buffer is full', (overflow, droppedId, writtenIdsAfter) => {
+      const bus = new WriteRecordingMessageBus(visitor, { maxBufferLength: 2, overflow });
+      const droppedListener = jest.fn();
+      const listener = jest.fn();
+      bus.on('MessageBus.MESSAGES_DROPPED', droppedListener);
+      bus.on('Example.FIRST', listener);
+
+      for (let id = 1; id <= 3; id++) {
+        bus.emit('Example.FIRST', { id });
+      }
+
+      expect(listener).toBeCalledTimes(3);
+      expect(droppedListener).toBeCalledTimes(1);
+      expect(droppedListener.mock.calls[0][0].message.data).toEqual({
+        messages: [{ type: 'Example.FIRST', data: { id: droppedId } }],
+        reason: 'buffer-full',
+      });
+
+      bus.flushToExternal();
+      expect(writtenIds(bus)).toEqual([writtenIdsAfter]);
+      bus.dispose();
+    });
+  });
+
+  describe('delivery', () => {
+    const messages = [{ type: 'Example.FIRST', data: { first: 1 } }];
+
+    it('flushes when the page is hidden', async () => {
+      messageBus.emit(messages[0].type, messages[0].data);
+      window.dispatchEvent(new Event('pagehide'));
+      await expectSendBeaconCalledWithMessage(sendBeaconSpy, messages);
+
+      messageBus.emit(messages[0].type, messages[0].data);
+      jest.spyOn(document, 'visibilityState', 'get').mockReturnValue('hidden');
+      document.dispatchEvent(new Event('visibilitychange'));
+      expect(sendBeaconSpy).toBeCalledTimes(2);
+    });
+
+    it('does not flush once disposed', () => {
+      messageBus.dispose();
+      messageBus.emit(messages[0].type, messages[0].data);
+      window.dispatchEvent(new Event('pagehide'));
+      expect(sendBeaconSpy).toBeCalledTimes(0);
+    });
+
+    it('falls back to fetch with keepalive when sendBeacon fails', async () => {
+      sendBeaconSpy.mockReturnValue(false);
+      const fetchSpy = jest.spyOn(window, 'fetch').mockResolvedValue(new Response(null, { status: 204 }));
+
+      messageBus.emit(messages[0].type, messages[0].data);
+      messageBus.flushToExternal();
+      await flushPromises();
+
+      expect(fetchSpy).toBeCalledWith(
+        '/.outsmartly/message-bus',
+        expect.objectContaining({ method: 'POST', keepalive: true }),
+      );
+      expect(JSON.parse(fetchSpy.mock.calls[0][1]!.body as string)).toEqual(withMeta(messages));
+      expect(localStorage.getItem(PENDING_MESSAGES_STORAGE_KEY)).toBe(null);
+    });
+
+    it('splits batches that are too big for a beacon', async () => {
+      sendBeaconSpy.mockReturnValue(true);
+      const big = 'x'.repeat(MAX_BEACON_BYTES / 3);
+      for (let i = 0; i < 5; i++) {
+        messageBus.emit('Example.BIG', { i, big });
+      }
+      messageBus.flushToExternal();
+
+      expect(sendBeaconSpy).toBeCalledTimes(3);
+      const batches = await Promise.all(
+        sendBeaconSpy.mock.calls.map(async ([, data]) => {
+          const blob = data as Blob;
+          expect(blob.size).toBeLessThanOrEqual(MAX_BEACON_BYTES);
+          return JSON.parse(await readBlobAsText(blob));
+        }),
+      );
+      expect(batches.flat().map((message) => message.data.i)).toEqual([0, 1, 2, 3, 4]);
+    });
+
+    it('stores unsent messages and retries them on the next page load', async () => {
+      sendBeaconSpy.mockReturnValue(false);
+      jest.spyOn(window, 'fetch').mockRejectedValue(new TypeError('Failed to fetch'));
+
+      messageBus.emit(messages[0].type, messages[0].data);
+      messageBus.flushToExternal();
+      await flushPromises();
+      expect(JSON.parse(localStorage.getItem(PENDING_MESSAGES_STORAGE_KEY)!)).toEqual([
+        { id: expect.any(String), messages: withMeta(messages) },
+      ]);
+
+      sendBeaconSpy.mockReset().mockReturnValue(true);
+      const nextPageMessageBus = new TestMessageBus(visitor);
+      nextPageMessageBus.dispose();
+
+      await expectSendBeaconCalledWithMessage(sendBeaconSpy, messages);
+      expect(localStorage.getItem(PENDING_MESSAGES_STORAGE_KEY)).toBe(null);
+    });
+  });
+
+  describe('message metadata', () => {
+    it('describes each message emitted', () => {
+      const listener = jest.fn();
+      messageBus.on('Example.FIRST', listener);
+      messageBus.emit('Example.FIRST', null);
+      messageBus.emit('Example.FIRST', null);
+
+      const [first, second] = listener.mock.calls.map(([event]) => event.message.meta);
+      expect(first).toEqual({
+        id: expect.any(String),
+        emittedAt: Date.now(),
+        origin: 'client',
+        url: location.href,
+        sequence: 0,
+        visitorId: visitor.id,
+      });
+      expect(second.id).not.toBe(first.id);
+      expect(second.sequence).toBe(1);
+    });
+
+    it('keeps the same meta when messages are retried', async () => {
+      sendBeaconSpy.mockReturnValue(false);
+      jest.spyOn(window, 'fetch').mockRejectedValue(new TypeError('Failed to fetch'));
+      const listener = jest.fn();
+      messageBus.on('Example.FIRST', listener);
+      messageBus.emit('Example.FIRST', null);
+      messageBus.flushToExternal();
+      await flushPromises();
+
+      sendBeaconSpy.mockReset().mockReturnValue(true);
+      new TestMessageBus(visitor).dispose();
+
+      const [sent] = JSON.parse(await readBlobAsText(sendBeaconSpy.mock.calls[0][1] as Blob));
+      expect(sent.meta).toEqual(listener.mock.calls[0][0].message.meta);
+    });
+  });
+
+  describe('store', () => {
+    it('stores flushed messages, so they can be queried', async () => {
+      const store = createMemoryMessageStore();
+      messageBus = new TestMessageBus(visitor, { store });
+      messageBus.emit('Commerce.Product.VIEWED', { product: { productId: '123' } });
+      messageBus.emit('Example.FIRST', { first: 1 });
+
+      expect(await messageBus.query({ visitorId: visitor.id })).toEqual([]);
+      messageBus.flushToExternal();
+
+      const views = await messageBus.query({ visitorId: visitor.id, type: 'Commerce.Product.VIEWED' });
+      expect(views.map((message) => message.data.product.productId)).toEqual(['123']);
+    });
+
+    it('can only be queried with a store', async () => {
+      await expect(messageBus.query({ visitorId: visitor.id })).rejects.toThrow(
+        'MessageBus has no store to query, see the `store` option',
+      );
+    });
+  });
+
+  describe('messages from the edge', () => {
+    const fromEdge = {
+      type: 'Example.RECOMMENDED',
+      data: { productIds: ['123'] },
+      meta: { id: 'edge-message-1', emittedAt: 0, origin: 'edge', sequence: 0 },
+    };
+
+    afterEach(() => {
+      document.getElementById('__OUTSMARTLY_DATA__')?.remove();
+    });
+
+    it('delivers messages from the page once someone listens, without sending them back', async () => {
+      const script = document.createElement('script');
+      script.id = '__OUTSMARTLY_DATA__';
+      script.type = 'application/json';
+      script.textContent = JSON.stringify({ overrides: {}, logs: [], messages: [fromEdge] });
+      document.body.appendChild(script);
+      messageBus.dispose();
+      messageBus = new TestMessageBus(visitor);
+
+      const listener = jest.fn();
+      messageBus.on('Example.*', listener);
+      expect(listener).toBeCalledTimes(0);
+      await flushPromises();
+
+      expect(listener).toBeCalledWith(new OutsmartlyClientMessageEvent(messageBus, visitor, fromEdge as any));
+      messageBus.flushToExternal();
+      expect(sendBeaconSpy).toBeCalledTimes(0);
+    });
+
+    it('delivers messages in the response to fetch()', async () => {
+      sendBeaconSpy.mockReturnValue(false);
+      const fetchSpy = jest.spyOn(window, 'fetch').mockResolvedValue(
+        new Response(JSON.stringify({ success: true, errors: [], result: { messages: [fromEdge] } }), {
+          status: 200,
+        }),
+      );
+      const listener = jest.fn();
+      messageBus.on('Example.RECOMMENDED', listener);
+
+      messageBus.emit('Example.FIRST', { first: 1 });
+      messageBus.flushToExternal();
+      await flushPromises();
+
+      expect(fetchSpy.mock.calls[0][1]!.headers).toEqual(
+        expect.objectContaining({ 'Outsmartly-Receive-Messages': 'true' }),
+      );
+      expect(listener).toBeCalledTimes(1);
+      expect(listener.mock.calls[0][0].message.data).toEqual(fromEdge.data);
+    });
+
+    it('delivers messages dispatched by the SDK, ignoring ones already received', () => {
+      const listener = jest.fn();
+      messageBus.on('Example.RECOMMENDED', listener);
+
+      window.dispatchEvent(new CustomEvent('outsmartlymessages', { detail: [fromEdge] }));
+      window.dispatchEvent(new CustomEvent('outsmartlymessages', { detail: [fromEdge] }));
+
+      expect(listener).toBeCalledTimes(1);
+    });
+
+    it('forgets the oldest ids it received', () => {
+      const listener = jest.fn();
+      messageBus.on('Example.RECOMMENDED', listener);
+      const withId = (id: string) => ({ ...fromEdge, meta: { ...fromEdge.meta, id } });
+      const receive = (ids: string[]) =>
+        window.dispatchEvent(new CustomEvent('outsmartlymessages', { detail: ids.map(withId) }));
+
+      receive(Array.from({ length: MAX_RECEIVED_MESSAGE_IDS + 1 }, (_, i) => `id-${i}`));
+      expect(listener).toBeCalledTimes(MAX_RECEIVED_MESSAGE_IDS + 1);
+
+      receive([`id-${MAX_RECEIVED_MESSAGE_IDS}`, 'id-1']);
+      expect(listener).toBeCalledTimes(MAX_RECEIVED_MESSAGE_IDS + 1);
+
+      receive(['id-0']);
+      expect(listener).toBeCalledTimes(MAX_RECEIVED_MESSAGE_IDS + 2);
+    });
+  });
+
   describe('on()', () => {
     it('does not invoke listener for previously (missed) messages', () => {
       const type = 'Example.FIRST';
@@ -156,6 +457,180 @@ describe('ClientMessageBus', () => {
         new OutsmartlyClientMessageEvent(messageBus, visitor, {
           type,
           data,
+          meta: expect.any(Object),
+        }),
+      );
+    });
+  });
+
+  describe('patterns', () => {
+    const item = { productId: '123', quantity: 1 };
+
+    it('invokes listeners for every matching message type', () => {
+      const cartListener = jest.fn();
+      const everythingListener = jest.fn();
+      messageBus.on('Commerce.Cart.*', cartListener);
+      messageBus.on('*', everythingListener);
+
+      messageBus.emit('Commerce.Cart.ITEM_ADDED', { item });
+      messageBus.emit('Commerce.Cart.CHECKOUT_STARTED', { items: [item] });
+      messageBus.emit('Commerce.Product.VIEWED', { product: { productId: '123' } });
+      messageBus.emit('Example.FIRST', { first: 1 });
+
+      expect(cartListener.mock.calls.map(([event]) => event.message.type)).toEqual([
+        'Commerce.Cart.ITEM_ADDED',
+        'Commerce.Cart.CHECKOUT_STARTED',
+      ]);
+      expect(everythingListener).toBeCalledTimes(4);
+    });
+
+    it('matches wildcards in the middle, and treats dots literally', () => {
+      const listener = jest.fn();
+      messageBus.on('Commerce.*.VIEWED', listener);
+
+      messageBus.emit('Commerce.Product.VIEWED', { product: { productId: '123' } });
+      messageBus.emit('Commerce.Cart.VIEWED', { items: [] });
+      messageBus.emit('CommerceXProductXVIEWED', null);
+      messageBus.emit('Commerce.Cart.ITEM_ADDED', { item });
+
+      expect(listener).toBeCalledTimes(2);
+    });
+
+    it('stops listening with off() and once()', () => {
+      const listener = jest.fn();
+      const onceListener = jest.fn();
+      messageBus.on('Commerce.*', listener);
+      messageBus.once('Commerce.*', onceListener);
+
+      messageBus.emit('Commerce.Cart.ITEM_ADDED', { item });
+      messageBus.off('Commerce.*', listener);
+      messageBus.emit('Commerce.Cart.ITEM_ADDED', { item });
+
+      expect(listener).toBeCalledTimes(1);
+      expect(onceListener).toBeCalledTimes(1);
+    });
+
+    it('narrows to the matching message types', () => {
+      const productIds: string[] = [];
+      messageBus.on('Commerce.Cart.*', ({ message }) => {
+        if (message.type === 'Commerce.Cart.ITEM_ADDED') {
+          productIds.push(message.data.item.productId);
+        }
+        // @ts-expect-error Not a cart message
+        if (message.type === 'Commerce.Product.VIEWED') {
+          productIds.push('never');
+        }
+      });
+
+      messageBus.emit('Commerce.Cart.ITEM_ADDED', { item });
+      expect(productIds).toEqual(['123']);
+    });
+  });
+
+  describe('listener errors', () => {
+    it('keeps calling the other listeners when one throws', () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      const error = new Error('listener failed');
+      const failingListener = jest.fn(() => {
+        throw error;
+      });
+      const listener = jest.fn();
+      const errorListener = jest.fn();
+      messageBus.on('Example.CLICKED', failingListener);
+      messageBus.on('Example.CLICKED', listener);
+      messageBus.on('MessageBus.ERROR', errorListener);
+
+      expect(() => messageBus.emit('Example.CLICKED', { id: 1 })).not.toThrow();
+
+      expect(listener).toBeCalledTimes(1);
+      expect(errorListener).toBeCalledWith(
+        new OutsmartlyClientMessageEvent(messageBus, visitor, {
+          type: 'MessageBus.ERROR',
+          data: { error, listener: failingListener, message: { type: 'Example.CLICKED', data: { id: 1 } } },
+          meta: expect.any(Object),
+        }),
+      );
+      expect(console.error).toBeCalledTimes(0);
+    });
+
+    it('reports rejected promises, including from once()', async () => {
+      const error = new Error('listener failed');
+      const failingListener = jest.fn(() => Promise.reject(error));
+      const errorListener = jest.fn();
+      messageBus.once('Example.CLICKED', failingListener);
+      messageBus.on('MessageBus.ERROR', errorListener);
+
+      messageBus.emit('Example.CLICKED', { id: 1 });
+      // The promise given to waitUntil() never rejects
+      await expect(messageBus._waitUntil.mock.calls[1][0]).resolves.toBeUndefined();
+
+      expect(errorListener).toBeCalledTimes(1);
+      expect(errorListener.mock.calls[0][0].message.data.error).toBe(error);
+    });
+
+    it('logs errors when nobody is listening for them, or with debug', () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      jest.spyOn(console, 'log').mockImplementation(() => {});
+      const error = new Error('listener failed');
+      messageBus.on('Example.CLICKED', () => {
+        throw error;
+      });
+
+      messageBus.emit('Example.CLICKED', { id: 1 });
+      expect(errorSpy).toBeCalledWith("MessageBus listener for 'Example.CLICKED' failed", error);
+
+      errorSpy.mockClear();
+      messageBus = new TestMessageBus(visitor, { debug: true });
+      messageBus.on('Example.CLICKED', () => {
+        throw error;
+      });
+      messageBus.on('MessageBus.ERROR', () => {});
+      messageBus.emit('Example.CLICKED', { id: 1 });
+      expect(errorSpy).toBeCalledWith("MessageBus listener for 'Example.CLICKED' failed", error);
+    });
+  });
+
+  describe('message schemas', () => {
+    const messageTypes = defineMessageTypes({
+      'Example.VIEWED': schema.object({ id: schema.string() }),
+    });
+
+    it('rejects invalid messages before listeners are called', () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      messageBus = new TestMessageBus(visitor, { messageTypes });
+      const listener = jest.fn();
+      messageBus.on('Example.VIEWED', listener);
+
+      messageBus.emit('Example.VIEWED', { id: 123 });
+      messageBus.emit('Commerce.Cart.CHECKOUT_STARTED', { items: null } as any);
+      messageBus.flushToExternal();
+
+      expect(listener).toBeCalledTimes(0);
+      expect(sendBeaconSpy).toBeCalledTimes(0);
+      expect(warnSpy).toBeCalledWith(
+        "MessageBus rejected an invalid 'Example.VIEWED' message: data.id must be a string",
+      );
+
+      messageBus.emit('Example.VIEWED', { id: 'a' });
+      expect(listener).toBeCalledTimes(1);
+    });
+
+    it('quarantines invalid messages', () => {
+      messageBus = new TestMessageBus(visitor, { invalidMessages: 'quarantine' });
+      messageBus.registerMessageTypes(messageTypes);
+      const listener = jest.fn();
+      const quarantineListener = jest.fn();
+      messageBus.on('Example.VIEWED', listener);
+      messageBus.on('MessageBus.QUARANTINED', quarantineListener);
+
+      messageBus.emit('Example.VIEWED', { id: 123 });
+
+      expect(listener).toBeCalledTimes(0);
+      expect(quarantineListener).toBeCalledWith(
+        new OutsmartlyClientMessageEvent(messageBus, visitor, {
+          type: 'MessageBus.QUARANTINED',
+          data: { type: 'Example.VIEWED', data: { id: 123 }, errors: ['data.id must be a string'] },
+          meta: expect.any(Object),
         }),
       );
     });
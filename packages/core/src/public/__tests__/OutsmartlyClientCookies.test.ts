@@ -0,0 +1,62 @@
+import { OutsmartlyClientCookies, OutsmartlyClientReadonlyCookies } from '../OutsmartlyClientCookies';
+
+function clearCookies() {
+  for (const name of new OutsmartlyClientReadonlyCookies().keys()) {
+    document.cookie = `${name}=; Expires=Thu, 01 Jan 1970 00:00:00 GMT`;
+  }
+}
+
+describe('OutsmartlyClientReadonlyCookies', () => {
+  afterEach(clearCookies);
+
+  it('parses document.cookie the same way as at the edge', () => {
+    document.cookie = 'a=1';
+    document.cookie = 'name=J%C3%B6rg';
+    document.cookie = 'quoted="a b"';
+
+    const cookies = new OutsmartlyClientReadonlyCookies();
+    expect(Array.from(cookies)).toEqual([
+      ['a', '1'],
+      ['name', 'Jörg'],
+      ['quoted', 'a b'],
+    ]);
+    expect(cookies.toString()).toBe('a=1; name=J%C3%B6rg; quoted=a%20b');
+  });
+
+  it('can be given the cookies to parse', () => {
+    const cookies = new OutsmartlyClientReadonlyCookies(' theme=dark ;theme=light; flag');
+    expect(Array.from(cookies)).toEqual([['theme', 'dark']]);
+  });
+
+  it('is read-only', () => {
+    const cookies = new OutsmartlyClientReadonlyCookies('a=1');
+    expect(() => cookies.set('b', '2')).toThrow(TypeError);
+    expect(() => cookies.delete('a')).toThrow(TypeError);
+    expect(document.cookie).toBe('');
+  });
+});
+
+describe('OutsmartlyClientCookies', () => {
+  afterEach(clearCookies);
+
+  it('writes changes to document.cookie', () => {
+    document.cookie = 'old=1';
+    const cookies = new OutsmartlyClientCookies();
+
+    cookies.set('theme', 'dark; light', { maxAge: 3600, sameSite: 'Lax' });
+    cookies.delete('old');
+
+    expect(document.cookie).toBe('theme=dark%3B%20light');
+    expect(Array.from(cookies)).toEqual([['theme', 'dark; light']]);
+    expect(new OutsmartlyClientReadonlyCookies().get('theme')).toBe('dark; light');
+  });
+
+  it('throws for cookies the browser would ignore', () => {
+    const cookies = new OutsmartlyClientCookies();
+    expect(() => cookies.set('a b', '1')).toThrow(TypeError);
+    expect(() => cookies.set('session', '1', { httpOnly: true })).toThrow(TypeError);
+    expect(() => cookies.set('session', '1', { partitioned: true })).toThrow(TypeError);
+    expect(document.cookie).toBe('');
+    expect(cookies.size).toBe(0);
+  });
+});
@@ -0,0 +1,166 @@
+import { OutsmartlyCookies, OutsmartlyReadonlyCookies } from '../OutsmartlyCookies';
+
+describe('OutsmartlyReadonlyCookies', () => {
+  it('parses a Cookie header', () => {
+    const cookies = new OutsmartlyReadonlyCookies(
+      ' token=eyJhbGciOiJIUzI1NiJ9.e30=.abc== ; quoted="a b"; name=J%C3%B6rg;flag; =nameless; empty=',
+    );
+    expect(Array.from(cookies)).toEqual([
+      ['token', 'eyJhbGciOiJIUzI1NiJ9.e30=.abc=='],
+      ['quoted', 'a b'],
+      ['name', 'Jörg'],
+      ['empty', ''],
+    ]);
+  });
+
+  it('keeps the first of repeated names, and values that fail to decode as they are', () => {
+    const cookies = new OutsmartlyReadonlyCookies('theme=dark; discount=100%; theme=light');
+    expect(cookies.get('theme')).toBe('dark');
+    expect(cookies.get('discount')).toBe('100%');
+  });
+
+  it('serializes back into a Cookie header', () => {
+    const header = 'a=1; b=x%3By%20z; c=abc==';
+    const cookies = new OutsmartlyReadonlyCookies(header);
+    expect(cookies.get('b')).toBe('x;y z');
+    expect(cookies.toString()).toBe(header);
+  });
+
+  it('is read-only', () => {
+    const cookies = new OutsmartlyReadonlyCookies('a=1');
+    expect(() => cookies.set('b', '2')).toThrow(TypeError);
+    expect(() => cookies.delete('a')).toThrow(TypeError);
+  });
+});
+
+describe('OutsmartlyCookies', () => {
+  it('serializes every option into Set-Cookie headers', () => {
+    const cookies = new OutsmartlyCookies('old=1');
+    cookies.set('session', 'a=b;c', {
+      expires: new Date(Date.UTC(2030, 0, 1)),
+      maxAge: 3600.5,
+      domain: 'example.com',
+      path: '/account',
+      secure: true,
+      httpOnly: true,
+      sameSite: 'None',
+      partitioned: true,
+      priority: 'High',
+    });
+    cookies.set('theme', 'dark', { expires: 'Wed, 21 Oct 2015 07:28:00 GMT' });
+    cookies.delete('old', { path: '/account' });
+
+    expect(cookies.toSetCookieHeaders()).toEqual([
+      'session=a=b%3Bc; Expires=Tue, 01 Jan 2030 00:00:00 GMT; Max-Age=3600; Domain=example.com; Path=/account; Secure; HttpOnly; SameSite=None; Partitioned; Priority=High',
+      'theme=dark; Expires=Wed, 21 Oct 2015 07:28:00 GMT; Path=/',
+      'old=; Expires=Thu, 01 Jan 1970 00:00:00 GMT; Max-Age=0; Path=/account',
+    ]);
+    expect(Array.from(cookies)).toEqual([
+      ['session', 'a=b;c'],
+      ['theme', 'dark'],
+    ]);
+  });
+
+  it('only keeps the last change to each cookie, in the order they were last changed', () => {
+    const cookies = new OutsmartlyCookies(null);
+    cookies.set('a', '1');
+    cookies.set('b', '1');
+    cookies.delete('a');
+    cookies.set('a', '2');
+    expect(cookies.toSetCookieHeaders()).toEqual(['b=1; Path=/', 'a=2; Path=/']);
+  });
+
+  it('applies the changes to a response', () => {
+    const cookies = new OutsmartlyCookies(null);
+    const response = new Response('Hello');
+    expect(cookies.applyTo(response)).toBe(response);
+
+    cookies.set('a', '1');
+    cookies.set('b', '2', { httpOnly: true });
+    const applied = cookies.applyTo(response);
+    expect(applied.headers.get('Set-Cookie')).toBe('a=1; Path=/, b=2; Path=/; HttpOnly');
+  });
+
+  it('rejects invalid names, and partitioned cookies that are not secure', () => {
+    const cookies = new OutsmartlyCookies(null);
+    expect(() => cookies.set('a b', '1')).toThrow(TypeError);
+    expect(() => cookies.set('a;b', '1')).toThrow(TypeError);
+    expect(() => cookies.set('a', '1', { partitioned: true })).toThrow(TypeError);
+    expect(cookies.toSetCookieHeaders()).toEqual([]);
+  });
+});
+
+describe('signed and encrypted cookies', () => {
+  function sendBack(cookies: OutsmartlyCookies, secrets: string[], warn = jest.fn()): OutsmartlyReadonlyCookies {
+    const header = cookies
+      .toSetCookieHeaders()
+      .map((setCookie) => setCookie.split(';')[0])
+      .join('; ');
+    return new OutsmartlyReadonlyCookies(header, { secrets, warn });
+  }
+
+  it('reads back what was set', async () => {
+    const cookies = new OutsmartlyCookies(null, { secrets: ['secret'] });
+    await cookies.setSigned('flags', 'beta=on;dark', { httpOnly: true });
+    await cookies.setEncrypted('bucket', 'variant-b');
+    expect(cookies.get('bucket')).not.toContain('variant-b');
+
+    const received = sendBack(cookies, ['secret']);
+    expect(await received.getSigned('flags')).toBe('beta=on;dark');
+    expect(await received.getEncrypted('bucket')).toBe('variant-b');
+    expect(await received.getSigned('missing')).toBeUndefined();
+  });
+
+  it('ignores tampered cookies, and warns about them', async () => {
+    const cookies = new OutsmartlyCookies(null, { secrets: ['secret'] });
+    await cookies.setSigned('bucket', 'a');
+    await cookies.setEncrypted('flags', 'beta');
+    await cookies.setSigned('moved', 'a');
+    const [signed, encrypted, moved] = Array.from(cookies.values());
+
+    const warn = jest.fn();
+    const tampered = new OutsmartlyReadonlyCookies(
+      [
+        ['bucket', signed.replace(/^a\./, 'b.')],
+        ['flags', encrypted.slice(0, -2) + (encrypted.endsWith('AA') ? 'BA' : 'AA')],
+        ['other', moved],
+        ['unsigned', 'a'],
+      ],
+      { secrets: ['secret'], warn },
+    );
+
+    expect(await tampered.getSigned('bucket')).toBeUndefined();
+    expect(await tampered.getEncrypted('flags')).toBeUndefined();
+    expect(await tampered.getSigned('other')).toBeUndefined();
+    expect(await tampered.getSigned('unsigned')).toBeUndefined();
+    expect(await tampered.getEncrypted('unsigned')).toBeUndefined();
+    expect(warn).toBeCalledTimes(5);
+    expect(warn).toBeCalledWith(expect.stringContaining("Cookie 'bucket' was ignored"));
+  });
+
+  it('reads cookies from older secrets, while setting new ones with the first', async () => {
+    const old = new OutsmartlyCookies(null, { secrets: ['old'] });
+    await old.setSigned('a', '1');
+    await old.setEncrypted('b', '2');
+
+    const warn = jest.fn();
+    const rotated = sendBack(old, ['new', 'old'], warn);
+    expect(await rotated.getSigned('a')).toBe('1');
+    expect(await rotated.getEncrypted('b')).toBe('2');
+
+    const retired = sendBack(old, ['new'], warn);
+    expect(await retired.getSigned('a')).toBeUndefined();
+    expect(await retired.getEncrypted('b')).toBeUndefined();
+    expect(warn).toBeCalledTimes(2);
+
+    const current = new OutsmartlyCookies(null, { secrets: ['new', 'old'] });
+    await current.setSigned('a', '1');
+    expect(await sendBack(current, ['new']).getSigned('a')).toBe('1');
+  });
+
+  it('needs secrets', async () => {
+    const cookies = new OutsmartlyCookies('a=1.abc');
+    await expect(cookies.setSigned('b', '2')).rejects.toThrow(TypeError);
+    await expect(cookies.getSigned('a')).rejects.toThrow(TypeError);
+  });
+});
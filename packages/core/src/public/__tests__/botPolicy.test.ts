@@ -0,0 +1,133 @@
+import { botPolicy, getBotAction, getBotChallengeToken, isPersonalizationSkipped } from '../botPolicy';
+import { createTestMiddlewareEvent, TestEdgeEventOptions } from '../testing';
+
+describe('botPolicy()', () => {
+  function run(middleware: ReturnType<typeof botPolicy>, options: TestEdgeEventOptions) {
+    const event = createTestMiddlewareEvent(options);
+    const next = jest.fn(() => new Response('origin'));
+    return { event, next, response: middleware(event, next) as Promise<Response> };
+  }
+
+  it('lets humans through untouched', async () => {
+    const { event, next, response } = run(botPolicy(), { visitor: { bot: { score: 10 } } });
+    expect(await (await response).text()).toBe('origin');
+    expect(next).toHaveBeenCalled();
+    expect(isPersonalizationSkipped(event)).toBe(false);
+  });
+
+  it('strips personalization for likely bots', async () => {
+    const { event, next, response } = run(botPolicy(), { visitor: { bot: { score: 60 } } });
+    expect(await (await response).text()).toBe('origin');
+    expect(next).toHaveBeenCalled();
+    expect(isPersonalizationSkipped(event)).toBe(true);
+  });
+
+  it('blocks bad bots', async () => {
+    const { next, response } = run(botPolicy(), { visitor: { bot: { score: 99 } } });
+    expect((await response).status).toBe(403);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('always lets verified bots through, without personalization', async () => {
+    const { event, next, response } = run(botPolicy({ thresholds: { block: 0 } }), {
+      visitor: { bot: { score: 100, verified: true } },
+    });
+    expect(await (await response).text()).toBe('origin');
+    expect(next).toHaveBeenCalled();
+    expect(isPersonalizationSkipped(event)).toBe(true);
+  });
+
+  // What a browser sends when loading a page
+  const navigation = () => new Request('https://example.outsmartly.app/', { headers: { accept: 'text/html' } });
+
+  it('challenges bots until they have the challenge cookie', async () => {
+    const policy = botPolicy({ thresholds: { challenge: 50 }, challengeSecret: 'shh' });
+    const visitor = { id: 'abc', bot: { score: 70 } };
+    const token = await getBotChallengeToken('abc', 'shh');
+
+    const challenged = run(policy, { request: navigation(), visitor });
+    const challengeResponse = await challenged.response;
+    expect(challengeResponse.status).toBe(403);
+    expect(challengeResponse.headers.get('content-type')).toContain('text/html');
+    expect(await challengeResponse.text()).toContain(`outsmartly-bot-challenge=${token}`);
+    expect(challenged.next).not.toHaveBeenCalled();
+
+    const wrongSecret = run(policy, {
+      request: navigation(),
+      visitor,
+      cookies: { 'outsmartly-bot-challenge': await getBotChallengeToken('abc', 'not shh') },
+    });
+    expect((await wrongSecret.response).status).toBe(403);
+
+    const otherVisitor = run(policy, {
+      request: navigation(),
+      visitor,
+      cookies: { 'outsmartly-bot-challenge': await getBotChallengeToken('xyz', 'shh') },
+    });
+    expect((await otherVisitor.response).status).toBe(403);
+
+    const passed = run(policy, { request: navigation(), visitor, cookies: { 'outsmartly-bot-challenge': token } });
+    expect(await (await passed.response).text()).toBe('origin');
+    expect(isPersonalizationSkipped(passed.event)).toBe(false);
+  });
+
+  it('blocks requests that are not page navigations instead of challenging them', async () => {
+    const policy = botPolicy({ thresholds: { challenge: 50 }, challengeSecret: 'shh' });
+    const visitor = { id: 'abc', bot: { score: 70 } };
+    const messageBus = new Request('https://example.outsmartly.app/.outsmartly/message-bus', {
+      method: 'POST',
+      headers: { accept: '*/*' },
+      body: '[]',
+    });
+
+    for (const request of [messageBus, 'https://example.outsmartly.app/image.png']) {
+      const blocked = run(policy, { request, visitor });
+      const response = await blocked.response;
+      expect(response.status).toBe(403);
+      expect(response.headers.get('content-type')).toContain('text/plain');
+      expect(blocked.next).not.toHaveBeenCalled();
+    }
+
+    const cookies = { 'outsmartly-bot-challenge': await getBotChallengeToken('abc', 'shh') };
+    const passed = run(policy, { request: 'https://example.outsmartly.app/image.png', visitor, cookies });
+    expect(await (await passed.response).text()).toBe('origin');
+  });
+
+  it('requires a secret to challenge bots', async () => {
+    expect(() => botPolicy({ thresholds: { challenge: 50 } })).toThrow(TypeError);
+    expect(() => botPolicy({ thresholds: { strip: 50 } })).not.toThrow();
+    await expect(getBotChallengeToken('abc', '')).rejects.toThrow(TypeError);
+  });
+
+  it('uses custom responses', async () => {
+    const policy = botPolicy({
+      thresholds: { challenge: 50, block: 90 },
+      challengeSecret: 'shh',
+      blockResponse: () => new Response('go away', { status: 429 }),
+      challengeResponse: () => new Response('captcha', { status: 401 }),
+    });
+    expect((await run(policy, { visitor: { bot: { score: 95 } } }).response).status).toBe(429);
+    expect((await run(policy, { request: navigation(), visitor: { bot: { score: 60 } } }).response).status).toBe(401);
+  });
+
+  it('drops MessageBus messages from bots', async () => {
+    const request = new Request('https://example.outsmartly.app/.outsmartly/message-bus', {
+      method: 'POST',
+      body: '[]',
+    });
+    const { next, response } = run(botPolicy(), { request, visitor: { bot: { score: 60 } } });
+    expect((await response).status).toBe(204);
+    expect(next).not.toHaveBeenCalled();
+  });
+});
+
+describe('getBotAction()', () => {
+  it('picks the most severe action the score reaches', () => {
+    const thresholds = { strip: 30, challenge: 60, block: 90 };
+    expect(getBotAction({ score: 29, verified: false }, thresholds)).toBe(null);
+    expect(getBotAction({ score: 30, verified: false }, thresholds)).toBe('strip');
+    expect(getBotAction({ score: 60, verified: false }, thresholds)).toBe('challenge');
+    expect(getBotAction({ score: 100, verified: false }, thresholds)).toBe('block');
+    expect(getBotAction({ score: 100, verified: false }, {})).toBe(null);
+  });
+});
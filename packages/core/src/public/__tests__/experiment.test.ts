@@ -0,0 +1,155 @@
+import { experiment } from '../experiment';
+import { createTestOverrideEvent } from '../testing';
+
+describe('experiment()', () => {
+  const variants = [
+    { name: 'control', value: null },
+    { name: 'big-image', value: { imageSize: 'big' } },
+  ];
+
+  function eventFor(visitorId: string, request?: string, cookies?: { [name: string]: string }) {
+    return createTestOverrideEvent({ visitor: { id: visitorId }, request, cookies });
+  }
+
+  it('assigns the same visitor to the same variant every time', () => {
+    const heroExperiment = experiment({ name: 'homepage-hero', variants });
+    for (let i = 0; i < 20; i++) {
+      const visitorId = `visitor-${i}`;
+      const first = heroExperiment.assign(eventFor(visitorId));
+      expect(heroExperiment.assign(eventFor(visitorId))).toEqual(first);
+      expect(experiment({ name: 'homepage-hero', variants }).assign(eventFor(visitorId))).toEqual(first);
+    }
+  });
+
+  it('splits visitors according to the weights', () => {
+    const weighted = experiment({
+      name: 'weighted',
+      variants: [
+        { name: 'a', weight: 1, value: 'a' },
+        { name: 'b', weight: 3, value: 'b' },
+        { name: 'never', weight: 0, value: 'never' },
+      ],
+    });
+    const counts: { [name: string]: number } = { a: 0, b: 0, never: 0 };
+    const total = 4000;
+    for (let i = 0; i < total; i++) {
+      counts[weighted.assign(eventFor(`visitor-${i}`)).variant]++;
+    }
+    expect(counts.a / total).toBeCloseTo(0.25, 1);
+    expect(counts.b / total).toBeCloseTo(0.75, 1);
+    expect(counts.never).toBe(0);
+  });
+
+  it('splits evenly without weights', () => {
+    const even = experiment({ name: 'even', variants });
+    let controlCount = 0;
+    const total = 4000;
+    for (let i = 0; i < total; i++) {
+      if (even.assign(eventFor(`visitor-${i}`)).variant === 'control') {
+        controlCount++;
+      }
+    }
+    expect(controlCount / total).toBeCloseTo(0.5, 1);
+  });
+
+  it('assigns differently for a different salt', () => {
+    const original = experiment({ name: 'salty', variants });
+    const reshuffled = experiment({ name: 'salty', salt: 'round-2', variants });
+    const changed = Array.from({ length: 100 }, (_, i) => eventFor(`visitor-${i}`)).filter(
+      (event) => original.assign(event).variant !== reshuffled.assign(event).variant,
+    );
+    expect(changed.length).toBeGreaterThan(20);
+  });
+
+  it('provides the variant value, e.g. to use as props', async () => {
+    const heroExperiment = experiment({ name: 'homepage-hero', variants });
+    const event = eventFor('abc', 'https://example.outsmartly.app/?outsmartly-experiment-homepage-hero=big-image');
+    const override = {
+      component: 'Hero',
+      getOverrideProps(event: ReturnType<typeof eventFor>) {
+        const { value } = heroExperiment.expose(event);
+        if (value) {
+          return { props: value };
+        }
+      },
+    };
+    expect(override.getOverrideProps(event)).toEqual({ props: { imageSize: 'big' } });
+  });
+
+  it('can be forced with a query parameter or cookie', () => {
+    const heroExperiment = experiment({ name: 'homepage-hero', variants });
+    const byQuery = eventFor('abc', 'https://example.outsmartly.app/?outsmartly-experiment-homepage-hero=control');
+    const byCookie = eventFor('abc', undefined, { 'outsmartly-experiment-homepage-hero': 'big-image' });
+    const byBoth = eventFor('abc', 'https://example.outsmartly.app/?outsmartly-experiment-homepage-hero=control', {
+      'outsmartly-experiment-homepage-hero': 'big-image',
+    });
+
+    expect(heroExperiment.assign(byQuery)).toMatchObject({ variant: 'control', forced: true });
+    expect(heroExperiment.assign(byCookie)).toMatchObject({ variant: 'big-image', forced: true });
+    expect(heroExperiment.assign(byBoth)).toMatchObject({ variant: 'control', forced: true });
+  });
+
+  it('ignores forcing with an unknown variant, or when disabled', () => {
+    const unknown = eventFor('abc', 'https://example.outsmartly.app/?outsmartly-experiment-homepage-hero=nope');
+    expect(experiment({ name: 'homepage-hero', variants }).assign(unknown).forced).toBe(false);
+
+    const forced = eventFor('abc', 'https://example.outsmartly.app/?outsmartly-experiment-homepage-hero=control');
+    expect(experiment({ name: 'homepage-hero', variants, forceParamName: false }).assign(forced).forced).toBe(false);
+    expect(experiment({ name: 'homepage-hero', variants, forceParamName: 'hero' }).assign(forced).forced).toBe(false);
+  });
+
+  it('emits an exposure message once per event', () => {
+    const heroExperiment = experiment({ name: 'homepage-hero', variants });
+    const event = eventFor('abc');
+    const { variant } = heroExperiment.expose(event);
+    heroExperiment.expose(event);
+
+    expect(event.messageBus.emittedMessages).toEqual([
+      expect.objectContaining({
+        type: 'Experiment.EXPOSED',
+        data: { experiment: 'homepage-hero', variant, forced: false },
+      }),
+    ]);
+  });
+
+  it('emits an exposure message once per request, for all of its override events', () => {
+    const heroExperiment = experiment({ name: 'homepage-hero', variants });
+    // Every event of a request shares its state and messageBus
+    const state = {};
+    const first = createTestOverrideEvent({ visitor: { id: 'abc' }, state });
+    const second = createTestOverrideEvent({ visitor: { id: 'abc' }, state, messageBus: first.messageBus });
+    heroExperiment.expose(first);
+    heroExperiment.expose(second);
+    experiment({ name: 'pricing', variants }).expose(second);
+
+    expect(first.messageBus.emittedMessages.map(({ data }) => data)).toEqual([
+      expect.objectContaining({ experiment: 'homepage-hero' }),
+      expect.objectContaining({ experiment: 'pricing' }),
+    ]);
+
+    const nextRequest = eventFor('abc');
+    heroExperiment.expose(nextRequest);
+    expect(nextRequest.messageBus.emittedMessages).toHaveLength(1);
+  });
+
+  it('does not emit when only assigning', () => {
+    const event = eventFor('abc');
+    experiment({ name: 'homepage-hero', variants }).assign(event);
+    expect(event.messageBus.emittedMessages).toEqual([]);
+  });
+
+  it('throws for invalid variants', () => {
+    expect(() => experiment({ name: 'empty', variants: [] })).toThrow(TypeError);
+    expect(() =>
+      experiment({
+        name: 'duplicate',
+        variants: [
+          { name: 'a', value: 1 },
+          { name: 'a', value: 2 },
+        ],
+      }),
+    ).toThrow(TypeError);
+    expect(() => experiment({ name: 'negative', variants: [{ name: 'a', weight: -1, value: 1 }] })).toThrow(TypeError);
+    expect(() => experiment({ name: 'zero', variants: [{ name: 'a', weight: 0, value: 1 }] })).toThrow(TypeError);
+  });
+});
@@ -0,0 +1,159 @@
+import { compileRoutePath, matchRoute } from '../matchRoute';
+
+describe('compileRoutePath()', () => {
+  function match(path: string | RegExp, pathname: string, strict?: boolean) {
+    return compileRoutePath(path, { strict }).match(pathname);
+  }
+
+  describe('static paths', () => {
+    it('matches the exact pathname', () => {
+      expect(match('/about', '/about')).toEqual({});
+      expect(match('/about', '/about-us')).toBe(null);
+      expect(match('/about', '/about/team')).toBe(null);
+    });
+
+    it('is case-sensitive', () => {
+      expect(match('/about', '/About')).toBe(null);
+    });
+
+    it('escapes characters that are special in regular expressions', () => {
+      expect(match('/file.html', '/file.html')).toEqual({});
+      expect(match('/file.html', '/fileXhtml')).toBe(null);
+    });
+  });
+
+  describe(':params', () => {
+    it('matches a single segment', () => {
+      expect(match('/products/:productId', '/products/123')).toEqual({ productId: '123' });
+      expect(match('/products/:productId', '/products')).toBe(null);
+      expect(match('/products/:productId', '/products/123/reviews')).toBe(null);
+    });
+
+    it('matches more than one parameter', () => {
+      expect(match('/:category/:productId/reviews', '/shoes/123/reviews')).toEqual({
+        category: 'shoes',
+        productId: '123',
+      });
+    });
+
+    it('decodes parameter values', () => {
+      expect(match('/search/:query', '/search/red%20shoes')).toEqual({ query: 'red shoes' });
+    });
+
+    it('passes through values that cannot be decoded', () => {
+      expect(match('/search/:query', '/search/100%')).toEqual({ query: '100%' });
+    });
+
+    it('matches optional segments with ?', () => {
+      expect(match('/products/:productId?', '/products/123')).toEqual({ productId: '123' });
+      expect(match('/products/:productId?', '/products')).toEqual({});
+    });
+
+    it('matches one or more segments with +', () => {
+      expect(match('/files/:path+', '/files/a/b/c')).toEqual({ path: 'a/b/c' });
+      expect(match('/files/:path+', '/files/a')).toEqual({ path: 'a' });
+      expect(match('/files/:path+', '/files')).toBe(null);
+    });
+
+    it('matches zero or more segments with *', () => {
+      expect(match('/files/:path*', '/files/a/b/c')).toEqual({ path: 'a/b/c' });
+      expect(match('/files/:path*', '/files')).toEqual({});
+    });
+
+    it('throws when a parameter name is used more than once', () => {
+      expect(() => compileRoutePath('/:id/:id')).toThrow(TypeError);
+    });
+  });
+
+  describe('wildcards', () => {
+    it('matches across segments', () => {
+      expect(match('/blog/*/comments', '/blog/2021/08/my-post/comments')).toEqual({ '0': '2021/08/my-post' });
+      expect(match('/blog/*/comments', '/blog/my-post')).toBe(null);
+    });
+
+    it('numbers each wildcard', () => {
+      expect(match('/*/products/*', '/en/products/shoes')).toEqual({ '0': 'en', '1': 'shoes' });
+    });
+
+    it('can be combined with parameters', () => {
+      expect(match('/:locale/*', '/en/anything/at/all')).toEqual({ locale: 'en', '0': 'anything/at/all' });
+    });
+  });
+
+  describe('trailing slashes', () => {
+    it('are optional by default', () => {
+      expect(match('/about', '/about/')).toEqual({});
+      expect(match('/about/', '/about')).toEqual({});
+      expect(match('/products/:productId', '/products/123/')).toEqual({ productId: '123' });
+    });
+
+    it('must match exactly when strict', () => {
+      expect(match('/about', '/about/', true)).toBe(null);
+      expect(match('/about/', '/about', true)).toBe(null);
+      expect(match('/about/', '/about/', true)).toEqual({});
+    });
+
+    it('matches the root path', () => {
+      expect(match('/', '/')).toEqual({});
+      expect(match('/', '/about')).toBe(null);
+    });
+  });
+
+  describe('RegExp paths', () => {
+    it('matches as-is, with numbered capture groups', () => {
+      expect(match(/^\/products\/(\d+)$/, '/products/123')).toEqual({ '0': '123' });
+      expect(match(/^\/products\/(\d+)$/, '/products/abc')).toBe(null);
+    });
+
+    it('provides named capture groups by name', () => {
+      expect(match(/^\/products\/(?<productId>\d+)$/, '/products/123')).toEqual({ '0': '123', productId: '123' });
+    });
+
+    it('ignores the global flag', () => {
+      const path = /^\/products/g;
+      expect(match(path, '/products')).toEqual({});
+      expect(match(path, '/products')).toEqual({});
+    });
+  });
+});
+
+describe('matchRoute()', () => {
+  it('returns null when no routes match', () => {
+    expect(matchRoute([{ path: '/about' }], '/contact')).toBe(null);
+  });
+
+  it('returns the matching route, its index and params', () => {
+    const routes = [{ path: '/about' }, { path: '/products/:productId' }];
+    expect(matchRoute(routes, '/products/123')).toEqual({
+      route: routes[1],
+      index: 1,
+      params: { productId: '123' },
+    });
+  });
+
+  it('picks the first matching route, in the order provided', () => {
+    const routes = [{ path: '/products/new' }, { path: '/products/:productId' }, { path: '/*' }];
+    expect(matchRoute(routes, '/products/new')!.route).toBe(routes[0]);
+    expect(matchRoute(routes, '/products/123')!.route).toBe(routes[1]);
+    expect(matchRoute(routes, '/about')!.route).toBe(routes[2]);
+  });
+
+  it('does not prefer more specific routes that come later', () => {
+    const routes = [{ path: '/products/:productId' }, { path: '/products/new' }];
+    expect(matchRoute(routes, '/products/new')).toEqual({
+      route: routes[0],
+      index: 0,
+      params: { productId: 'new' },
+    });
+  });
+
+  it('treats string and RegExp paths the same way', () => {
+    const routes = [{ path: /^\/legacy\// }, { path: '/legacy/:page' }];
+    expect(matchRoute(routes, '/legacy/home')!.route).toBe(routes[0]);
+  });
+
+  it('passes options through to each path', () => {
+    const routes = [{ path: '/about' }, { path: '/about/' }];
+    expect(matchRoute(routes, '/about/', { strict: true })!.route).toBe(routes[1]);
+  });
+});
@@ -0,0 +1,48 @@
+import { MessageDataByType } from '../MessageDataByType';
+import { standardMessageTypes } from '../messageCatalog';
+import { validateMessage } from '../messageSchema';
+
+describe('standardMessageTypes', () => {
+  const examples: { [T in keyof typeof standardMessageTypes]: MessageDataByType[T] } = {
+    'Commerce.Product.VIEWED': {
+      product: { productId: '123', variantId: '123-blue', price: 19.99, currency: 'USD' },
+      source: 'search',
+    },
+    'Commerce.Product.LIST_VIEWED': {
+      listId: 'summer',
+      name: 'Summer collection',
+      products: [{ productId: '123' }, { productId: '456' }],
+    },
+    'Commerce.Cart.ITEM_ADDED': { item: { productId: '123', quantity: 2, price: 19.99 }, cartId: 'cart-1' },
+    'Commerce.Cart.ITEM_REMOVED': { item: { productId: '123', quantity: 1 } },
+    'Commerce.Cart.VIEWED': { items: [{ productId: '123', quantity: 1 }] },
+    'Commerce.Cart.CHECKOUT_STARTED': { items: [{ productId: '123', quantity: 1 }] },
+    'Commerce.Order.COMPLETED': {
+      orderId: 'order-1',
+      items: [{ productId: '123', quantity: 1, price: 19.99 }],
+      total: 24.99,
+      shipping: 5,
+      currency: 'USD',
+    },
+    'Content.Page.VIEWED': { path: '/about', title: 'About us' },
+    'Content.Page.TIME_SPENT': { path: '/about', durationMs: 12000 },
+    'Search.PERFORMED': { query: 'blue shirt', resultCount: 12, filters: { size: 'M' } },
+  };
+
+  it.each(Object.entries(examples))('accepts a valid %s message', (type, data) => {
+    expect(validateMessage(standardMessageTypes, type, data)).toEqual([]);
+  });
+
+  it('rejects malformed messages', () => {
+    expect(validateMessage(standardMessageTypes, 'Commerce.Product.VIEWED', { productId: '123' })).toEqual([
+      'data.product must be an object',
+    ]);
+    expect(validateMessage(standardMessageTypes, 'Commerce.Order.COMPLETED', { orderId: 1, items: [] })).toEqual([
+      'data.orderId must be a string',
+      'data.total must be a number',
+    ]);
+    expect(validateMessage(standardMessageTypes, 'Search.PERFORMED', { query: 'a', resultCount: 1.5 })).toEqual([
+      'data.resultCount must be an integer',
+    ]);
+  });
+});
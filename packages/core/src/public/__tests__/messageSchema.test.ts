@@ -0,0 +1,75 @@
+import { MessageDataByType } from '../MessageDataByType';
+import { defineMessageTypes, InferMessageDataByType, schema, validateMessage } from '../messageSchema';
+
+describe('schema', () => {
+  it('validates primitives', () => {
+    expect(schema.string().validate('a')).toEqual([]);
+    expect(schema.string().validate(1)).toEqual(['data must be a string']);
+    expect(schema.number().validate(1.5)).toEqual([]);
+    expect(schema.number().validate(NaN)).toEqual(['data must be a number']);
+    expect(schema.number({ integer: true }).validate(1.5)).toEqual(['data must be an integer']);
+    expect(schema.boolean().validate('true')).toEqual(['data must be a boolean']);
+    expect(schema.literal('mobile', 'desktop').validate('tablet')).toEqual(['data must be "mobile" or "desktop"']);
+    expect(schema.unknown().validate(undefined)).toEqual([]);
+  });
+
+  it('reports every problem with its path', () => {
+    const checkout = schema.object({
+      items: schema.array(schema.object({ productId: schema.string(), quantity: schema.number() })),
+      coupon: schema.optional(schema.string()),
+      note: schema.nullable(schema.string()),
+      quantities: schema.record(schema.number()),
+    });
+
+    expect(
+      checkout.validate({ items: [{ productId: 'a', quantity: 1 }], note: null, quantities: { a: 1 }, extra: true }),
+    ).toEqual([]);
+    expect(
+      checkout.validate({
+        items: [{ productId: 1, quantity: 1 }, { productId: 'b' }],
+        coupon: 5,
+        note: undefined,
+        quantities: { a: '1' },
+      }),
+    ).toEqual([
+      'data.items[0].productId must be a string',
+      'data.items[1].quantity must be a number',
+      'data.coupon must be a string',
+      'data.note must be a string',
+      'data.quantities.a must be a number',
+    ]);
+    expect(checkout.validate([])).toEqual(['data must be an object']);
+  });
+
+  it('infers the types of the data', () => {
+    const messageTypes = defineMessageTypes({
+      'Example.VIEWED': schema.object({ id: schema.string(), count: schema.optional(schema.number()) }),
+    });
+    type Data = InferMessageDataByType<typeof messageTypes>['Example.VIEWED'];
+
+    const withoutCount: Data = { id: 'a' };
+    const withCount: Data = { id: 'a', count: 1 };
+    // @ts-expect-error id is required
+    const withoutId: Data = { count: 1 };
+    expect([withoutCount, withCount, withoutId]).toHaveLength(3);
+
+    const checkout: MessageDataByType['Commerce.Cart.CHECKOUT_STARTED'] = {
+      items: [{ productId: 'a', quantity: 1 }],
+    };
+    expect(checkout.items).toHaveLength(1);
+  });
+});
+
+describe('validateMessage()', () => {
+  const messageTypes = defineMessageTypes({ 'Example.VIEWED': schema.object({ id: schema.string() }) });
+
+  it('validates registered message types', () => {
+    expect(validateMessage(messageTypes, 'Example.VIEWED', { id: 'a' })).toEqual([]);
+    expect(validateMessage(messageTypes, 'Example.VIEWED', {})).toEqual(['data.id must be a string']);
+  });
+
+  it('allows anything for unregistered message types', () => {
+    expect(validateMessage(messageTypes, 'Example.UNKNOWN', 123)).toEqual([]);
+    expect(validateMessage(messageTypes, 'toString', 123)).toEqual([]);
+  });
+});
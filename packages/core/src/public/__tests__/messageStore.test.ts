@@ -0,0 +1,51 @@
+import { MessageBusMessage } from '../MessageBusMessage';
+import { createMemoryMessageStore } from '../messageStore';
+
+function createMessage(
+  type: string,
+  visitorId: string | undefined,
+  emittedAt: number,
+): MessageBusMessage<string, unknown> {
+  return new MessageBusMessage(
+    type,
+    { emittedAt },
+    { id: `${type}-${emittedAt}`, emittedAt, origin: 'client', sequence: 0, visitorId },
+  );
+}
+
+describe('createMemoryMessageStore()', () => {
+  it("finds a visitor's messages, most recent first", async () => {
+    const store = createMemoryMessageStore();
+    const first = createMessage('Commerce.Product.VIEWED', 'a', 1);
+    const second = createMessage('Commerce.Cart.ITEM_ADDED', 'a', 2);
+    await store.write([first, createMessage('Commerce.Product.VIEWED', 'b', 3), second]);
+    await store.write([createMessage('Commerce.Product.VIEWED', undefined, 4)]);
+
+    expect(await store.query({ visitorId: 'a' })).toEqual([second, first]);
+    expect(await store.query({ visitorId: 'c' })).toEqual([]);
+  });
+
+  it('filters by type, pattern, time and limit', async () => {
+    const store = createMemoryMessageStore();
+    const messages = [
+      createMessage('Commerce.Product.VIEWED', 'a', 1),
+      createMessage('Commerce.Cart.ITEM_ADDED', 'a', 2),
+      createMessage('Commerce.Product.VIEWED', 'a', 3),
+      createMessage('Search.PERFORMED', 'a', 4),
+    ];
+    await store.write(messages);
+
+    expect(await store.query({ visitorId: 'a', type: 'Commerce.Product.VIEWED' })).toEqual([messages[2], messages[0]]);
+    expect(await store.query({ visitorId: 'a', type: 'Commerce.*' })).toEqual([messages[2], messages[1], messages[0]]);
+    expect(await store.query({ visitorId: 'a', since: 3 })).toEqual([messages[3], messages[2]]);
+    expect(await store.query({ visitorId: 'a', limit: 1 })).toEqual([messages[3]]);
+  });
+
+  it('drops the oldest messages past maxMessagesPerVisitor', async () => {
+    const store = createMemoryMessageStore({ maxMessagesPerVisitor: 2 });
+    const messages = [1, 2, 3].map((emittedAt) => createMessage('Example.FIRST', 'a', emittedAt));
+    await store.write(messages);
+
+    expect(await store.query({ visitorId: 'a' })).toEqual([messages[2], messages[1]]);
+  });
+});
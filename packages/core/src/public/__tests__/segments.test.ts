@@ -0,0 +1,184 @@
+import { matchesAnySegment, matchesSegment, Segment, Weekday } from '../segments';
+import { createTestOverrideEvent, TestEdgeEventOptions } from '../testing';
+
+describe('matchesSegment()', () => {
+  // A Wednesday, 15:30 UTC, which is 08:30 in San Francisco
+  const now = new Date('2021-08-04T15:30:00Z');
+
+  function matches(segment: Segment, options: TestEdgeEventOptions = {}) {
+    return matchesSegment(segment, createTestOverrideEvent(options), now);
+  }
+
+  it('matches everyone with an empty segment', () => {
+    expect(matches({})).toBe(true);
+  });
+
+  describe('visitor fields', () => {
+    it('match exactly', () => {
+      expect(matches({ country: 'US' })).toBe(true);
+      expect(matches({ country: 'CA' })).toBe(false);
+    });
+
+    it('match any of an array', () => {
+      expect(matches({ regionCode: ['CA', 'OR', 'WA'] })).toBe(true);
+      expect(matches({ regionCode: ['OR', 'WA'] })).toBe(false);
+    });
+
+    it('match a RegExp', () => {
+      expect(matches({ timezone: { matches: /^America\// } })).toBe(true);
+      expect(matches({ timezone: { matches: /^Europe\// } })).toBe(false);
+    });
+
+    it('match whether they exist', () => {
+      expect(matches({ city: { exists: true } })).toBe(true);
+      expect(matches({ city: { exists: false } }, { visitor: { city: undefined } })).toBe(true);
+      expect(matches({ city: 'San Francisco' }, { visitor: { city: undefined } })).toBe(false);
+    });
+
+    it('must all match', () => {
+      expect(matches({ country: 'US', deviceType: 'desktop' })).toBe(true);
+      expect(matches({ country: 'US', deviceType: 'mobile' })).toBe(false);
+    });
+
+    it('match bot score ranges, inclusively', () => {
+      expect(matches({ botScore: { max: 30 } }, { visitor: { bot: { score: 30 } } })).toBe(true);
+      expect(matches({ botScore: { max: 30 } }, { visitor: { bot: { score: 31 } } })).toBe(false);
+      expect(matches({ botScore: { min: 90 } }, { visitor: { bot: { score: 95 } } })).toBe(true);
+    });
+
+    it('match verified bots', () => {
+      expect(matches({ verifiedBot: false })).toBe(true);
+      expect(matches({ verifiedBot: true }, { visitor: { bot: { verified: true } } })).toBe(true);
+    });
+  });
+
+  describe('combining', () => {
+    it('supports and', () => {
+      expect(matches({ and: [{ country: 'US' }, { deviceType: 'desktop' }] })).toBe(true);
+      expect(matches({ and: [{ country: 'US' }, { deviceType: 'mobile' }] })).toBe(false);
+    });
+
+    it('supports or', () => {
+      expect(matches({ or: [{ country: 'CA' }, { deviceType: 'desktop' }] })).toBe(true);
+      expect(matches({ or: [{ country: 'CA' }, { deviceType: 'mobile' }] })).toBe(false);
+    });
+
+    it('supports not', () => {
+      expect(matches({ not: { country: 'CA' } })).toBe(true);
+      expect(matches({ not: { country: 'US' } })).toBe(false);
+    });
+
+    it('combines with the other conditions', () => {
+      expect(matches({ country: 'US', not: { or: [{ regionCode: 'NY' }, { deviceType: 'mobile' }] } })).toBe(true);
+      expect(matches({ country: 'US', not: { or: [{ regionCode: 'CA' }, { deviceType: 'mobile' }] } })).toBe(false);
+    });
+  });
+
+  describe('near', () => {
+    const sanFrancisco = { latitude: 37.7749, longitude: -122.4194 };
+
+    it('matches visitors within the radius', () => {
+      // Oakland is about 13km away
+      const oakland = { visitor: { latitude: '37.8044', longitude: '-122.2712' } };
+      expect(matches({ near: { ...sanFrancisco, radiusKm: 20 } }, oakland)).toBe(true);
+      expect(matches({ near: { ...sanFrancisco, radiusKm: 10 } }, oakland)).toBe(false);
+    });
+
+    it('does not match far away visitors', () => {
+      const newYork = { visitor: { latitude: '40.7128', longitude: '-74.0060' } };
+      expect(matches({ near: { ...sanFrancisco, radiusKm: 4000 } }, newYork)).toBe(false);
+      expect(matches({ near: { ...sanFrancisco, radiusKm: 4200 } }, newYork)).toBe(true);
+    });
+
+    it('does not match visitors without a location', () => {
+      expect(matches({ near: { ...sanFrancisco, radiusKm: 100 } }, { visitor: { latitude: undefined } })).toBe(false);
+    });
+  });
+
+  describe('timeOfDay', () => {
+    it("uses the visitor's timezone", () => {
+      expect(matches({ timeOfDay: { from: '08:00', to: '09:00' } })).toBe(true);
+      expect(matches({ timeOfDay: { from: '15:00', to: '16:00' } })).toBe(false);
+    });
+
+    it('can use a different timezone', () => {
+      expect(matches({ timeOfDay: { from: '11:00', to: '12:00', timezone: 'America/New_York' } })).toBe(true);
+    });
+
+    it('uses UTC when the timezone is unknown', () => {
+      expect(matches({ timeOfDay: { from: '15:00', to: '16:00' } }, { visitor: { timezone: undefined } })).toBe(true);
+      expect(matches({ timeOfDay: { from: '15:00', to: '16:00' } }, { visitor: { timezone: 'Not/Real' } })).toBe(true);
+    });
+
+    it('treats from as inclusive and to as exclusive', () => {
+      expect(matches({ timeOfDay: { from: '08:30', to: '09:00' } })).toBe(true);
+      expect(matches({ timeOfDay: { from: '08:00', to: '08:30' } })).toBe(false);
+    });
+
+    it('wraps past midnight', () => {
+      expect(matches({ timeOfDay: { from: '22:00', to: '09:00' } })).toBe(true);
+      expect(matches({ timeOfDay: { from: '22:00', to: '06:00' } })).toBe(false);
+    });
+
+    it('matches the whole day when from and to are the same', () => {
+      expect(matches({ timeOfDay: { from: '00:00', to: '00:00' } })).toBe(true);
+      expect(matches({ timeOfDay: { from: '08:30', to: '08:30' } })).toBe(true);
+    });
+
+    it('matches days of the week', () => {
+      expect(matches({ timeOfDay: { from: '00:00', to: '00:00', days: ['mon', 'wed'] } })).toBe(true);
+      expect(matches({ timeOfDay: { from: '00:00', to: '00:00', days: ['sat', 'sun'] } })).toBe(false);
+    });
+
+    it('uses the day a range started on when it wraps past midnight', () => {
+      // Early Wednesday morning, so it's in Tuesday night's range
+      expect(matches({ timeOfDay: { from: '22:00', to: '09:00', days: ['tue'] } })).toBe(true);
+      expect(matches({ timeOfDay: { from: '22:00', to: '09:00', days: ['wed'] } })).toBe(false);
+
+      const overnight = (days: Weekday[]): Segment => ({
+        timeOfDay: { from: '22:00', to: '09:00', days, timezone: 'UTC' },
+      });
+      // Before midnight it's the same day
+      const tuesdayNight = new Date('2021-08-03T23:00:00Z');
+      expect(matchesSegment(overnight(['tue']), createTestOverrideEvent(), tuesdayNight)).toBe(true);
+      expect(matchesSegment(overnight(['mon']), createTestOverrideEvent(), tuesdayNight)).toBe(false);
+      // Sunday night's range ends on Monday
+      const mondayMorning = new Date('2021-08-02T06:00:00Z');
+      expect(matchesSegment(overnight(['sun']), createTestOverrideEvent(), mondayMorning)).toBe(true);
+    });
+
+    it('throws for invalid times', () => {
+      expect(() => matches({ timeOfDay: { from: '9am', to: '17:00' } })).toThrow(TypeError);
+      expect(() => matches({ timeOfDay: { from: '22:00', to: '24:00' } })).toThrow(TypeError);
+      expect(() => matches({ timeOfDay: { from: '09:60', to: '17:00' } })).toThrow(TypeError);
+    });
+  });
+
+  it('matches cookies', () => {
+    const options = { cookies: { plan: 'pro' } };
+    expect(matches({ cookies: { plan: ['pro', 'enterprise'] } }, options)).toBe(true);
+    expect(matches({ cookies: { plan: 'free' } }, options)).toBe(false);
+    expect(matches({ cookies: { loggedIn: { exists: false } } }, options)).toBe(true);
+  });
+
+  it('matches query parameters', () => {
+    const options = { request: 'https://example.outsmartly.app/?utm_source=newsletter' };
+    expect(matches({ query: { utm_source: 'newsletter' } }, options)).toBe(true);
+    expect(matches({ query: { utm_source: { matches: /^ads-/ } } }, options)).toBe(false);
+    expect(matches({ query: { utm_campaign: { exists: true } } }, options)).toBe(false);
+  });
+});
+
+describe('matchesAnySegment()', () => {
+  const event = createTestOverrideEvent({ visitor: { country: 'CA' } });
+
+  it('matches everyone without segments', () => {
+    expect(matchesAnySegment(undefined, event)).toBe(true);
+    expect(matchesAnySegment([], event)).toBe(true);
+  });
+
+  it('matches when any of the segments match', () => {
+    expect(matchesAnySegment([{ country: 'US' }, { country: 'CA' }], event)).toBe(true);
+    expect(matchesAnySegment([{ country: 'US' }, { country: 'MX' }], event)).toBe(false);
+  });
+});
@@ -61,4 +61,16 @@ describe('useMessageBus()', () => {
     messageBus.emit('foo', null);
     document.cookie = '';
   });
+
+  it('finds the outsmartly session cookie among other cookies', (done) => {
+    document.cookie = 'different=value';
+    document.cookie = 'Outsmartly-Session=123';
+    const messageBus = useMessageBus();
+    messageBus.on('foo', (event) => {
+      expect(event.visitor.id).toBe('123');
+      expect(event.cookies.get('different')).toBe('value');
+      done();
+    });
+    messageBus.emit('foo', null);
+  });
 });
@@ -0,0 +1,94 @@
+import { createMemoryVisitorProfileStore, createVisitorProfile } from '../visitorProfile';
+import { createTestMiddlewareEvent } from '../testing';
+
+describe('createVisitorProfile()', () => {
+  it('sets and removes traits, and increments counters', async () => {
+    const profile = createVisitorProfile('a', createMemoryVisitorProfileStore());
+    expect(await profile.get()).toEqual({ traits: {}, counters: {}, updatedAt: 0 });
+
+    await profile.update({ traits: { category: 'shoes', size: 9 }, increment: { orders: 1 } });
+    const updated = await profile.update({ traits: { size: undefined }, increment: { orders: 2, returns: -1 } });
+
+    expect(updated).toEqual({
+      traits: { category: 'shoes' },
+      counters: { orders: 3, returns: -1 },
+      updatedAt: expect.any(Number),
+    });
+    expect(await profile.get()).toEqual(updated);
+  });
+
+  it('applies updates made at the same time one after another', async () => {
+    const store = createMemoryVisitorProfileStore();
+    const profile = createVisitorProfile('a', store);
+
+    await Promise.all([
+      profile.update({ increment: { views: 1 } }),
+      profile.update({ increment: { views: 1 } }),
+      createVisitorProfile('b', store).update({ increment: { views: 1 } }),
+      profile.update({ increment: { views: 1 } }),
+    ]);
+
+    expect((await profile.get()).counters).toEqual({ views: 3 });
+  });
+
+  it('rejects updates that would make the profile too big, leaving it unchanged', async () => {
+    const profile = createVisitorProfile('a', createMemoryVisitorProfileStore(), { maxBytes: 100 });
+    await profile.update({ traits: { category: 'shoes' } });
+
+    await expect(profile.update({ traits: { bio: 'x'.repeat(100) } })).rejects.toThrow(RangeError);
+    await expect(profile.update({ increment: { orders: NaN } })).rejects.toThrow(TypeError);
+    expect((await profile.get()).traits).toEqual({ category: 'shoes' });
+
+    // Still usable afterwards
+    await profile.update({ increment: { orders: 1 } });
+    expect((await profile.get()).counters).toEqual({ orders: 1 });
+  });
+
+  it('can be updated by MessageBus listeners', async () => {
+    const event = createTestMiddlewareEvent();
+    event.messageBus.on('Commerce.Product.VIEWED', async (messageEvent) => {
+      await messageEvent.visitor.profile.update({
+        traits: { lastProductId: messageEvent.message.data.product.productId },
+      });
+    });
+
+    event.messageBus.emit('Commerce.Product.VIEWED', { product: { productId: '123' } });
+    await event.allSettled();
+
+    expect((await event.visitor.profile.get()).traits).toEqual({ lastProductId: '123' });
+  });
+});
+
+describe('createMemoryVisitorProfileStore()', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('forgets profiles once their ttl passes without an update', async () => {
+    jest.useFakeTimers();
+    const store = createMemoryVisitorProfileStore();
+    const profile = createVisitorProfile('a', store, { ttl: 1000 });
+
+    await profile.update({ increment: { visits: 1 } });
+    jest.advanceTimersByTime(600);
+    await profile.update({ increment: { visits: 1 } });
+    jest.advanceTimersByTime(600);
+    expect((await profile.get()).counters).toEqual({ visits: 2 });
+
+    jest.advanceTimersByTime(400);
+    expect(await store.get('a')).toBeUndefined();
+  });
+
+  it('drops the least recently saved profiles past maxProfiles', async () => {
+    const store = createMemoryVisitorProfileStore({ maxProfiles: 2 });
+    const profile = { traits: {}, counters: {}, updatedAt: 1 };
+    await store.set('a', profile, 1000);
+    await store.set('b', profile, 1000);
+    await store.set('a', profile, 1000);
+    await store.set('c', profile, 1000);
+
+    expect(await store.get('a')).toEqual(profile);
+    expect(await store.get('b')).toBeUndefined();
+    expect(await store.get('c')).toEqual(profile);
+  });
+});
@@ -0,0 +1,216 @@
+import { createChallengeToken, verifyChallengeToken } from '../private/challengeToken';
+import { OutsmartlyEdgeRequestEvent } from './OutsmartlyEvent';
+import { Middleware } from './types';
+
+type PromiseOrValue<T> = Promise<T> | T;
+
+/**
+ * What to do with a bot, from least to most severe:
+ *
+ *   strip      serve the page without any personalization
+ *   challenge  serve a page that sets a cookie and reloads, which stops
+ *              bots that don't keep cookies. The cookie is in the page, so
+ *              it doesn't prove the visitor is a browser, see
+ *              `challengeResponse` for stronger challenges like a CAPTCHA.
+ *              Only page navigations can show a page, so any other request
+ *              without the cookie, e.g. a fetch(), is blocked instead.
+ *   block      respond with a 403
+ */
+export type BotAction = 'strip' | 'challenge' | 'block';
+
+export interface BotPolicyOptions {
+  /**
+   * The minimum `visitor.bot.score` for each action. When a score reaches
+   * more than one, the most severe action wins. Leave one out to never take
+   * that action. Defaults to `{ strip: 50, block: 90 }`.
+   */
+  thresholds?: Partial<Record<BotAction, number>>;
+
+  /**
+   * Replaces the default 403 response for blocked bots.
+   */
+  blockResponse?(event: OutsmartlyEdgeRequestEvent): PromiseOrValue<Response>;
+
+  /**
+   * Replaces the default challenge page, e.g. with a CAPTCHA. Visitors who
+   * get past it need to be given the challenge cookie.
+   * @see getBotChallengeToken
+   */
+  challengeResponse?(event: OutsmartlyEdgeRequestEvent): PromiseOrValue<Response>;
+
+  /**
+   * Defaults to 'outsmartly-bot-challenge'
+   */
+  challengeCookieName?: string;
+
+  /**
+   * The key challenge tokens are signed with, so they can't be created
+   * without it. Required when there's a `challenge` threshold.
+   */
+  challengeSecret?: string;
+}
+
+export const SKIP_PERSONALIZATION_STATE_KEY = 'outsmartly.skipPersonalization';
+
+const MESSAGE_BUS_PATH = '/.outsmartly/message-bus';
+const DEFAULT_THRESHOLDS: Partial<Record<BotAction, number>> = { strip: 50, block: 90 };
+const ACTIONS_BY_SEVERITY: BotAction[] = ['block', 'challenge', 'strip'];
+
+/**
+ * Marks the request so that no overrides run for it, and any messages sent
+ * to the MessageBus are dropped.
+ */
+export function skipPersonalization(event: Pick<OutsmartlyEdgeRequestEvent, 'state'>): void {
+  event.state[SKIP_PERSONALIZATION_STATE_KEY] = true;
+}
+
+export function isPersonalizationSkipped(event: Pick<OutsmartlyEdgeRequestEvent, 'state'>): boolean {
+  return event.state[SKIP_PERSONALIZATION_STATE_KEY] === true;
+}
+
+/**
+ * The value of the challenge cookie that lets this visitor through.
+ */
+export async function getBotChallengeToken(visitorId: string, secret: string): Promise<string> {
+  assertChallengeSecret(secret);
+  return await createChallengeToken(visitorId, secret);
+}
+
+/**
+ * Which action the policy takes for a visitor, or null to treat them like
+ * anyone else. Verified bots, i.e. known crawlers, always get 'strip' so
+ * they're never blocked and always see the same, unpersonalized, content.
+ */
+export function getBotAction(
+  bot: OutsmartlyEdgeRequestEvent['visitor']['bot'],
+  thresholds: Partial<Record<BotAction, number>> = DEFAULT_THRESHOLDS,
+): BotAction | null {
+  if (bot.verified) {
+    return 'strip';
+  }
+
+  for (const action of ACTIONS_BY_SEVERITY) {
+    const threshold = thresholds[action];
+    if (threshold !== undefined && bot.score >= threshold) {
+      return action;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Middleware that handles likely bots, based on `visitor.bot`. Add it first,
+ * so that bots don't reach any of your other middleware:
+ *
+ *   export default {
+ *     middleware: [botPolicy({ thresholds: { strip: 30, challenge: 70, block: 95 } })],
+ *   };
+ */
+export function botPolicy(options: BotPolicyOptions = {}): Middleware {
+  const {
+    thresholds = DEFAULT_THRESHOLDS,
+    challengeCookieName = 'outsmartly-bot-challenge',
+    challengeSecret = '',
+    blockResponse = createBlockResponse,
+    challengeResponse = async (event: OutsmartlyEdgeRequestEvent) =>
+      createChallengeResponse(challengeCookieName, await getBotChallengeToken(event.visitor.id, challengeSecret)),
+  } = options;
+
+  // Thrown now, rather than when the first bot is challenged
+  if (thresholds.challenge !== undefined) {
+    assertChallengeSecret(challengeSecret);
+  }
+
+  const middleware: Middleware = async function botPolicy(event, next) {
+    let action = getBotAction(event.visitor.bot, thresholds);
+
+    if (action === 'challenge') {
+      const token = event.cookies.get(challengeCookieName);
+      if (token && (await verifyChallengeToken(event.visitor.id, token, challengeSecret))) {
+        action = null;
+      }
+    }
+
+    switch (action) {
+      case null:
+        return await next();
+
+      case 'block':
+        return await blockResponse(event);
+
+      case 'challenge':
+        // A browser that passed the challenge on a page has the cookie for everything after it.
+        if (!isNavigation(event.request)) {
+          return await blockResponse(event);
+        }
+        return await challengeResponse(event);
+
+      case 'strip':
+        skipPersonalization(event);
+        // Messages from bots would only skew analytics.
+        if (event.request.method === 'POST' && event.url.pathname === MESSAGE_BUS_PATH) {
+          return new Response(null, { status: 204 });
+        }
+        return await next();
+    }
+  };
+  middleware.displayName = 'botPolicy';
+
+  return middleware;
+}
+
+function assertChallengeSecret(secret: string): void {
+  if (typeof secret !== 'string' || secret === '') {
+    throw new TypeError(
+      'botPolicy() needs a challengeSecret to challenge bots, or anyone could create challenge tokens.',
+    );
+  }
+}
+
+// What a browser sends when loading a page, rather than e.g. a fetch() or an image
+function isNavigation(request: Request): boolean {
+  return request.method === 'GET' && (request.headers.get('accept') ?? '').includes('text/html');
+}
+
+function createBlockResponse(): Response {
+  return new Response('Forbidden', {
+    status: 403,
+    headers: {
+      'content-type': 'text/plain; charset=utf-8',
+      'cache-control': 'no-store',
+    },
+  });
+}
+
+function createChallengeResponse(cookieName: string, token: string): Response {
+  const cookie = `${cookieName}=${token}; path=/; max-age=86400; samesite=lax`;
+  // If cookies are disabled, reloading would only loop forever.
+  const html = `<!DOCTYPE html>
+<html>
+  <head>
+    <meta name="robots" content="noindex" />
+    <title>Just a moment...</title>
+  </head>
+  <body>
+    <noscript>Please enable JavaScript and cookies to continue.</noscript>
+    <script>
+      document.cookie = ${JSON.stringify(cookie)};
+      if (document.cookie.indexOf(${JSON.stringify(`${cookieName}=${token}`)}) !== -1) {
+        location.reload();
+      } else {
+        document.body.textContent = 'Please enable cookies to continue.';
+      }
+    </script>
+  </body>
+</html>
+`;
+
+  return new Response(html, {
+    status: 403,
+    headers: {
+      'content-type': 'text/html; charset=utf-8',
+      'cache-control': 'no-store',
+    },
+  });
+}
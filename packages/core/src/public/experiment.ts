@@ -0,0 +1,186 @@
+import { hashString } from '../private/hashString';
+import { MessageDataByType } from './MessageDataByType';
+import { OutsmartlyEdgeRequestEvent } from './OutsmartlyEvent';
+
+export interface ExperimentVariant<V = unknown> {
+  /**
+   * A name that's unique within the experiment, e.g. 'control'. It's what is
+   * reported in exposure messages and what you use to force a variant.
+   */
+  name: string;
+
+  /**
+   * How likely visitors are to be assigned this variant, relative to the
+   * weights of the other variants. Defaults to 1, so without any weights
+   * the variants are split evenly.
+   */
+  weight?: number;
+
+  /**
+   * Anything you want to use for this variant, e.g. the props to override.
+   */
+  value: V;
+}
+
+export interface ExperimentOptions<V> {
+  /**
+   * A name that's unique among your experiments, e.g. 'homepage-hero'.
+   */
+  name: string;
+
+  variants: ExperimentVariant<V>[];
+
+  /**
+   * Visitors are assigned by hashing their id with the experiment's name.
+   * Change the salt to reshuffle them, e.g. when restarting an experiment.
+   */
+  salt?: string;
+
+  /**
+   * The cookie and query parameter that force a variant, by its name, e.g.
+   * `?outsmartly-experiment-homepage-hero=control`. The query parameter wins
+   * if both are provided. Defaults to `outsmartly-experiment-${name}`, or
+   * `false` to disable forcing entirely.
+   */
+  forceParamName?: string | false;
+}
+
+export interface ExperimentAssignment<V> {
+  experiment: string;
+  variant: string;
+  value: V;
+  // Whether the variant was forced with the cookie or query parameter
+  forced: boolean;
+}
+
+export type ExperimentExposureMessageData = MessageDataByType['Experiment.EXPOSED'];
+
+export type ExperimentEvent = Pick<OutsmartlyEdgeRequestEvent, 'visitor' | 'cookies' | 'url'>;
+
+export interface Experiment<V> {
+  name: string;
+  variants: ExperimentVariant<V>[];
+
+  /**
+   * Which variant the visitor is in, without reporting it. The same visitor
+   * always gets the same variant, unless one is forced.
+   */
+  assign(event: ExperimentEvent): ExperimentAssignment<V>;
+
+  /**
+   * Which variant the visitor is in, and emits an 'Experiment.EXPOSED'
+   * message on the event's messageBus. Only the first exposure per request is
+   * emitted, so it's safe to call for every instance of a component.
+   */
+  expose(event: ExperimentEvent & Pick<OutsmartlyEdgeRequestEvent, 'messageBus' | 'state'>): ExperimentAssignment<V>;
+}
+
+export const EXPERIMENT_EXPOSED_MESSAGE_TYPE = 'Experiment.EXPOSED';
+
+// Where the names of the experiments exposed so far are kept, in the state shared by every event of a request
+export const EXPOSED_EXPERIMENTS_STATE_KEY = 'outsmartly.exposedExperiments';
+
+/**
+ * Creates a server-side A/B experiment, which deterministically assigns each
+ * visitor to one of its weighted variants by their `visitor.id`. Since that's
+ * persisted in a cookie, visitors stay in the same variant across sessions.
+ *
+ *   const heroExperiment = experiment({
+ *     name: 'homepage-hero',
+ *     variants: [
+ *       { name: 'control', value: null },
+ *       { name: 'big-image', value: { imageSize: 'big' } },
+ *     ],
+ *   });
+ *
+ *   const override = {
+ *     component: 'Hero',
+ *     getOverrideProps(event) {
+ *       const { value } = heroExperiment.expose(event);
+ *       if (value) {
+ *         return { props: value };
+ *       }
+ *     },
+ *   };
+ */
+export function experiment<V>(options: ExperimentOptions<V>): Experiment<V> {
+  const { name, variants, salt = name } = options;
+  const forceParamName = options.forceParamName ?? `outsmartly-experiment-${name}`;
+
+  if (variants.length === 0) {
+    throw new TypeError(`Experiment '${name}' must have at least one variant.`);
+  }
+
+  const seenNames = new Set<string>();
+  let totalWeight = 0;
+
+  for (const variant of variants) {
+    const { weight = 1 } = variant;
+    if (seenNames.has(variant.name)) {
+      throw new TypeError(`Experiment '${name}' has more than one variant named '${variant.name}'.`);
+    }
+    if (!(weight >= 0) || !Number.isFinite(weight)) {
+      throw new TypeError(`Experiment '${name}' variant '${variant.name}' must have a weight of 0 or more.`);
+    }
+    seenNames.add(variant.name);
+    totalWeight += weight;
+  }
+
+  if (totalWeight === 0) {
+    throw new TypeError(`Experiment '${name}' must have at least one variant with a weight above 0.`);
+  }
+
+  function findForcedVariant(event: ExperimentEvent): ExperimentVariant<V> | undefined {
+    if (forceParamName === false) {
+      return;
+    }
+    const forcedName = event.url.searchParams.get(forceParamName) ?? event.cookies.get(forceParamName);
+    // Unknown names are ignored, rather than breaking the page.
+    return variants.find((variant) => variant.name === forcedName);
+  }
+
+  function assign(event: ExperimentEvent): ExperimentAssignment<V> {
+    const forcedVariant = findForcedVariant(event);
+    if (forcedVariant) {
+      return { experiment: name, variant: forcedVariant.name, value: forcedVariant.value, forced: true };
+    }
+
+    // A number in [0, totalWeight), which lands inside one variant's weight.
+    let remaining = (hashString(`${salt}:${event.visitor.id}`) / 0x100000000) * totalWeight;
+    let assigned = variants[variants.length - 1];
+    for (const variant of variants) {
+      const { weight = 1 } = variant;
+      if (remaining < weight) {
+        assigned = variant;
+        break;
+      }
+      remaining -= weight;
+    }
+
+    return { experiment: name, variant: assigned.name, value: assigned.value, forced: false };
+  }
+
+  return {
+    name,
+    variants,
+    assign,
+    expose(event) {
+      const assignment = assign(event);
+      const exposed = event.state[EXPOSED_EXPERIMENTS_STATE_KEY];
+      const exposures: Set<string> = exposed instanceof Set ? exposed : new Set();
+      event.state[EXPOSED_EXPERIMENTS_STATE_KEY] = exposures;
+
+      if (!exposures.has(name)) {
+        exposures.add(name);
+        const data: ExperimentExposureMessageData = {
+          experiment: name,
+          variant: assignment.variant,
+          forced: assignment.forced,
+        };
+        event.messageBus.emit(EXPERIMENT_EXPOSED_MESSAGE_TYPE, data);
+      }
+
+      return assignment;
+    },
+  };
+}
@@ -0,0 +1,218 @@
+import { Route } from './types';
+
+export type RouteParams = {
+  [key: string]: string;
+};
+
+export interface RoutePathOptions {
+  /**
+   * When true, a trailing slash must match exactly, i.e. `/products` will
+   * not match `/products/` and vice versa. Defaults to false.
+   */
+  strict?: boolean;
+}
+
+export interface CompiledRoutePath {
+  path: string | RegExp;
+  regexp: RegExp;
+  /**
+   * The names of the parameters, in the order they appear in the path.
+   * Unnamed wildcards are numbered, starting at '0', like Express.
+   * Always empty for RegExp paths, use named capture groups instead.
+   */
+  keys: string[];
+  match(pathname: string): RouteParams | null;
+}
+
+export interface RouteMatch<R extends Pick<Route, 'path'> = Route> {
+  route: R;
+  // Position of the route in the array it was matched from
+  index: number;
+  params: RouteParams;
+}
+
+// Either a :param, with an optional preceding slash and modifier, or a wildcard.
+const TOKEN_REGEX = /(\/?):([A-Za-z_$][\w$]*)([?+*])?|\*/g;
+const SEGMENT = '[^/]+';
+const SEGMENTS = `${SEGMENT}(?:/${SEGMENT})*`;
+
+const compiledStringPaths = new Map<string, CompiledRoutePath>();
+const compiledRegExpPaths = new WeakMap<RegExp, CompiledRoutePath>();
+
+/**
+ * Compiles a `Route.path` into a matcher. String paths use an Express-style
+ * format:
+ *
+ *   /products/:productId     a single segment, e.g. /products/123
+ *   /products/:productId?    an optional segment, also matches /products
+ *   /files/:path+            one or more segments, e.g. /files/a/b/c
+ *   /files/:path*            zero or more segments, also matches /files
+ *   /blog/*\/comments         a wildcard, which can span segments
+ *
+ * Note that a `*` directly after a parameter is its modifier, use `/:id/*`
+ * if you want a parameter followed by a wildcard.
+ *
+ * RegExp paths are matched as-is against the pathname. Capture groups are
+ * provided as numbered params, and named groups also by their name.
+ */
+export function compileRoutePath(path: string | RegExp, options: RoutePathOptions = {}): CompiledRoutePath {
+  const { strict = false } = options;
+
+  if (typeof path !== 'string') {
+    // Not cached by options, since they don't apply to RegExp paths.
+    let compiled = compiledRegExpPaths.get(path);
+    if (!compiled) {
+      compiled = compileRegExpPath(path);
+      compiledRegExpPaths.set(path, compiled);
+    }
+    return compiled;
+  }
+
+  const cacheKey = `${strict}:${path}`;
+  let compiled = compiledStringPaths.get(cacheKey);
+  if (!compiled) {
+    compiled = compileStringPath(path, strict);
+    compiledStringPaths.set(cacheKey, compiled);
+  }
+  return compiled;
+}
+
+/**
+ * Finds the route that handles a given pathname. Routes are checked in the
+ * order they are provided and the first one that matches wins, even if a
+ * later one is more specific. So put more specific routes first:
+ *
+ *   routes: [
+ *     { path: '/products/new', ... },
+ *     { path: '/products/:productId', ... },
+ *   ]
+ *
+ * The pathname should not include the query string or hash.
+ */
+export function matchRoute<R extends Pick<Route, 'path'>>(
+  routes: R[],
+  pathname: string,
+  options?: RoutePathOptions,
+): RouteMatch<R> | null {
+  for (let index = 0; index < routes.length; index++) {
+    const route = routes[index];
+    const params = compileRoutePath(route.path, options).match(pathname);
+    if (params) {
+      return { route, index, params };
+    }
+  }
+
+  return null;
+}
+
+function compileStringPath(path: string, strict: boolean): CompiledRoutePath {
+  const keys: string[] = [];
+  let source = '';
+  let lastIndex = 0;
+  let wildcardCount = 0;
+
+  for (const token of path.matchAll(TOKEN_REGEX)) {
+    source += escapeRegExp(path.slice(lastIndex, token.index));
+    lastIndex = token.index! + token[0].length;
+
+    if (token[0] === '*') {
+      keys.push(String(wildcardCount++));
+      source += '(.*)';
+      continue;
+    }
+
+    const [, slash, name, modifier] = token;
+    if (keys.includes(name)) {
+      throw new TypeError(`Route path '${path}' uses the parameter ':${name}' more than once.`);
+    }
+    keys.push(name);
+
+    switch (modifier) {
+      case '?':
+        source += `(?:${slash}(${SEGMENT}))?`;
+        break;
+      case '+':
+        source += `${slash}(${SEGMENTS})`;
+        break;
+      case '*':
+        source += `(?:${slash}(${SEGMENTS}))?`;
+        break;
+      default:
+        source += `${slash}(${SEGMENT})`;
+    }
+  }
+
+  source += escapeRegExp(path.slice(lastIndex));
+
+  if (!strict) {
+    source = `${source.replace(/\/$/, '')}/?`;
+  }
+
+  const regexp = new RegExp(`^${source}$`);
+
+  return {
+    path,
+    regexp,
+    keys,
+    match(pathname) {
+      const match = regexp.exec(pathname);
+      if (!match) {
+        return null;
+      }
+
+      const params: RouteParams = {};
+      keys.forEach((key, i) => {
+        const value = match[i + 1];
+        // Optional parameters that weren't provided are left out entirely
+        if (value !== undefined) {
+          params[key] = safeDecodeURIComponent(value);
+        }
+      });
+      return params;
+    },
+  };
+}
+
+function compileRegExpPath(path: RegExp): CompiledRoutePath {
+  // A copy without the global/sticky flags, so that lastIndex can't make
+  // the same pathname match one time and not the next.
+  const regexp = new RegExp(path.source, path.flags.replace(/[gy]/g, ''));
+
+  return {
+    path,
+    regexp,
+    keys: [],
+    match(pathname) {
+      const match = regexp.exec(pathname);
+      if (!match) {
+        return null;
+      }
+
+      const params: RouteParams = {};
+      for (let i = 1; i < match.length; i++) {
+        if (match[i] !== undefined) {
+          params[String(i - 1)] = safeDecodeURIComponent(match[i]);
+        }
+      }
+      for (const [name, value] of Object.entries(match.groups ?? {})) {
+        if (value !== undefined) {
+          params[name] = safeDecodeURIComponent(value);
+        }
+      }
+      return params;
+    },
+  };
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Malformed escape sequences, e.g. a lone %, are passed through as-is.
+function safeDecodeURIComponent(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch (e) {
+    return value;
+  }
+}
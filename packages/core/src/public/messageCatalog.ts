@@ -0,0 +1,96 @@
+import { defineMessageTypes, schema } from './messageSchema';
+
+const money = schema.number();
+
+// ISO 4217, e.g. 'USD'
+const currency = schema.optional(schema.string());
+
+const product = schema.object({
+  productId: schema.string(),
+  variantId: schema.optional(schema.string()),
+  sku: schema.optional(schema.string()),
+  name: schema.optional(schema.string()),
+  brand: schema.optional(schema.string()),
+  category: schema.optional(schema.string()),
+  price: schema.optional(money),
+  currency,
+});
+
+const lineItem = schema.object({
+  productId: schema.string(),
+  variantId: schema.optional(schema.string()),
+  sku: schema.optional(schema.string()),
+  name: schema.optional(schema.string()),
+  quantity: schema.number(),
+  // The price of one item, not the whole line
+  price: schema.optional(money),
+  currency,
+});
+
+/**
+ * Standard messages for common commerce and content interactions. Emitting
+ * these, rather than your own equivalents, lets plugins understand your
+ * site without being told what your messages look like. All are part of
+ * MessageDataByType.
+ *
+ *   messageBus.emit('Commerce.Product.VIEWED', {
+ *     product: { productId: '123', variantId: '123-blue', price: 19.99, currency: 'USD' },
+ *   });
+ */
+export const standardMessageTypes = defineMessageTypes({
+  'Commerce.Product.VIEWED': schema.object({
+    product,
+    // Where the product was found, e.g. 'search' or 'recommendations'
+    source: schema.optional(schema.string()),
+  }),
+  'Commerce.Product.LIST_VIEWED': schema.object({
+    // e.g. a collection or category
+    listId: schema.string(),
+    name: schema.optional(schema.string()),
+    products: schema.array(product),
+  }),
+  'Commerce.Cart.ITEM_ADDED': schema.object({
+    item: lineItem,
+    cartId: schema.optional(schema.string()),
+  }),
+  'Commerce.Cart.ITEM_REMOVED': schema.object({
+    item: lineItem,
+    cartId: schema.optional(schema.string()),
+  }),
+  'Commerce.Cart.VIEWED': schema.object({
+    items: schema.array(lineItem),
+    cartId: schema.optional(schema.string()),
+  }),
+  'Commerce.Cart.CHECKOUT_STARTED': schema.object({
+    items: schema.array(lineItem),
+    cartId: schema.optional(schema.string()),
+  }),
+  'Commerce.Order.COMPLETED': schema.object({
+    orderId: schema.string(),
+    items: schema.array(lineItem),
+    // Everything the customer paid, including tax and shipping
+    total: money,
+    tax: schema.optional(money),
+    shipping: schema.optional(money),
+    discount: schema.optional(money),
+    coupon: schema.optional(schema.string()),
+    currency,
+  }),
+  'Content.Page.VIEWED': schema.object({
+    path: schema.string(),
+    title: schema.optional(schema.string()),
+    referrer: schema.optional(schema.string()),
+    // e.g. 'product', 'collection' or 'article'
+    pageType: schema.optional(schema.string()),
+  }),
+  'Content.Page.TIME_SPENT': schema.object({
+    path: schema.string(),
+    durationMs: schema.number(),
+    pageType: schema.optional(schema.string()),
+  }),
+  'Search.PERFORMED': schema.object({
+    query: schema.string(),
+    resultCount: schema.optional(schema.number({ integer: true })),
+    filters: schema.optional(schema.record(schema.string())),
+  }),
+});
@@ -0,0 +1,178 @@
+/**
+ * Describes the data of a message type, both at runtime and to TypeScript.
+ * Create them with the `schema` builders rather than by hand.
+ */
+export interface MessageSchema<T> {
+  /**
+   * Every problem with the value, e.g. ["items[0].quantity must be a number"],
+   * or an empty array when it's valid.
+   */
+  validate(value: unknown, path?: string): string[];
+
+  /**
+   * Only used to infer T, it's never actually set.
+   * @private
+   */
+  readonly _type?: T;
+}
+
+interface OptionalMessageSchema<T> extends MessageSchema<T | undefined> {
+  optional: true;
+}
+
+export type InferMessageSchema<S> = S extends MessageSchema<infer T> ? T : never;
+
+export type MessageSchemas = { [type: string]: MessageSchema<unknown> };
+
+/**
+ * The data for each message type, the way `MessageDataByType` is derived from
+ * `coreMessageTypes`.
+ */
+export type InferMessageDataByType<S extends MessageSchemas> = {
+  [T in keyof S]: InferMessageSchema<S[T]>;
+};
+
+type ObjectShape = { [key: string]: MessageSchema<unknown> };
+type OptionalKeys<S extends ObjectShape> = {
+  [K in keyof S]: S[K] extends OptionalMessageSchema<unknown> ? K : never;
+}[keyof S];
+type Simplify<T> = { [K in keyof T]: T[K] };
+type InferObjectShape<S extends ObjectShape> = Simplify<
+  { [K in Exclude<keyof S, OptionalKeys<S>>]: InferMessageSchema<S[K]> } &
+    {
+      [K in OptionalKeys<S>]?: InferMessageSchema<S[K]>;
+    }
+>;
+
+type Primitive = string | number | boolean | null;
+
+function createSchema<T>(validate: (value: unknown, path: string) => string[]): MessageSchema<T> {
+  return {
+    validate(value, path = 'data') {
+      return validate(value, path);
+    },
+  };
+}
+
+function expectType<T>(expected: string, isValid: (value: unknown) => boolean): MessageSchema<T> {
+  return createSchema((value, path) => (isValid(value) ? [] : [`${path} must be ${expected}`]));
+}
+
+function isPlainObject(value: unknown): value is { [key: string]: unknown } {
+  // Not instanceof, since messages may come from another realm.
+  return Object.prototype.toString.call(value) === '[object Object]';
+}
+
+/**
+ * Builders for message schemas. Data has to be JSON to be sent from the
+ * client, so these only cover what JSON can represent:
+ *
+ *   const checkoutStarted = schema.object({
+ *     items: schema.array(
+ *       schema.object({
+ *         productId: schema.string(),
+ *         quantity: schema.number({ integer: true }),
+ *       }),
+ *     ),
+ *     coupon: schema.optional(schema.string()),
+ *   });
+ */
+export const schema = {
+  string(): MessageSchema<string> {
+    return expectType('a string', (value) => typeof value === 'string');
+  },
+
+  number(options: { integer?: boolean } = {}): MessageSchema<number> {
+    if (options.integer) {
+      return expectType('an integer', (value) => Number.isInteger(value));
+    }
+    return expectType('a number', (value) => typeof value === 'number' && Number.isFinite(value));
+  },
+
+  boolean(): MessageSchema<boolean> {
+    return expectType('a boolean', (value) => typeof value === 'boolean');
+  },
+
+  /**
+   * One of these exact values, e.g. `schema.literal('mobile', 'desktop')`
+   */
+  literal<V extends Primitive[]>(...values: V): MessageSchema<V[number]> {
+    const expected = values.map((value) => JSON.stringify(value)).join(' or ');
+    return expectType(expected, (value) => values.includes(value as Primitive));
+  },
+
+  /**
+   * Anything at all, for data you validate yourself.
+   */
+  unknown(): MessageSchema<unknown> {
+    return createSchema(() => []);
+  },
+
+  array<T>(item: MessageSchema<T>): MessageSchema<T[]> {
+    return createSchema((value, path) => {
+      if (!Array.isArray(value)) {
+        return [`${path} must be an array`];
+      }
+      return value.flatMap((element, i) => item.validate(element, `${path}[${i}]`));
+    });
+  },
+
+  /**
+   * An object with these fields. Fields that aren't described are allowed,
+   * so that newer clients can send more than older schemas know about.
+   */
+  object<S extends ObjectShape>(shape: S): MessageSchema<InferObjectShape<S>> {
+    return createSchema((value, path) => {
+      if (!isPlainObject(value)) {
+        return [`${path} must be an object`];
+      }
+      return Object.entries(shape).flatMap(([key, field]) => field.validate(value[key], `${path}.${key}`));
+    });
+  },
+
+  /**
+   * An object used as a map, e.g. `{ [sku: string]: number }`
+   */
+  record<T>(values: MessageSchema<T>): MessageSchema<{ [key: string]: T }> {
+    return createSchema((value, path) => {
+      if (!isPlainObject(value)) {
+        return [`${path} must be an object`];
+      }
+      return Object.entries(value).flatMap(([key, element]) => values.validate(element, `${path}.${key}`));
+    });
+  },
+
+  optional<T>(inner: MessageSchema<T>): OptionalMessageSchema<T> {
+    return {
+      optional: true,
+      validate(value, path = 'data') {
+        return value === undefined ? [] : inner.validate(value, path);
+      },
+    };
+  },
+
+  nullable<T>(inner: MessageSchema<T>): MessageSchema<T | null> {
+    return createSchema((value, path) => (value === null ? [] : inner.validate(value, path)));
+  },
+};
+
+/**
+ * Declares message types together with the schema of their data. It returns
+ * the schemas unchanged, but keeps their exact types so that the data's types
+ * can be inferred with InferMessageDataByType.
+ */
+export function defineMessageTypes<S extends MessageSchemas>(schemas: S): S {
+  return schemas;
+}
+
+/**
+ * Every problem with a message's data, or an empty array if it's valid or
+ * its type has no schema.
+ */
+export function validateMessage(schemas: MessageSchemas, type: string, data: unknown): string[] {
+  const messageSchema = Object.prototype.hasOwnProperty.call(schemas, type) ? schemas[type] : undefined;
+  if (!messageSchema) {
+    return [];
+  }
+  return messageSchema.validate(data, 'data');
+}
@@ -0,0 +1,95 @@
+import { MessageBusMessage } from './MessageBusMessage';
+import { compileMessageTypePattern, isMessageTypePattern } from './messageTypePattern';
+
+export interface MessageQuery {
+  /**
+   * Whose messages, i.e. `event.visitor.id`. Only messages whose
+   * `meta.visitorId` is known can be found.
+   */
+  visitorId: string;
+
+  /**
+   * Only messages of this type, which can be a pattern like 'Commerce.*'.
+   */
+  type?: string;
+
+  /**
+   * Only messages emitted at or after this time, in milliseconds since the epoch.
+   */
+  since?: number;
+
+  /**
+   * The most messages returned. Defaults to 50.
+   */
+  limit?: number;
+}
+
+/**
+ * Where messages are kept once they're flushed, so they can be queried later,
+ * e.g. by overrides that personalize based on what a visitor has done.
+ * Implement this to keep them in your own database.
+ */
+export interface MessageStore {
+  write(messages: MessageBusMessage<string, unknown>[]): Promise<void>;
+
+  /**
+   * The messages matching the query, most recent first.
+   */
+  query(query: MessageQuery): Promise<MessageBusMessage<string, unknown>[]>;
+}
+
+export const DEFAULT_MESSAGE_QUERY_LIMIT = 50;
+
+export interface MemoryMessageStoreOptions {
+  /**
+   * The most messages kept for each visitor, oldest dropped first. Defaults to 1000.
+   */
+  maxMessagesPerVisitor?: number;
+}
+
+/**
+ * A MessageStore that keeps messages in memory, so they're gone when the
+ * process or isolate is. Meant for local development and tests.
+ */
+export function createMemoryMessageStore(options: MemoryMessageStoreOptions = {}): MessageStore {
+  const { maxMessagesPerVisitor = 1000 } = options;
+  const messagesByVisitorId = new Map<string, MessageBusMessage<string, unknown>[]>();
+
+  return {
+    async write(messages) {
+      for (const message of messages) {
+        const visitorId = message.meta?.visitorId;
+        // Nothing could ever find it.
+        if (!visitorId) {
+          continue;
+        }
+
+        const visitorMessages = messagesByVisitorId.get(visitorId) ?? [];
+        visitorMessages.push(message);
+        if (visitorMessages.length > maxMessagesPerVisitor) {
+          visitorMessages.shift();
+        }
+        messagesByVisitorId.set(visitorId, visitorMessages);
+      }
+    },
+
+    async query({ visitorId, type, since, limit = DEFAULT_MESSAGE_QUERY_LIMIT }) {
+      const pattern = type && isMessageTypePattern(type) ? compileMessageTypePattern(type) : null;
+      const results: MessageBusMessage<string, unknown>[] = [];
+      const visitorMessages = messagesByVisitorId.get(visitorId) ?? [];
+
+      for (let i = visitorMessages.length - 1; i >= 0 && results.length < limit; i--) {
+        const message = visitorMessages[i];
+        if (type && (pattern ? !pattern.test(message.type) : message.type !== type)) {
+          continue;
+        }
+        if (since !== undefined && (message.meta?.emittedAt ?? 0) < since) {
+          continue;
+        }
+        results.push(message);
+      }
+
+      return results;
+    },
+  };
+}
@@ -0,0 +1,36 @@
+import { MessageDataByType } from './MessageDataByType';
+
+/**
+ * A message type with wildcards, e.g. 'Commerce.Cart.*' or '*'. Each `*`
+ * matches anything, including dots, so 'Commerce.*' matches every message
+ * type in the Commerce namespace however deeply nested.
+ */
+export type MessageTypePattern = `${string}*${string}`;
+
+type PatternToTemplate<P extends string> = P extends `${infer Head}*${infer Tail}`
+  ? `${Head}${string}${PatternToTemplate<Tail>}`
+  : P;
+
+/**
+ * The union of MessageDataByType types that a pattern matches, e.g.
+ * MatchingMessageType<'Experiment.*'> is 'Experiment.EXPOSED'.
+ */
+export type MatchingMessageType<P extends string> = {
+  [T in keyof MessageDataByType]: T extends PatternToTemplate<P> ? T : never;
+}[keyof MessageDataByType];
+
+export function isMessageTypePattern(type: string): boolean {
+  return type.includes('*');
+}
+
+export function compileMessageTypePattern(pattern: string): RegExp {
+  const source = pattern
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}$`);
+}
+
+export function matchesMessageType(pattern: string, type: string): boolean {
+  return compileMessageTypePattern(pattern).test(type);
+}
@@ -0,0 +1,273 @@
+import { OutsmartlyEdgeRequestEvent } from './OutsmartlyEvent';
+
+/**
+ * Matches a string: exactly, any of several, by a RegExp, or by whether it
+ * exists at all. A missing value only matches `{ exists: false }`.
+ */
+export type StringCondition = string | string[] | { matches: RegExp } | { exists: boolean };
+
+/**
+ * Matches a number between min and max, inclusive.
+ */
+export interface NumberRange {
+  min?: number;
+  max?: number;
+}
+
+export interface GeoRadius {
+  latitude: number;
+  longitude: number;
+  radiusKm: number;
+}
+
+export type Weekday = 'sun' | 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat';
+
+export interface TimeOfDay {
+  /**
+   * 24-hour times, e.g. '09:00' to '17:30'. `from` is inclusive and `to` is
+   * exclusive. Ranges can wrap past midnight, e.g. '22:00' to '06:00', and
+   * the same time for both, e.g. '00:00' to '00:00', is the whole day.
+   */
+  from: string;
+  to: string;
+
+  /**
+   * Only match ranges that start on these days, which are also in the
+   * visitor's timezone. So with '22:00' to '06:00' on ['fri'], early
+   * Saturday morning matches but early Friday morning doesn't.
+   */
+  days?: Weekday[];
+
+  /**
+   * A timezone to use instead of the visitor's, e.g. 'America/New_York' for
+   * a store's opening hours. Visitors without a known timezone use 'UTC'.
+   */
+  timezone?: string;
+}
+
+/**
+ * A declarative description of a group of visitors. Every condition provided
+ * must match, and `and`, `or`, and `not` can be used to combine segments:
+ *
+ *   const californiaMobile: Segment = {
+ *     country: 'US',
+ *     regionCode: 'CA',
+ *     deviceType: 'mobile',
+ *   };
+ *
+ *   const lunchTimeOutsideEurope: Segment = {
+ *     not: { continent: 'EU' },
+ *     timeOfDay: { from: '11:30', to: '13:30', days: ['mon', 'tue', 'wed', 'thu', 'fri'] },
+ *   };
+ *
+ *   const likelyHuman: Segment = {
+ *     or: [{ botScore: { max: 30 } }, { cookies: { loggedIn: 'true' } }],
+ *   };
+ */
+export interface Segment {
+  and?: Segment[];
+  or?: Segment[];
+  not?: Segment;
+
+  country?: StringCondition;
+  continent?: StringCondition;
+  region?: StringCondition;
+  regionCode?: StringCondition;
+  city?: StringCondition;
+  postalCode?: StringCondition;
+  timezone?: StringCondition;
+  deviceType?: StringCondition;
+
+  botScore?: NumberRange;
+  verifiedBot?: boolean;
+
+  /**
+   * Within a distance of a point, using the visitor's latitude and longitude.
+   * Visitors without them never match.
+   */
+  near?: GeoRadius;
+
+  /**
+   * The current time in the visitor's timezone.
+   */
+  timeOfDay?: TimeOfDay;
+
+  cookies?: { [name: string]: StringCondition };
+
+  /**
+   * The request URL's query parameters.
+   */
+  query?: { [name: string]: StringCondition };
+}
+
+export type SegmentEvent = Pick<OutsmartlyEdgeRequestEvent, 'visitor' | 'cookies' | 'url'>;
+
+const VISITOR_STRING_FIELDS = [
+  'country',
+  'continent',
+  'region',
+  'regionCode',
+  'city',
+  'postalCode',
+  'timezone',
+  'deviceType',
+] as const;
+
+const EARTH_RADIUS_KM = 6371;
+
+// In the order of Date.prototype.getDay()
+const WEEKDAYS: Weekday[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+/**
+ * Whether the visitor of this event is in the segment. `now` is only used for
+ * `timeOfDay`, and is mostly useful for testing.
+ */
+export function matchesSegment(segment: Segment, event: SegmentEvent, now: Date = new Date()): boolean {
+  const { visitor } = event;
+
+  if (segment.and && !segment.and.every((child) => matchesSegment(child, event, now))) {
+    return false;
+  }
+  if (segment.or && !segment.or.some((child) => matchesSegment(child, event, now))) {
+    return false;
+  }
+  if (segment.not && matchesSegment(segment.not, event, now)) {
+    return false;
+  }
+
+  for (const field of VISITOR_STRING_FIELDS) {
+    const condition = segment[field];
+    if (condition !== undefined && !matchesString(condition, visitor[field])) {
+      return false;
+    }
+  }
+
+  if (segment.botScore && !matchesRange(segment.botScore, visitor.bot.score)) {
+    return false;
+  }
+  if (segment.verifiedBot !== undefined && segment.verifiedBot !== visitor.bot.verified) {
+    return false;
+  }
+  if (segment.near && !isNear(segment.near, visitor.latitude, visitor.longitude)) {
+    return false;
+  }
+  if (segment.timeOfDay && !matchesTimeOfDay(segment.timeOfDay, visitor.timezone, now)) {
+    return false;
+  }
+
+  for (const [name, condition] of Object.entries(segment.cookies ?? {})) {
+    if (!matchesString(condition, event.cookies.get(name))) {
+      return false;
+    }
+  }
+
+  for (const [name, condition] of Object.entries(segment.query ?? {})) {
+    if (!matchesString(condition, event.url.searchParams.get(name) ?? undefined)) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * How `Route.segments` and `Override.segments` are applied: the visitor must
+ * be in at least one of them. Without any segments, everyone matches.
+ */
+export function matchesAnySegment(
+  segments: Segment[] | undefined,
+  event: SegmentEvent,
+  now: Date = new Date(),
+): boolean {
+  if (!segments || segments.length === 0) {
+    return true;
+  }
+  return segments.some((segment) => matchesSegment(segment, event, now));
+}
+
+function matchesString(condition: StringCondition, value: string | undefined): boolean {
+  if (typeof condition === 'string') {
+    return value === condition;
+  }
+  if (Array.isArray(condition)) {
+    return value !== undefined && condition.includes(value);
+  }
+  if ('exists' in condition) {
+    return condition.exists === (value !== undefined);
+  }
+  return value !== undefined && condition.matches.test(value);
+}
+
+function matchesRange({ min = -Infinity, max = Infinity }: NumberRange, value: number): boolean {
+  return value >= min && value <= max;
+}
+
+function isNear(radius: GeoRadius, latitude: string | undefined, longitude: string | undefined): boolean {
+  const lat = parseFloat(latitude ?? '');
+  const lon = parseFloat(longitude ?? '');
+  if (Number.isNaN(lat) || Number.isNaN(lon)) {
+    return false;
+  }
+  return distanceInKm(radius.latitude, radius.longitude, lat, lon) <= radius.radiusKm;
+}
+
+// The haversine formula, which is accurate enough for IP-based locations.
+function distanceInKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+function matchesTimeOfDay(timeOfDay: TimeOfDay, visitorTimezone: string | undefined, now: Date): boolean {
+  const { weekday, minutes } = getLocalTime(now, timeOfDay.timezone ?? visitorTimezone ?? 'UTC');
+  const from = parseTime(timeOfDay.from);
+  const to = parseTime(timeOfDay.to);
+  // Wrapping past midnight, e.g. 22:00 to 06:00, or the whole day
+  const wraps = from >= to;
+
+  if (wraps ? minutes < from && minutes >= to : minutes < from || minutes >= to) {
+    return false;
+  }
+  if (!timeOfDay.days) {
+    return true;
+  }
+
+  // After midnight, a wrapping range started the day before.
+  const startedYesterday = wraps && minutes < from;
+  const startDay = startedYesterday ? WEEKDAYS[(WEEKDAYS.indexOf(weekday) + 6) % 7] : weekday;
+  return timeOfDay.days.includes(startDay);
+}
+
+function getLocalTime(now: Date, timeZone: string): { weekday: Weekday; minutes: number } {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      weekday: 'short',
+      hour: 'numeric',
+      minute: 'numeric',
+      hourCycle: 'h23',
+    }).formatToParts(now);
+  } catch (e) {
+    // An unknown timezone, so the best we can do is UTC.
+    return getLocalTime(now, 'UTC');
+  }
+
+  const get = (type: string) => parts.find((part) => part.type === type)?.value ?? '';
+  // Some engines format midnight as 24 even with h23
+  const hours = Number(get('hour')) % 24;
+  return {
+    weekday: get('weekday').slice(0, 3).toLowerCase() as Weekday,
+    minutes: hours * 60 + Number(get('minute')),
+  };
+}
+
+function parseTime(time: string): number {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time);
+  if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) {
+    throw new TypeError(`Invalid time '${time}' in segment, expected a 24-hour time like '09:30'.`);
+  }
+  return Number(match[1]) * 60 + Number(match[2]);
+}
@@ -0,0 +1,202 @@
+import { OutsmartlyEvent } from '../../OutsmartlyEvent';
+import { Override } from '../../types';
+import {
+  createTestInterceptEvent,
+  createTestMiddlewareEvent,
+  createTestOverrideEvent,
+  DEFAULT_TEST_URL,
+  DEFAULT_TEST_VISITOR,
+} from '..';
+
+describe('createTestOverrideEvent()', () => {
+  it('creates an override event with realistic defaults', async () => {
+    const event = createTestOverrideEvent();
+    expect(event).toBeInstanceOf(OutsmartlyEvent);
+    expect(event.type).toBe('outsmartlyoverride');
+    expect(event.visitor).toEqual({ ...DEFAULT_TEST_VISITOR, profile: expect.any(Object) });
+    expect(event.request.url).toBe(DEFAULT_TEST_URL);
+    expect(event.request.outsmartly.params).toEqual({});
+    expect(event.url.hostname).toBe('example.outsmartly.app');
+    expect(event.state).toEqual({});
+    expect(event.cookies.size).toBe(0);
+    expect(await event.getComponentArguments()).toEqual([]);
+  });
+
+  it('uses the provided visitor fields, on top of the defaults', () => {
+    const event = createTestOverrideEvent({
+      visitor: {
+        country: 'CA',
+        deviceType: 'mobile',
+        bot: { score: 99 },
+      },
+    });
+    expect(event.visitor.country).toBe('CA');
+    expect(event.visitor.deviceType).toBe('mobile');
+    expect(event.visitor.bot).toEqual({ verified: false, score: 99 });
+    expect(event.visitor.timezone).toBe(DEFAULT_TEST_VISITOR.timezone);
+  });
+
+  it('gives the visitor a profile, with whatever is provided already in it', async () => {
+    const event = createTestOverrideEvent({ profile: { counters: { orders: 2 } } });
+    expect(await event.visitor.profile.get()).toEqual({
+      traits: {},
+      counters: { orders: 2 },
+      updatedAt: expect.any(Number),
+    });
+
+    await event.visitor.profile.update({ increment: { orders: 1 } });
+    expect((await event.visitor.profile.get()).counters).toEqual({ orders: 3 });
+    expect((await createTestOverrideEvent().visitor.profile.get()).counters).toEqual({});
+  });
+
+  it('uses the provided request, params and cookies', () => {
+    const event = createTestOverrideEvent({
+      request: 'https://example.outsmartly.app/products/123?color=red',
+      params: { productId: '123' },
+      cookies: { theme: 'dark' },
+    });
+    expect(event.url.pathname).toBe('/products/123');
+    expect(event.url.searchParams.get('color')).toBe('red');
+    expect(event.request.outsmartly.params).toEqual({ productId: '123' });
+    expect(event.cookies.get('theme')).toBe('dark');
+  });
+
+  it('accepts cookies as a Cookie header string', () => {
+    const event = createTestOverrideEvent({ cookies: 'a=1; b=2' });
+    expect(event.cookies.get('a')).toBe('1');
+    expect(event.cookies.get('b')).toBe('2');
+  });
+
+  it('resolves getComponentArguments() with the provided arguments', async () => {
+    const event = createTestOverrideEvent({ componentArguments: [{ title: 'Hello' }] });
+    expect(await event.getComponentArguments()).toEqual([{ title: 'Hello' }]);
+  });
+
+  it('can be used to test an override', async () => {
+    const override: Override = {
+      component: 'Banner',
+      async getOverrideProps(event) {
+        const [props] = await event.getComponentArguments<[{ title: string }]>();
+        event.log('visitor is from', event.visitor.country);
+        if (event.visitor.country === 'CA') {
+          return { props: { title: `${props.title}, eh` } };
+        }
+      },
+    };
+
+    const event = createTestOverrideEvent({
+      visitor: { country: 'CA' },
+      componentArguments: [{ title: 'Hello' }],
+    });
+    expect(await override.getOverrideProps(event)).toEqual({ props: { title: 'Hello, eh' } });
+    expect(event.logs).toEqual([{ type: 'log', args: ['visitor is from', 'CA'] }]);
+  });
+});
+
+describe('createTestMiddlewareEvent()', () => {
+  it('creates a middleware event', () => {
+    const event = createTestMiddlewareEvent();
+    expect(event.type).toBe('outsmartlymiddleware');
+  });
+
+  it('records log(), warn() and error() in order', () => {
+    const event = createTestMiddlewareEvent();
+    event.warn('first');
+    event.log('second', 2);
+    event.error('third');
+    expect(event.logs).toEqual([
+      { type: 'warn', args: ['first'] },
+      { type: 'log', args: ['second', 2] },
+      { type: 'error', args: ['third'] },
+    ]);
+  });
+
+  it('records cookie changes', () => {
+    const event = createTestMiddlewareEvent({ cookies: { a: '1' } });
+    event.cookies.set('b', '2');
+    event.cookies.delete('a');
+    expect(Array.from(event.cookies)).toEqual([['b', '2']]);
+  });
+
+  it('uses the provided cookie secrets, and records tampered cookies as warnings', async () => {
+    const event = createTestMiddlewareEvent({ cookies: { bucket: 'b.forged' }, cookieSecrets: ['secret'] });
+    expect(await event.cookies.getSigned('bucket')).toBeUndefined();
+    expect(event.logs).toEqual([{ type: 'warn', args: [expect.stringContaining("Cookie 'bucket' was ignored")] }]);
+
+    await event.cookies.setSigned('bucket', 'a');
+    expect(await event.cookies.getSigned('bucket')).toBe('a');
+  });
+});
+
+describe('createTestInterceptEvent()', () => {
+  it('creates an intercept event', () => {
+    const event = createTestInterceptEvent();
+    expect(event.type).toBe('outsmartlyintercept');
+  });
+
+  it('records promises passed to waitUntil()', async () => {
+    const event = createTestInterceptEvent();
+    const first = Promise.resolve(1);
+    const second = Promise.reject(new Error('failed'));
+    event.waitUntil(first);
+    event.waitUntil(second);
+    expect(event.waitUntilPromises).toEqual([first, second]);
+    await expect(event.allSettled()).resolves.toBeUndefined();
+  });
+
+  it('waits for promises added while settling', async () => {
+    const event = createTestInterceptEvent();
+    const done = jest.fn();
+    event.waitUntil(
+      Promise.resolve().then(() => {
+        event.waitUntil(Promise.resolve().then(done));
+      }),
+    );
+    await event.allSettled();
+    expect(done).toBeCalledTimes(1);
+  });
+});
+
+describe('TestEdgeMessageBus', () => {
+  it('records emitted messages and notifies listeners with the same visitor and cookies', async () => {
+    const event = createTestMiddlewareEvent({ visitor: { id: 'abc' }, cookies: { lsContextID: '123' } });
+    const messageBus = event.messageBus;
+    const listener = jest.fn(async (messageEvent) => {
+      expect(messageEvent.visitor.id).toBe('abc');
+      expect(messageEvent.cookies.get('lsContextID')).toBe('123');
+    });
+
+    messageBus.on('Example.FIRST', listener);
+    messageBus.emit('Example.FIRST', { first: 1 });
+
+    expect(messageBus.emittedMessages).toEqual([
+      { type: 'Example.FIRST', data: { first: 1 }, meta: expect.objectContaining({ origin: 'edge', sequence: 0 }) },
+    ]);
+    expect(listener).toBeCalledTimes(1);
+    expect(event.waitUntilPromises).toHaveLength(1);
+    await event.allSettled();
+  });
+
+  it("stores emitted messages right away, as the visitor's", async () => {
+    const event = createTestOverrideEvent({ visitor: { id: 'abc' } });
+    event.messageBus.emit('Commerce.Product.VIEWED', { product: { productId: '123' } });
+
+    const views = await event.messageBus.query({ visitorId: 'abc', type: 'Commerce.Product.VIEWED' });
+    expect(views).toEqual([expect.objectContaining({ data: { product: { productId: '123' } } })]);
+  });
+
+  it('records messages sent to the client by the event and its message events', () => {
+    const event = createTestMiddlewareEvent();
+    event.messageBus.on('Example.FIRST', (messageEvent) => {
+      messageEvent.sendToClient('Example.REPLY', { second: 2 });
+    });
+
+    event.sendToClient('Example.REPLY', { first: 1 });
+    event.messageBus.emit('Example.FIRST', null);
+
+    expect(event.messagesToClient).toEqual([
+      { type: 'Example.REPLY', data: { first: 1 } },
+      { type: 'Example.REPLY', data: { second: 2 } },
+    ]);
+  });
+});
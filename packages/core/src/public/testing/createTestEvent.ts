@@ -0,0 +1,400 @@
+import { MessageBus, MessageBusListener } from '../MessageBus';
+import { MessageBusMessage, MessageBusMessageMeta } from '../MessageBusMessage';
+import { createMemoryMessageStore } from '../messageStore';
+import { EdgeMessageBus, EdgeMessageBusListener, MatchingEdgeMessageEvent } from '../EdgeMessageBus';
+import { MessageDataByType } from '../MessageDataByType';
+import { MessageTypePattern } from '../messageTypePattern';
+import { OutsmartlyCookies, OutsmartlyCookiesOptions, OutsmartlyReadonlyCookies } from '../OutsmartlyCookies';
+import { OutsmartlyEdgeMessageEvent, OutsmartlyEvent } from '../OutsmartlyEvent';
+import { RouteParams } from '../matchRoute';
+import {
+  createMemoryVisitorProfileStore,
+  createVisitorProfile,
+  VisitorProfile,
+  VisitorProfileData,
+} from '../visitorProfile';
+import {
+  OutsmartlyEdgeVisitor,
+  OutsmartlyInterceptEvent,
+  OutsmartlyMiddlewareEvent,
+  OutsmartlyOverrideEvent,
+  OutsmartlyRequest,
+} from '../types';
+
+export const DEFAULT_TEST_URL = 'https://example.outsmartly.app/';
+
+/**
+ * A visitor from San Francisco on a desktop browser. Any of these can be
+ * replaced using the `visitor` option. Their profile starts out empty, unless
+ * the `profile` option says otherwise.
+ */
+export const DEFAULT_TEST_VISITOR: Omit<OutsmartlyEdgeVisitor, 'profile'> = {
+  id: 'test-visitor-id',
+  deviceType: 'desktop',
+  ipAddress: '127.0.0.1',
+  clientTcpRtt: 10,
+  httpProtocol: 'HTTP/2',
+  city: 'San Francisco',
+  continent: 'NA',
+  country: 'US',
+  latitude: '37.7749',
+  longitude: '-122.4194',
+  postalCode: '94107',
+  region: 'California',
+  regionCode: 'CA',
+  timezone: 'America/Los_Angeles',
+  bot: {
+    verified: false,
+    score: 0,
+  },
+  asn: 13335,
+};
+
+export interface TestEdgeEventOptions {
+  /**
+   * The request, or just its URL. Defaults to DEFAULT_TEST_URL.
+   */
+  request?: Request | string;
+
+  /**
+   * Route parameters, as if they were matched from the route's path.
+   */
+  params?: RouteParams;
+
+  /**
+   * Fields to replace on DEFAULT_TEST_VISITOR. `bot` can be partial too.
+   */
+  visitor?: Partial<Omit<OutsmartlyEdgeVisitor, 'bot'>> & { bot?: Partial<OutsmartlyEdgeVisitor['bot']> };
+
+  /**
+   * What's already in the visitor's profile, as if saved by earlier requests.
+   * It's kept in memory, so updates made during the test can be checked with
+   * `event.visitor.profile.get()`.
+   */
+  profile?: Partial<VisitorProfileData>;
+
+  /**
+   * The cookies sent with the request, as an object or a Cookie header string.
+   */
+  cookies?: { [name: string]: string } | string;
+
+  /**
+   * The secrets for signed and encrypted cookies, as in the `cookies.secrets`
+   * config option. Problems reading them are recorded by event.warn().
+   */
+  cookieSecrets?: string[];
+
+  state?: { [key: string]: unknown };
+
+  messageBus?: EdgeMessageBus;
+}
+
+export interface TestOverrideEventOptions extends TestEdgeEventOptions {
+  /**
+   * What getComponentArguments() resolves with, e.g. `[props]`
+   */
+  componentArguments?: unknown[];
+}
+
+export interface TestEventLogEntry {
+  type: 'log' | 'warn' | 'error';
+  args: any[];
+}
+
+/**
+ * What a test event recorded, for your assertions.
+ */
+export interface TestEventRecords {
+  /**
+   * Everything passed to event.log(), event.warn() and event.error(), in order.
+   */
+  logs: TestEventLogEntry[];
+
+  /**
+   * Every promise passed to event.waitUntil(), in order.
+   */
+  waitUntilPromises: Promise<unknown>[];
+
+  /**
+   * Every message passed to event.sendToClient(), by this event or the
+   * message events of its messageBus, in order.
+   */
+  messagesToClient: MessageBusMessage<string, unknown>[];
+
+  /**
+   * Resolves once every promise passed to event.waitUntil() has settled,
+   * including any passed while waiting.
+   */
+  allSettled(): Promise<void>;
+}
+
+/**
+ * B is the type of the `messageBus` option, or TestEdgeMessageBus without one.
+ */
+export type TestOverrideEvent<B extends EdgeMessageBus = TestEdgeMessageBus> = OutsmartlyOverrideEvent &
+  TestEventRecords & { messageBus: B };
+export type TestMiddlewareEvent<B extends EdgeMessageBus = TestEdgeMessageBus> = OutsmartlyMiddlewareEvent &
+  TestEventRecords & { messageBus: B };
+export type TestInterceptEvent<B extends EdgeMessageBus = TestEdgeMessageBus> = OutsmartlyInterceptEvent &
+  TestEventRecords & { messageBus: B };
+
+class TestEdgeRequestEvent<T extends string> extends OutsmartlyEvent implements TestEventRecords {
+  declare type: T;
+  logs: TestEventLogEntry[] = [];
+  waitUntilPromises: Promise<unknown>[] = [];
+  messagesToClient: MessageBusMessage<string, unknown>[] = [];
+  override messageBus: EdgeMessageBus;
+  override visitor: OutsmartlyEdgeVisitor;
+  request: OutsmartlyRequest;
+  state: { [key: string]: unknown };
+  cookies: OutsmartlyCookies;
+  // Shared with the cookies of message events
+  _cookieOptions: OutsmartlyCookiesOptions;
+
+  constructor(type: T, options: TestEdgeEventOptions) {
+    super(type);
+    this.request = createTestRequest(options.request, options.params);
+    const visitor = {
+      ...DEFAULT_TEST_VISITOR,
+      ...options.visitor,
+      bot: {
+        ...DEFAULT_TEST_VISITOR.bot,
+        ...options.visitor?.bot,
+      },
+    };
+    this.visitor = {
+      ...visitor,
+      profile: options.visitor?.profile ?? createTestVisitorProfile(visitor.id, options.profile),
+    };
+    this._cookieOptions = { secrets: options.cookieSecrets, warn: (...args) => this.warn(...args) };
+    this.cookies = new OutsmartlyCookies(
+      typeof options.cookies === 'object' ? Object.entries(options.cookies) : options.cookies ?? null,
+      this._cookieOptions,
+    );
+    this.state = options.state ?? {};
+    this.messageBus = options.messageBus ?? new TestEdgeMessageBus(this);
+  }
+
+  get url(): URL {
+    return new URL(this.request.url);
+  }
+
+  waitUntil(promise: Promise<unknown>): void {
+    this.waitUntilPromises.push(promise);
+  }
+
+  sendToClient(type: string, data: unknown): void {
+    this.messagesToClient.push(new MessageBusMessage(type, data));
+  }
+
+  log(...args: any[]): void {
+    this.logs.push({ type: 'log', args });
+  }
+
+  warn(...args: any[]): void {
+    this.logs.push({ type: 'warn', args });
+  }
+
+  error(...args: any[]): void {
+    this.logs.push({ type: 'error', args });
+  }
+
+  async allSettled(): Promise<void> {
+    let settledCount = 0;
+    // Promises that settle can add even more promises, so keep going until they stop.
+    while (settledCount < this.waitUntilPromises.length) {
+      const pending = this.waitUntilPromises.slice(settledCount);
+      settledCount = this.waitUntilPromises.length;
+      await Promise.all(pending.map((promise) => promise.catch(() => {})));
+    }
+  }
+}
+
+class TestOverrideEventImpl extends TestEdgeRequestEvent<'outsmartlyoverride'> {
+  constructor(options: TestOverrideEventOptions, private _componentArguments: unknown[]) {
+    super('outsmartlyoverride', options);
+  }
+
+  async getComponentArguments<R extends unknown[]>(): Promise<R> {
+    return this._componentArguments as R;
+  }
+}
+
+/**
+ * Message events delivered by the messageBus of a test event.
+ */
+class TestEdgeMessageEvent<T extends string, D> extends OutsmartlyEvent implements OutsmartlyEdgeMessageEvent<T, D> {
+  declare type: 'outsmartlyedgemessage';
+
+  constructor(
+    public override messageBus: MessageBus,
+    public override visitor: OutsmartlyEdgeVisitor,
+    public message: MessageBusMessage<T, D>,
+    public cookies: OutsmartlyReadonlyCookies,
+    private _requestEvent: TestEdgeRequestEvent<string>,
+  ) {
+    super('outsmartlyedgemessage');
+  }
+
+  sendToClient(type: string, data: unknown): void {
+    this._requestEvent.sendToClient(type, data);
+  }
+}
+
+/**
+ * The default messageBus of a test event. Listeners receive the same visitor
+ * and cookies as the event, and their promises are passed to its waitUntil().
+ * Emitted messages are recorded in `emittedMessages` instead of being sent,
+ * and stored right away, so query() finds them. Emit some before the code
+ * you're testing to give the visitor a history.
+ */
+export class TestEdgeMessageBus extends MessageBus {
+  emittedMessages: MessageBusMessage<string, unknown>[] = [];
+
+  constructor(private _event: TestEdgeRequestEvent<string>, private _store = createMemoryMessageStore()) {
+    super({ store: _store });
+  }
+
+  // Public like EdgeMessageBus's, so this can be used as one.
+  /**
+   * @private
+   */
+  override _createMessageMeta(): MessageBusMessageMeta {
+    // Messages emitted while handling a request are that visitor's.
+    return { ...super._createMessageMeta(), visitorId: this._event.visitor.id };
+  }
+
+  protected override _throttledWriteToExternal(message: MessageBusMessage<string, unknown>): void {
+    // No need to wait around for the throttle timer in tests.
+    this.emittedMessages.push(message);
+    // Memory store writes finish synchronously, so there's nothing to wait for.
+    this._store.write([message]);
+  }
+
+  /**
+   * @private
+   */
+  override async _writeToExternal(_messages: MessageBusMessage<string, unknown>[]): Promise<void> {}
+
+  /**
+   * @private
+   */
+  override _waitUntil(promise: Promise<unknown> | void): void {
+    if (promise) {
+      this._event.waitUntil(promise);
+    }
+  }
+
+  /**
+   * @private
+   */
+  override _notifyListener(
+    listener: EdgeMessageBusListener<string, unknown>,
+    message: MessageBusMessage<string, unknown>,
+  ): void {
+    const cookies = new OutsmartlyReadonlyCookies(Array.from(this._event.cookies), this._event._cookieOptions);
+    const event = new TestEdgeMessageEvent(this, this._event.visitor, message, cookies, this._event);
+    this._waitUntil(listener(event));
+  }
+}
+
+export interface TestEdgeMessageBus extends MessageBus {
+  on<T extends keyof MessageDataByType>(type: T, callback: EdgeMessageBusListener<T, MessageDataByType[T]>): this;
+  on<P extends MessageTypePattern>(pattern: P, callback: MessageBusListener<MatchingEdgeMessageEvent<P>>): this;
+  on<T extends string, D = unknown>(
+    type: T extends keyof MessageDataByType ? never : T,
+    callback: EdgeMessageBusListener<T, D>,
+  ): this;
+  on(type: string, callback: EdgeMessageBusListener<any, any>): this;
+
+  off<T extends keyof MessageDataByType>(type: T, callback: EdgeMessageBusListener<T, MessageDataByType[T]>): this;
+  off<P extends MessageTypePattern>(pattern: P, callback: MessageBusListener<MatchingEdgeMessageEvent<P>>): this;
+  off<T extends string, D = unknown>(
+    type: T extends keyof MessageDataByType ? never : T,
+    callback: EdgeMessageBusListener<T, D>,
+  ): this;
+
+  once<T extends keyof MessageDataByType>(type: T, callback: EdgeMessageBusListener<T, MessageDataByType[T]>): this;
+  once<P extends MessageTypePattern>(pattern: P, callback: MessageBusListener<MatchingEdgeMessageEvent<P>>): this;
+  once<T extends string, D = unknown>(
+    type: T extends keyof MessageDataByType ? never : T,
+    callback: EdgeMessageBusListener<T, D>,
+  ): this;
+
+  emit<T extends keyof MessageDataByType>(type: T, data: MessageDataByType[T]): this;
+  emit<T extends string, D = unknown>(type: T extends keyof MessageDataByType ? never : T, data: D): this;
+}
+
+/**
+ * Creates an event to test an `Override.getOverrideProps()` with.
+ *
+ *   const event = createTestOverrideEvent({
+ *     visitor: { country: 'CA' },
+ *     componentArguments: [{ title: 'Hello' }],
+ *   });
+ *   expect(await override.getOverrideProps(event)).toEqual({ props: { title: 'Bonjour' } });
+ *   expect(event.logs).toEqual([]);
+ */
+export function createTestOverrideEvent(
+  options?: TestOverrideEventOptions & { messageBus?: undefined },
+): TestOverrideEvent;
+export function createTestOverrideEvent<B extends EdgeMessageBus>(
+  options: TestOverrideEventOptions & { messageBus: B },
+): TestOverrideEvent<B>;
+export function createTestOverrideEvent(options: TestOverrideEventOptions): TestOverrideEvent<EdgeMessageBus>;
+export function createTestOverrideEvent(options: TestOverrideEventOptions = {}): TestOverrideEvent<EdgeMessageBus> {
+  const { componentArguments = [] } = options;
+  return new TestOverrideEventImpl(options, componentArguments);
+}
+
+/**
+ * Creates an event to test a `Middleware` with. You provide the `next()`.
+ */
+export function createTestMiddlewareEvent(
+  options?: TestEdgeEventOptions & { messageBus?: undefined },
+): TestMiddlewareEvent;
+export function createTestMiddlewareEvent<B extends EdgeMessageBus>(
+  options: TestEdgeEventOptions & { messageBus: B },
+): TestMiddlewareEvent<B>;
+export function createTestMiddlewareEvent(options: TestEdgeEventOptions): TestMiddlewareEvent<EdgeMessageBus>;
+export function createTestMiddlewareEvent(options: TestEdgeEventOptions = {}): TestMiddlewareEvent<EdgeMessageBus> {
+  return new TestEdgeRequestEvent('outsmartlymiddleware', options);
+}
+
+/**
+ * Creates an event to test a `Route.intercept()` with.
+ */
+export function createTestInterceptEvent(
+  options?: TestEdgeEventOptions & { messageBus?: undefined },
+): TestInterceptEvent;
+export function createTestInterceptEvent<B extends EdgeMessageBus>(
+  options: TestEdgeEventOptions & { messageBus: B },
+): TestInterceptEvent<B>;
+export function createTestInterceptEvent(options: TestEdgeEventOptions): TestInterceptEvent<EdgeMessageBus>;
+export function createTestInterceptEvent(options: TestEdgeEventOptions = {}): TestInterceptEvent<EdgeMessageBus> {
+  return new TestEdgeRequestEvent('outsmartlyintercept', options);
+}
+
+function createTestVisitorProfile(visitorId: string, profile?: Partial<VisitorProfileData>): VisitorProfile {
+  const store = createMemoryVisitorProfileStore();
+  if (profile) {
+    // Memory store writes finish synchronously, so it's there before the test reads it.
+    store.set(visitorId, { traits: {}, counters: {}, updatedAt: Date.now(), ...profile }, Infinity);
+  }
+  return createVisitorProfile(visitorId, store);
+}
+
+function createTestRequest(input: Request | string = DEFAULT_TEST_URL, params: RouteParams = {}): OutsmartlyRequest {
+  if (typeof Request === 'undefined') {
+    throw new TypeError(
+      'Test events need a global Request, which your test environment does not provide. Try a polyfill like cross-fetch/polyfill.',
+    );
+  }
+
+  const request = new Request(input) as OutsmartlyRequest;
+  request.outsmartly = {
+    id: 'test-request-id',
+    params,
+  };
+  return request;
+}
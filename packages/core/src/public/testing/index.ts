@@ -0,0 +1,15 @@
+export {
+  createTestOverrideEvent,
+  createTestMiddlewareEvent,
+  createTestInterceptEvent,
+  TestEdgeMessageBus,
+  TestEdgeEventOptions,
+  TestOverrideEventOptions,
+  TestEventLogEntry,
+  TestEventRecords,
+  TestOverrideEvent,
+  TestMiddlewareEvent,
+  TestInterceptEvent,
+  DEFAULT_TEST_URL,
+  DEFAULT_TEST_VISITOR,
+} from './createTestEvent';
@@ -1,6 +1,10 @@
 import { EdgeMessageBus } from './EdgeMessageBus';
-import { MessageBus } from './MessageBus';
+import { MessageBus, MessageBusOptions } from './MessageBus';
+import { MessageSchemas } from './messageSchema';
+import { OutsmartlyCookiesOptions } from './OutsmartlyCookies';
 import { OutsmartlyEdgeRequestEvent } from './OutsmartlyEvent';
+import { Segment } from './segments';
+import { VisitorProfile, VisitorProfileOptions } from './visitorProfile';
 
 type PromiseOrValue<T> = Promise<T> | T;
 
@@ -136,6 +140,14 @@ export interface OutsmartlyEdgeVisitor extends OutsmartlyVisitor {
    * Autonomous System Number of the incoming request, e.g. 123456.
    */
   asn: number;
+
+  /**
+   * What's known about this visitor from previous requests, such as traits
+   * and counters you've saved. It's kept by `id`, so it lasts as long as
+   * their cookie does, or until it expires.
+   * @see VisitorProfile
+   */
+  profile: VisitorProfile;
 }
 
 export declare class OutsmartlyMiddlewareEvent extends OutsmartlyEdgeRequestEvent {
@@ -154,9 +166,15 @@ export declare class OutsmartlyOverrideEvent extends OutsmartlyEdgeRequestEvent
 
 export interface Environment {
   /**
-   * Currently, only `name: 'production'` is supported.
+   * A unique name for this environment, e.g. 'production', 'staging',
+   * 'preview', or one per branch. It's the name you pass to the CLI:
+   *
+   *   outsmartly deploy staging
+   *
+   * Each environment is deployed separately, so deploying to one does
+   * not affect any of the others.
    */
-  name: 'production';
+  name: string;
 
   /**
    * Your origin is where Outsmartly's CDN proxies requests to.
@@ -204,6 +222,14 @@ export interface Override {
    */
   component: string;
 
+  /**
+   * Optional segments of visitors this override is for. If provided, it only
+   * runs when the visitor is in at least one of them.
+   *
+   * @see Segment
+   */
+  segments?: Segment[];
+
   /**
    * The lifecycle function where you compute and return the props you wish to
    * override.
@@ -215,15 +241,30 @@ export interface Route {
   /**
    * A pattern to match a given path. You can use an Express-style format,
    * where colons are used for parameters `/products/:productId` and an asterisk
-   * can be used as a wildcard match `/blog/*\/comments`.
+   * can be used as a wildcard match `/blog/*\/comments`. Parameters can also be
+   * optional `/products/:productId?` or repeated `/files/:path+`.
    *
    * Matched parameters are available on:
    *   event.request.outsmartly.params
    *
+   * Only one route handles a request: the first one, in the order provided,
+   * whose path matches.
+   *
    * @see OutsmartlyEdgeEvent
+   * @see compileRoutePath
+   * @see matchRoute
    */
   path: string | RegExp;
 
+  /**
+   * Optional segments of visitors this route is for. If provided, the visitor
+   * must be in at least one of them, otherwise the route is skipped as if its
+   * path didn't match, so a later route can handle the request instead.
+   *
+   * @see Segment
+   */
+  segments?: Segment[];
+
   /**
    * Optional middleware that runs after any top-level middleware, but before
    * your overrides start. They are applied in the order they are provided.
@@ -251,6 +292,14 @@ export interface Plugin {
    */
   name: string;
 
+  /**
+   * Schemas for the message types your plugin emits or listens for. They're
+   * registered before setup() is called, so malformed messages never reach
+   * your listeners.
+   * @see defineMessageTypes
+   */
+  messageTypes?: MessageSchemas;
+
   /**
    * An optional lifecycle function that is called when the edge is initially
    * starting up.
@@ -294,4 +343,25 @@ export interface OutsmartlyConfig {
    * They are applied in the order they are provided.
    */
   routes?: Route[];
+
+  /**
+   * Optional configuration for the edge's MessageBus.
+   */
+  messageBus?: MessageBusConfig;
+
+  /**
+   * Optional configuration for where visitor profiles are kept, and their limits.
+   * @see VisitorProfile
+   */
+  visitorProfile?: VisitorProfileOptions;
+
+  /**
+   * Optional configuration for signed and encrypted cookies.
+   * @see OutsmartlyCookies
+   */
+  cookies?: CookiesConfig;
 }
+
+export type MessageBusConfig = Omit<MessageBusOptions, 'debug'>;
+
+export type CookiesConfig = Pick<OutsmartlyCookiesOptions, 'secrets'>;
@@ -1,5 +1,6 @@
 import { ClientMessageBus } from './ClientMessageBus';
 import { MessageBusOptions } from './MessageBus';
+import { OutsmartlyClientReadonlyCookies } from './OutsmartlyClientCookies';
 import { OutsmartlyClientVisitor } from './types';
 
 // Lazily creating as a micro-optimization for initial bundle evaluation.
@@ -10,6 +11,8 @@ import { OutsmartlyClientVisitor } from './types';
 // and also making ESR potentially more difficult right now.
 let messageBus: ClientMessageBus | undefined;
 
+const SESSION_COOKIE_NAME = 'Outsmartly-Session';
+
 /**
  * Custom hook that decouples importing the client-side message bus from its
  * use by consumers. Allows us to add functionality to all instances.
@@ -26,31 +29,13 @@ export function useMessageBus(options?: MessageBusOptions): ClientMessageBus {
 }
 
 function getVisitorId(): string {
-  // When doing SSR/SSG. Technically if they ever some how on() and emit()
-  // on the origin server they'd now get an empty string for a visitor ID,
-  // which isn't ideal, but they'd be breaking the rules of React anyway.
-  if (typeof document === 'undefined') {
-    return '';
-  }
-
-  const input = document.cookie;
-  // We probably want to eventually error when this happens,
-  // but for now we won't because it would error during local
-  // dev mode, where Outsmartly's edge isn't in front of it.
-  if (input === '') {
-    return '';
-  }
-
-  const parts = input.split(';');
-
-  for (let i = 0, l = parts.length; i < l; i++) {
-    const [name, value] = parts[i].split('=');
-    if (name === 'Outsmartly-Session') {
-      return value;
-    }
-  }
-
-  // Similar to empty document.cookie above, probably should
-  // eventually error, but not for now.
-  return '';
+  // When doing SSR/SSG there are no cookies. Technically if they ever some
+  // how on() and emit() on the origin server they'd now get an empty string
+  // for a visitor ID, which isn't ideal, but they'd be breaking the rules of
+  // React anyway.
+  //
+  // We probably want to eventually error when there's no session cookie,
+  // but for now we won't because it would error during local dev mode,
+  // where Outsmartly's edge isn't in front of it.
+  return new OutsmartlyClientReadonlyCookies().get(SESSION_COOKIE_NAME) ?? '';
 }
@@ -0,0 +1,196 @@
+/**
+ * What's known about a visitor, kept across their sessions.
+ */
+export interface VisitorProfileData {
+  /**
+   * Facts about the visitor, e.g. `{ favoriteCategory: 'shoes' }`. Values
+   * must be JSON-serializable.
+   */
+  traits: { [name: string]: unknown };
+
+  /**
+   * Running totals, e.g. `{ orders: 3 }`.
+   */
+  counters: { [name: string]: number };
+
+  /**
+   * When the profile was last updated, in milliseconds since the epoch, or 0
+   * if it never has been.
+   */
+  updatedAt: number;
+}
+
+export interface VisitorProfileUpdate {
+  /**
+   * Traits to set. Setting one to `undefined` removes it.
+   */
+  traits?: { [name: string]: unknown };
+
+  /**
+   * Amounts to add to counters, which start at 0. Negative amounts subtract.
+   */
+  increment?: { [name: string]: number };
+}
+
+/**
+ * A visitor's profile, available edge-side as `event.visitor.profile`.
+ *
+ *   await event.visitor.profile.update({
+ *     traits: { lastCategory: 'shoes' },
+ *     increment: { orders: 1 },
+ *   });
+ *   const { counters } = await event.visitor.profile.get();
+ */
+export interface VisitorProfile {
+  get(): Promise<VisitorProfileData>;
+
+  /**
+   * Applies the changes, and resolves with the updated profile. Rejects
+   * without changing anything if the profile would get bigger than allowed.
+   */
+  update(changes: VisitorProfileUpdate): Promise<VisitorProfileData>;
+}
+
+/**
+ * Where visitor profiles are kept. Implement this to keep them in your own
+ * database, e.g. a key-value store that expires keys on its own.
+ */
+export interface VisitorProfileStore {
+  get(visitorId: string): Promise<VisitorProfileData | undefined>;
+
+  /**
+   * Saves the profile, which should be forgotten once `ttl` milliseconds
+   * have passed without it being saved again.
+   */
+  set(visitorId: string, profile: VisitorProfileData, ttl: number): Promise<void>;
+}
+
+export interface VisitorProfileOptions {
+  /**
+   * Where profiles are kept. The edge keeps them for you by default.
+   */
+  store?: VisitorProfileStore;
+
+  /**
+   * How long a profile is kept after its last update, in milliseconds.
+   * Defaults to 90 days.
+   */
+  ttl?: number;
+
+  /**
+   * The most bytes a profile can take up, once serialized as JSON.
+   * Defaults to 16KB.
+   */
+  maxBytes?: number;
+}
+
+export const DEFAULT_VISITOR_PROFILE_TTL = 90 * 24 * 60 * 60 * 1000;
+export const DEFAULT_VISITOR_PROFILE_MAX_BYTES = 16 * 1024;
+
+/**
+ * Creates the profile of a visitor, kept in the given store. Updates are
+ * applied one at a time, so listeners that update the same profile at once
+ * don't overwrite each other.
+ */
+export function createVisitorProfile(
+  visitorId: string,
+  store: VisitorProfileStore,
+  options: Omit<VisitorProfileOptions, 'store'> = {},
+): VisitorProfile {
+  const { ttl = DEFAULT_VISITOR_PROFILE_TTL, maxBytes = DEFAULT_VISITOR_PROFILE_MAX_BYTES } = options;
+  let lastUpdate: Promise<unknown> = Promise.resolve();
+
+  async function get(): Promise<VisitorProfileData> {
+    const profile = await store.get(visitorId);
+    return profile ?? { traits: {}, counters: {}, updatedAt: 0 };
+  }
+
+  async function applyUpdate(changes: VisitorProfileUpdate): Promise<VisitorProfileData> {
+    const profile = await get();
+    const traits = { ...profile.traits };
+    const counters = { ...profile.counters };
+
+    for (const [name, value] of Object.entries(changes.traits ?? {})) {
+      if (value === undefined) {
+        delete traits[name];
+      } else {
+        traits[name] = value;
+      }
+    }
+    for (const [name, amount] of Object.entries(changes.increment ?? {})) {
+      if (!Number.isFinite(amount)) {
+        throw new TypeError(`Visitor profile counter '${name}' can only be incremented by a finite number.`);
+      }
+      counters[name] = (counters[name] ?? 0) + amount;
+    }
+
+    const updated = { traits, counters, updatedAt: Date.now() };
+    const bytes = byteLength(JSON.stringify(updated));
+    if (bytes > maxBytes) {
+      throw new RangeError(`Visitor profile would be ${bytes} bytes, over the limit of ${maxBytes}.`);
+    }
+
+    await store.set(visitorId, updated, ttl);
+    return updated;
+  }
+
+  return {
+    get,
+    update(changes) {
+      const update = lastUpdate.then(() => applyUpdate(changes));
+      // A failed update shouldn't stop the ones after it.
+      lastUpdate = update.catch(() => {});
+      return update;
+    },
+  };
+}
+
+export interface MemoryVisitorProfileStoreOptions {
+  /**
+   * The most profiles kept, least recently saved dropped first. Defaults to 10000.
+   */
+  maxProfiles?: number;
+}
+
+/**
+ * A VisitorProfileStore that keeps profiles in memory, so they're gone when
+ * the process or isolate is. Meant for local development and tests.
+ */
+export function createMemoryVisitorProfileStore(options: MemoryVisitorProfileStoreOptions = {}): VisitorProfileStore {
+  const { maxProfiles = 10000 } = options;
+  // Map keeps insertion order, and profiles are re-inserted when saved,
+  // so the first one is always the least recently saved.
+  const entriesByVisitorId = new Map<string, { profile: VisitorProfileData; expiresAt: number }>();
+
+  return {
+    async get(visitorId) {
+      const entry = entriesByVisitorId.get(visitorId);
+      if (!entry) {
+        return undefined;
+      }
+      if (entry.expiresAt <= Date.now()) {
+        entriesByVisitorId.delete(visitorId);
+        return undefined;
+      }
+      return entry.profile;
+    },
+
+    async set(visitorId, profile, ttl) {
+      entriesByVisitorId.delete(visitorId);
+      entriesByVisitorId.set(visitorId, { profile, expiresAt: Date.now() + ttl });
+      if (entriesByVisitorId.size > maxProfiles) {
+        entriesByVisitorId.delete(entriesByVisitorId.keys().next().value);
+      }
+    },
+  };
+}
+
+// The UTF-8 length, counted by hand since not every environment has TextEncoder.
+function byteLength(value: string): number {
+  let bytes = 0;
+  for (const char of value) {
+    const codePoint = char.codePointAt(0)!;
+    bytes += codePoint < 0x80 ? 1 : codePoint < 0x800 ? 2 : codePoint < 0x10000 ? 3 : 4;
+  }
+  return bytes;
+}
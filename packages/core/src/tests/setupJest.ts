@@ -1 +1,7 @@
 import 'navigator.sendbeacon';
+import 'cross-fetch/polyfill';
+import { webcrypto } from 'crypto';
+import { TextDecoder, TextEncoder } from 'util';
+
+// jsdom doesn't have these, but browsers and the edge do.
+Object.assign(globalThis, { crypto: webcrypto, TextEncoder, TextDecoder });
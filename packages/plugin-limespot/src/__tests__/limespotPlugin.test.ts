@@ -302,6 +302,31 @@ describe('Limespot plugin', () => {
     });
   });
 
+  it("uses when the message was emitted when there's no timestamp", async () => {
+    const input = {
+      id: '444555777',
+      resolution: '1980 x 1200',
+    };
+
+    await expectPluginInputOutput({
+      input: [
+        {
+          type: 'productView',
+          data: input,
+        },
+      ],
+      output: [
+        {
+          // Date.now() is mocked to return 1337
+          ActivityTime: new Date(1337).toISOString(),
+          Event: 'ItemView',
+          ReferenceIdentifier: input.id,
+          ScreenResolution: input.resolution,
+        },
+      ],
+    });
+  });
+
   it('logs multiple activities when multiple events are emitted', async () => {
     const input1 = {
       id: '444555888',
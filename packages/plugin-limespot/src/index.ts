@@ -1,4 +1,58 @@
-import { Plugin, OutsmartlyEdgeMessageEvent, EdgeMessageBusListener } from '@outsmartly/core';
+import {
+  Plugin,
+  OutsmartlyEdgeMessageEvent,
+  EdgeMessageBusListener,
+  defineMessageTypes,
+  InferMessageDataByType,
+  schema,
+} from '@outsmartly/core';
+
+// A keyed collection of additional input types (i.e., properties on the
+// events we emit that this Limespot plugin needs to listen for). Messages that
+// don't match are rejected at the edge, before our listeners run. `timestamp`
+// is only needed from clients that don't send message meta yet.
+export const limespotMessageTypes = defineMessageTypes({
+  boxRender: schema.object({
+    boxKey: schema.string(),
+    integerData: schema.number(),
+    resolution: schema.string(),
+    timestamp: schema.optional(schema.string()),
+  }),
+  productView: schema.object({
+    id: schema.string(),
+    resolution: schema.string(),
+    timestamp: schema.optional(schema.string()),
+  }),
+  productTimeSpend: schema.object({
+    id: schema.string(),
+    integerData: schema.number(),
+    resolution: schema.string(),
+    timestamp: schema.optional(schema.string()),
+  }),
+  collectionView: schema.object({
+    integerData: schema.number(),
+    id: schema.string(),
+    resolution: schema.string(),
+    timestamp: schema.optional(schema.string()),
+  }),
+  collectionTimeSpend: schema.object({
+    integerData: schema.number(),
+    id: schema.string(),
+    resolution: schema.string(),
+    timestamp: schema.optional(schema.string()),
+  }),
+  variantAddToCart: schema.object({
+    integerData: schema.number(),
+    id: schema.string(),
+    resolution: schema.string(),
+    timestamp: schema.optional(schema.string()),
+  }),
+  cartTimeSpend: schema.object({
+    integerData: schema.number(),
+    resolution: schema.string(),
+    timestamp: schema.optional(schema.string()),
+  }),
+});
 
 /**
  * A custom Outsmartly plugin that attaches listeners for various message types
@@ -6,11 +60,12 @@ import { Plugin, OutsmartlyEdgeMessageEvent, EdgeMessageBusListener } from '@out
 export function limespotPlugin(): Plugin {
   return {
     name: '@outsmartly/plugin-limespot',
+    messageTypes: limespotMessageTypes,
     setup: ({ config, messageBus }) => {
       messageBus.on(
         'boxRender',
-        createMessageListener((data) => ({
-          ActivityTime: data.timestamp,
+        createMessageListener((data, activityTime) => ({
+          ActivityTime: activityTime,
           Event: `${data.boxKey}RecommendationsRendered`,
           IntData: data.integerData,
           ScreenResolution: data.resolution,
@@ -21,8 +76,8 @@ export function limespotPlugin(): Plugin {
 
       messageBus.on(
         'productView',
-        createMessageListener((data) => ({
-          ActivityTime: data.timestamp,
+        createMessageListener((data, activityTime) => ({
+          ActivityTime: activityTime,
           Event: 'ItemView',
           ReferenceIdentifier: data.id,
           ScreenResolution: data.resolution,
@@ -33,8 +88,8 @@ export function limespotPlugin(): Plugin {
 
       messageBus.on(
         'productTimeSpend',
-        createMessageListener((data) => ({
-          ActivityTime: data.timestamp,
+        createMessageListener((data, activityTime) => ({
+          ActivityTime: activityTime,
           Event: 'ItemTimeSpend',
           IntData: data.integerData,
           ReferenceIdentifier: data.id,
@@ -46,8 +101,8 @@ export function limespotPlugin(): Plugin {
 
       messageBus.on(
         'collectionView',
-        createMessageListener((data) => ({
-          ActivityTime: data.timestamp,
+        createMessageListener((data, activityTime) => ({
+          ActivityTime: activityTime,
           Event: 'CollectionView',
           ReferenceIdentifier: data.id,
           ScreenResolution: data.resolution,
@@ -58,8 +113,8 @@ export function limespotPlugin(): Plugin {
 
       messageBus.on(
         'collectionTimeSpend',
-        createMessageListener((data) => ({
-          ActivityTime: data.timestamp,
+        createMessageListener((data, activityTime) => ({
+          ActivityTime: activityTime,
           Event: 'CollectionTimeSpend',
           IntData: data.integerData,
           ReferenceIdentifier: data.id,
@@ -71,8 +126,8 @@ export function limespotPlugin(): Plugin {
 
       messageBus.on(
         'variantAddToCart',
-        createMessageListener((data) => ({
-          ActivityTime: data.timestamp,
+        createMessageListener((data, activityTime) => ({
+          ActivityTime: activityTime,
           Event: 'ProductVariantAddToCart',
           IntData: data.integerData,
           ReferenceIdentifier: data.id,
@@ -90,8 +145,8 @@ export function limespotPlugin(): Plugin {
 
       messageBus.on(
         'cartTimeSpend',
-        createMessageListener((data) => ({
-          ActivityTime: data.timestamp,
+        createMessageListener((data, activityTime) => ({
+          ActivityTime: activityTime,
           Event: 'CartTimeSpent',
           IntData: data.integerData,
           ScreenResolution: data.resolution,
@@ -105,60 +160,7 @@ export function limespotPlugin(): Plugin {
 
 // Add overloads on top of what is provided in core.
 declare module '@outsmartly/core' {
-  // A keyed collection of additional input types (i.e., properties on the
-  // events we emit that this Limespot plugin needs to listen for)
-  type NewMessageDataByType = {
-    boxRender: {
-      boxKey: string;
-      integerData: number;
-      resolution: string;
-      timestamp: string;
-      // referComponent: string;
-      // referPage: string;
-    };
-    productView: {
-      id: string;
-      resolution: string;
-      timestamp: string;
-      // referComponent: string;
-      // referPage: string;
-    };
-    productTimeSpend: {
-      id: string;
-      integerData: number;
-      resolution: string;
-      timestamp: string;
-      // referComponent: string;
-      // referPage: string;
-    };
-    collectionView: {
-      integerData: number;
-      id: string;
-      resolution: string;
-      timestamp: string;
-    };
-    collectionTimeSpend: {
-      integerData: number;
-      id: string;
-      resolution: string;
-      timestamp: string;
-    };
-    variantAddToCart: {
-      integerData: number;
-      id: string;
-      resolution: string;
-      timestamp: string;
-      // referComponent: string;
-      // referPage: string;
-    };
-    cartTimeSpend: {
-      integerData: number;
-      resolution: string;
-      timestamp: string;
-      // referComponent: string;
-      // referPage: string;
-    };
-  };
+  type NewMessageDataByType = InferMessageDataByType<typeof limespotMessageTypes>;
 
   // Get the keys of the above collection
   interface EdgeMessageBus {
@@ -252,14 +254,18 @@ const bufferedLimespotEvents: LimespotEvent[] = [];
 /**
  * Creates listener functions that return data in the format needed.
  */
-function createMessageListener<T extends string, D>(mapper: (data: D) => LimespotEvent) {
+function createMessageListener<T extends string, D extends { timestamp?: string }>(
+  mapper: (data: D, activityTime: string) => LimespotEvent,
+) {
   // `event` will be an OutsmartlyEvent
   return async (event: OutsmartlyEdgeMessageEvent<T, D>): Promise<void> => {
     const contextId = event.cookies.get('lsContextID');
     if (!contextId) {
       throw new Error(`Missing contextId`);
     }
-    const formattedLimespotEvent = mapper(event.message.data);
+    const { data, meta } = event.message;
+    const activityTime = data.timestamp ?? new Date(meta?.emittedAt ?? Date.now()).toISOString();
+    const formattedLimespotEvent = mapper(data, activityTime);
     bufferedLimespotEvents.push(formattedLimespotEvent);
     // Hey, just wait for a while, while other messages are added
     await scheduleBatchSend(contextId);
@@ -0,0 +1,14 @@
+import { EdgeMessage } from './getOverrideResults';
+
+// Listened for by ClientMessageBus in @outsmartly/core, which this package
+// doesn't depend on. It ignores messages it has already received, so the
+// ones in the page's own data being dispatched too is fine.
+const EDGE_MESSAGES_EVENT_TYPE = 'outsmartlymessages';
+
+export function dispatchEdgeMessages(messages: EdgeMessage[] | undefined): void {
+  if (!messages || messages.length === 0 || typeof window !== 'object') {
+    return;
+  }
+
+  window.dispatchEvent(new CustomEvent(EDGE_MESSAGES_EVENT_TYPE, { detail: messages }));
+}
@@ -9,10 +9,20 @@ export interface EdgeLogMessage {
   title?: string;
 }
 
+/**
+ * A message the edge sent to this visitor's ClientMessageBus.
+ */
+export interface EdgeMessage {
+  type: string;
+  data: unknown;
+  meta?: { id: string; [key: string]: unknown };
+}
+
 export interface OutsmartlyScriptData {
   minFormatVersion: number;
   overrides: StringifiedOverridesByScope;
   logs: EdgeLogMessage[];
+  messages?: EdgeMessage[];
   endpoints?: {
     overrides?: string;
   };
@@ -2,6 +2,7 @@ import { PageOverrides, state, _outsmartly_dev_mode, _outsmartly_enabled } from
 import { getOutsmartlyScriptData, OutsmartlyScriptData } from './getOverrideResults';
 import * as console from './console';
 import { reportEdgeLogs } from './reportEdgeLogs';
+import { dispatchEdgeMessages } from './dispatchEdgeMessages';
 
 export function getOverridesByPathname(pathname: string): PageOverrides | undefined {
   if (!_outsmartly_enabled || !state.hasRehydrated) {
@@ -27,6 +28,7 @@ function setOverridesForPathname(data: OutsmartlyScriptData, pathname: string) {
   };
 
   reportEdgeLogs(data.logs, pathname);
+  dispatchEdgeMessages(data.messages);
 }
 
 // This is specifically for the expected format of the data inside <script id="__OUTSMARTLY_DATA__">.